@@ -0,0 +1,93 @@
+/**
+ * Color Unit Tests
+ * Tests for CSS color normalization and currentColor resolution
+ */
+
+import {
+    parseColor,
+    isValidColor,
+    resolveCurrentColor,
+    parseInlineStyle,
+    createStyleResolver,
+} from '../src/styles';
+
+import { parseHtml } from '../src/parser';
+
+describe('parseColor', () => {
+    it('should keep colors React Native understands', () => {
+        expect(parseColor('#abc')).toBe('#abc');
+        expect(parseColor('#11223344')).toBe('#11223344');
+        expect(parseColor('RebeccaPurple')).toBe('rebeccapurple');
+        expect(parseColor('transparent')).toBe('transparent');
+    });
+
+    it('should normalize rgb() in legacy and space syntax', () => {
+        expect(parseColor('rgb(255, 0, 0)')).toBe('rgb(255, 0, 0)');
+        expect(parseColor('rgba(0, 0, 0, 0.25)')).toBe('rgba(0, 0, 0, 0.25)');
+        expect(parseColor('rgb(0 0 0 / 50%)')).toBe('rgba(0, 0, 0, 0.5)');
+        expect(parseColor('rgb(100% 50% 0%)')).toBe('rgb(255, 128, 0)');
+    });
+
+    it('should convert hsl() and hwb() with angle units', () => {
+        expect(parseColor('hsl(120deg 100% 25%)')).toBe('rgb(0, 128, 0)');
+        expect(parseColor('hsla(0.5turn, 100%, 50%, 0.5)')).toBe('rgba(0, 255, 255, 0.5)');
+        expect(parseColor('hwb(0 0% 0%)')).toBe('rgb(255, 0, 0)');
+    });
+
+    it('should mix colors with color-mix()', () => {
+        expect(parseColor('color-mix(in srgb, red, blue)')).toBe('rgb(128, 0, 128)');
+        expect(parseColor('color-mix(in srgb, white 25%, black)')).toBe('rgb(64, 64, 64)');
+        expect(parseColor('color-mix(in srgb, red 20%, blue 20%)')).toBe('rgba(128, 0, 128, 0.4)');
+    });
+
+    it('should reject invalid colors', () => {
+        expect(parseColor('notacolor')).toBeUndefined();
+        expect(parseColor('#12345')).toBeUndefined();
+        expect(parseColor('rgb(1, 2)')).toBeUndefined();
+        expect(isValidColor('hsl(10, 20%, 30%)')).toBe(true);
+    });
+
+    it('should not treat object keys as named colors', () => {
+        expect(parseColor('constructor')).toBeUndefined();
+        expect(parseColor('toString')).toBeUndefined();
+        expect(parseColor('__proto__')).toBeUndefined();
+        expect(isValidColor('hasOwnProperty')).toBe(false);
+        expect(parseColor('color-mix(in srgb, constructor, blue)')).toBeUndefined();
+    });
+
+    it('should defer currentColor until it is resolved', () => {
+        expect(parseColor('currentColor')).toBe('currentcolor');
+        expect(parseColor('currentColor', '#f00')).toBe('#f00');
+        expect(parseColor('color-mix(in srgb, currentColor, white)', 'red')).toBe('rgb(255, 128, 128)');
+    });
+});
+
+describe('currentColor resolution', () => {
+    it('should resolve against the element color', () => {
+        expect(resolveCurrentColor({ color: 'red', borderColor: 'currentcolor' } as any))
+            .toEqual({ color: 'red', borderColor: 'red' });
+        expect(parseInlineStyle('color: blue; border: 1px solid currentColor').borderColor).toBe('blue');
+    });
+
+    it('should resolve color: currentColor and shadows through the style resolver', () => {
+        const { nodes } = parseHtml(
+            '<div style="color: green"><p style="color: currentColor; box-shadow: 0 1px 2px">Text</p></div>'
+        );
+        const { style } = createStyleResolver()((nodes[0] as any).children[0]);
+
+        expect(style.color).toBe('green');
+        expect((style as any).shadowColor).toBe('green');
+    });
+
+    it('should drop invalid colors and report them in debug mode', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const { nodes } = parseHtml('<p style="color: bogus; background-color: #fff">Text</p>');
+
+        const { style } = createStyleResolver({ debug: true })(nodes[0] as any);
+
+        expect(style.color).toBeUndefined();
+        expect(style.backgroundColor).toBe('#fff');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid color "bogus"'));
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Markdown Export Unit Tests
+ * Tests for HTML to CommonMark/GFM conversion
+ */
+
+import { parseHtml, htmlToMarkdown, markdownToHtml, type HtmlToMarkdownOptions } from '../src/parser';
+
+function toMarkdown(html: string, options?: HtmlToMarkdownOptions): string {
+    return htmlToMarkdown(parseHtml(html).nodes, options);
+}
+
+describe('htmlToMarkdown', () => {
+    it('should convert headings, emphasis and strikethrough', () => {
+        expect(toMarkdown('<h1>Title</h1><p>Some <strong>bold</strong> and <em>italic</em>, <del>gone</del></p><h3>Sub</h3>')).toBe(
+            '# Title\n\nSome **bold** and *italic*, ~~gone~~\n\n### Sub'
+        );
+    });
+
+    it('should escape Markdown syntax in text', () => {
+        expect(toMarkdown('<p>1. Not a list *or* [link]</p><p># Not a heading<br>- or item</p>')).toBe(
+            '1\\. Not a list \\*or\\* \\[link\\]\n\n\\# Not a heading\\\n\\- or item'
+        );
+    });
+
+    it('should convert links, images and inline code', () => {
+        expect(toMarkdown(
+            '<p><a href="https://x.dev" title="Docs">docs</a>, <img src="a b.png" alt="Cat">, <code>a`b</code></p>'
+        )).toBe('[docs](https://x.dev "Docs"), ![Cat](<a b.png>), ``a`b``');
+    });
+
+    it('should convert nested lists and task lists', () => {
+        const markdown = toMarkdown(
+            '<ul><li>One<ol><li>First</li><li>Second<p>More</p></li></ol></li>' +
+            '<li><input type="checkbox" checked> Done</li><li><input type="checkbox"> Todo</li></ul>'
+        );
+
+        expect(markdown).toBe([
+            '- One',
+            '  1. First',
+            '  2. Second',
+            '',
+            '     More',
+            '- [x] Done',
+            '- [ ] Todo',
+        ].join('\n'));
+    });
+
+    it('should prefix blockquotes and fence code blocks', () => {
+        const markdown = toMarkdown(
+            '<blockquote><p>Quote</p><p>More</p></blockquote>' +
+            '<pre><code class="language-ts">const a = 1;<br>const b = "```";</code></pre>'
+        );
+
+        expect(markdown).toBe('> Quote\n>\n> More\n\n````ts\nconst a = 1;\nconst b = "```";\n````');
+    });
+
+    it('should convert simple tables to GFM tables', () => {
+        const markdown = toMarkdown(
+            '<table><thead><tr><th>Name</th><th align="right">Score</th></tr></thead>' +
+            '<tbody><tr><td>A | B</td><td>9</td></tr><tr><td>C</td></tr></tbody></table>'
+        );
+
+        expect(markdown).toBe('| Name | Score |\n| --- | ---: |\n| A \\| B | 9 |\n| C |  |');
+    });
+
+    it('should write unsupported elements as raw HTML', () => {
+        const html = '<p>x<sup>2</sup></p><table><tr><td colspan="2">Merged</td></tr></table>';
+
+        expect(toMarkdown(html)).toBe('x<sup>2</sup>\n\n<table><tr><td colspan="2">Merged</td></tr></table>');
+        expect(toMarkdown(html, { rawHtml: false })).toBe('x2\n\nMerged');
+        expect(toMarkdown('<p><u>Under</u>, <em>line</em></p>', { keepTags: ['em'] })).toBe('<u>Under</u>, <em>line</em>');
+    });
+
+    it('should keep the whitespace between inline elements through a round trip', () => {
+        const markdown = toMarkdown(
+            '<p>a <em>b</em> <strong>c</strong> <a href="http://x">l</a> <code>d</code> <del>e</del> <img src="f.png" alt="f"></p>'
+        );
+
+        expect(markdown).toBe('a *b* **c** [l](http://x) `d` ~~e~~ ![f](f.png)');
+        expect(markdownToHtml(markdown)).toBe(
+            '<p>a <em>b</em> <strong>c</strong> <a href="http://x">l</a> <code>d</code> <del>e</del> <img src="f.png" alt="f"></p>'
+        );
+    });
+
+    it('should not add whitespace between adjacent inline elements', () => {
+        expect(toMarkdown('<p><strong>a</strong><a href="http://x">b</a></p>')).toBe('**a**[b](http://x)');
+        expect(toMarkdown('<p><em>a</em>, <em>b</em></p>')).toBe('*a*, *b*');
+    });
+
+    it('should keep line breaks of preformatted text through a round trip', () => {
+        const markdown = toMarkdown('<pre>line1\n  line2</pre>');
+
+        expect(markdown).toBe('```\nline1\n  line2\n```');
+        expect(markdownToHtml(markdown)).toBe('<pre><code>line1\n  line2</code></pre>');
+    });
+});
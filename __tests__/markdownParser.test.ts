@@ -0,0 +1,127 @@
+/**
+ * Markdown Parser Unit Tests
+ * Tests for CommonMark and GFM parsing into HTML and the AST
+ */
+
+import { markdownToHtml, parseMarkdown, htmlToMarkdown, type ElementNode } from '../src/parser';
+
+describe('markdownToHtml', () => {
+    it('should convert headings, paragraphs and thematic breaks', () => {
+        expect(markdownToHtml('# Title #\n\nSetext\n===\n\nLine one\nline two\n\n***')).toBe(
+            '<h1>Title</h1>\n<h1>Setext</h1>\n<p>Line one\nline two</p>\n<hr>'
+        );
+    });
+
+    it('should convert emphasis, strikethrough and code spans', () => {
+        expect(markdownToHtml('*em* __strong__ ***both*** ~~gone~~ snake_case_name `a < b`')).toBe(
+            '<p><em>em</em> <strong>strong</strong> <em><strong>both</strong></em> <del>gone</del> ' +
+            'snake_case_name <code>a &lt; b</code></p>'
+        );
+    });
+
+    it('should convert links, images and autolinks', () => {
+        const html = markdownToHtml(
+            '[Docs](https://x.dev "Title") ![Cat *pic*](cat.png) [ref][r] <https://a.dev> www.b.dev\n\n' +
+            '[r]: /reference'
+        );
+
+        expect(html).toBe(
+            '<p><a href="https://x.dev" title="Title">Docs</a> <img src="cat.png" alt="Cat pic"> ' +
+            '<a href="/reference">ref</a> <a href="https://a.dev">https://a.dev</a> ' +
+            '<a href="http://www.b.dev">www.b.dev</a></p>'
+        );
+    });
+
+    it('should drop script URLs from links and images', () => {
+        const html = markdownToHtml(
+            '[a](javascript:alert(1)) [b](JavaScript&#58;alert) ![c](vbscript:x) <javascript:alert(1)> [d][r]\n\n' +
+            '[r]: javascript:void(0)'
+        );
+
+        expect(html).toBe(
+            '<p><a>a</a> <a>b</a> <img alt="c"> <a>javascript:alert(1)</a> <a>d</a></p>'
+        );
+    });
+
+    it('should handle escapes and hard line breaks', () => {
+        expect(markdownToHtml('\\*not em\\* &copy; a & b  \nnext\\\nlast')).toBe(
+            '<p>*not em* &copy; a &amp; b<br>\nnext<br>\nlast</p>'
+        );
+    });
+
+    it('should convert nested, ordered and task lists', () => {
+        const html = markdownToHtml('- [x] Done\n- [ ] Todo\n  1. First\n  2. Second\n\n3) Three\n4) Four');
+
+        expect(html).toBe([
+            '<ul>',
+            '<li><input type="checkbox" disabled checked> Done</li>',
+            '<li><input type="checkbox" disabled> Todo',
+            '<ol>',
+            '<li>First</li>',
+            '<li>Second</li>',
+            '</ol></li>',
+            '</ul>',
+            '<ol start="3">',
+            '<li>Three</li>',
+            '<li>Four</li>',
+            '</ol>',
+        ].join('\n'));
+    });
+
+    it('should wrap paragraphs of loose lists', () => {
+        expect(markdownToHtml('* One\n\n  More\n* Two')).toBe(
+            '<ul>\n<li><p>One</p>\n<p>More</p></li>\n<li><p>Two</p></li>\n</ul>'
+        );
+    });
+
+    it('should convert block quotes and code blocks', () => {
+        const html = markdownToHtml('> Quote\nlazy\n> - item\n\n```ts\nconst a = 1 < 2;\n```\n\n    indented');
+
+        expect(html).toBe(
+            '<blockquote>\n<p>Quote\nlazy</p>\n<ul>\n<li>item</li>\n</ul>\n</blockquote>\n' +
+            '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>\n' +
+            '<pre><code>indented</code></pre>'
+        );
+    });
+
+    it('should keep deeply nested quote and list markers as text', () => {
+        const quotes = markdownToHtml(`${'> '.repeat(2000)}x`);
+        const lists = markdownToHtml(`${'- '.repeat(2000)}x`);
+
+        expect(quotes.match(/<blockquote>/g)).toHaveLength(100);
+        expect(quotes).toContain(`<p>${'&gt; '.repeat(1900)}x</p>`);
+        expect(lists.match(/<ul>/g)).toHaveLength(100);
+        expect(lists).toContain(`<li>${'- '.repeat(1900)}x</li>`);
+    });
+
+    it('should convert GFM tables', () => {
+        expect(markdownToHtml('| Name | Score |\n| :--- | ---: |\n| A \\| B | 9 |\n| C |')).toBe(
+            '<table><thead><tr><th style="text-align: left">Name</th><th style="text-align: right">Score</th></tr></thead>' +
+            '<tbody><tr><td style="text-align: left">A | B</td><td style="text-align: right">9</td></tr>' +
+            '<tr><td style="text-align: left">C</td><td style="text-align: right"></td></tr></tbody></table>'
+        );
+    });
+
+    it('should pass inline and block HTML through', () => {
+        expect(markdownToHtml('<div class="note">\n*raw*\n</div>\n\nText with <sup>2</sup> and *em*')).toBe(
+            '<div class="note">\n*raw*\n</div>\n<p>Text with <sup>2</sup> and <em>em</em></p>'
+        );
+    });
+});
+
+describe('parseMarkdown', () => {
+    it('should parse Markdown into the HTML AST', () => {
+        const { nodes } = parseMarkdown('## Hi <span class="x">there</span>\n\n- a');
+        const heading = nodes[0] as ElementNode;
+
+        expect(heading.tagName).toBe('h2');
+        expect((heading.children[1] as ElementNode).attributes.class).toBe('x');
+        expect((nodes[1] as ElementNode).tagName).toBe('ul');
+    });
+
+    it('should round-trip through htmlToMarkdown', () => {
+        const markdown = '# Title\n\nSome **bold**, *em* and [link](https://x.dev)\n\n- One\n  1. Sub\n- [x] Task\n\n> Quote';
+
+        expect(htmlToMarkdown(parseMarkdown(markdown).nodes)).toBe(markdown);
+    });
+});
@@ -7,7 +7,9 @@ import {
     parseHtml,
     parseHtmlStrict,
     walkAst,
+    mapAst,
     findByTag,
+    findNode,
     findById,
     countNodes,
     getTextContent,
@@ -15,7 +17,10 @@ import {
     NodeType,
     isElementNode,
     isTextNode,
+    hasFatalParseError,
+    createStreamingParser,
 } from '../src/parser';
+import type { ElementNode } from '../src/parser';
 
 describe('parseHtml', () => {
     beforeEach(() => {
@@ -99,6 +104,20 @@ describe('parseHtml', () => {
         expect(text).not.toContain('   ');
     });
 
+    it('should keep whitespace inside pre', () => {
+        const { nodes } = parseHtml('<pre>\n  a\n <b>b</b>  \n</pre>');
+
+        expect(getTextContent(nodes[0])).toBe('  a\n b  \n');
+    });
+
+    it('should keep whitespace between inline elements only', () => {
+        const { nodes } = parseHtml('<div>\n  <p><b>a</b> <i>b</i><i>c</i></p>\n  <p>d</p>\n</div>');
+        const div = nodes[0] as ElementNode;
+
+        expect(div.children.map(child => child.type)).toEqual([NodeType.Element, NodeType.Element]);
+        expect(getTextContent(div.children[0])).toBe('a bc');
+    });
+
     it('should skip script and style tags', () => {
         const { nodes } = parseHtml('<div><script>alert("x")</script><style>.x{}</style>Content</div>');
 
@@ -108,6 +127,13 @@ describe('parseHtml', () => {
         expect(div.children.every((c: any) => c.tagName !== 'style')).toBe(true);
     });
 
+    it('should collect <style> contents as stylesheets', () => {
+        const { nodes, stylesheets } = parseHtml('<style>.note { color: red; }</style><p class="note">Text</p>');
+
+        expect(stylesheets).toEqual(['.note { color: red; }']);
+        expect(nodes).toHaveLength(1);
+    });
+
     it('should handle HTML entities', () => {
         const { nodes } = parseHtml('<p>&amp; &lt; &gt; &quot;</p>');
 
@@ -162,6 +188,72 @@ describe('walkAst', () => {
     });
 });
 
+describe('mapAst', () => {
+    it('should wrap, split and remove nodes without modifying the input', () => {
+        const { nodes } = parseHtml('<div><table><tr><td>A</td></tr></table><hr><p>One|Two</p></div>');
+
+        const mapped = mapAst(nodes, (node) => {
+            if (!isElementNode(node)) {
+                return node;
+            }
+            if (node.tagName === 'table') {
+                return { type: NodeType.Element, tagName: 'figure', attributes: {}, children: [node], key: '' };
+            }
+            if (node.tagName === 'hr') {
+                return null;
+            }
+            if (node.tagName === 'p') {
+                return getTextContent(node).split('|').map((text) => ({
+                    ...node,
+                    children: [{ type: NodeType.Text, content: text, key: '' }],
+                }));
+            }
+            return node;
+        });
+
+        const div = mapped[0] as ElementNode;
+        expect(div.children.map((child) => (child as ElementNode).tagName)).toEqual(['figure', 'p', 'p']);
+        expect(getTextContent(div.children[2])).toBe('Two');
+        expect((nodes[0] as ElementNode).children).toHaveLength(3);
+    });
+
+    it('should keep unchanged subtrees and pass original parents and siblings', () => {
+        const { nodes } = parseHtml('<ul><li>1</li><li>2</li></ul><p>Text</p>');
+        const siblingCounts: number[] = [];
+
+        const mapped = mapAst(nodes, (node, parent, siblings) => {
+            if (isElementNode(node) && node.tagName === 'li') {
+                expect(parent).toBe(nodes[0]);
+                siblingCounts.push(siblings.length);
+            }
+            return node;
+        });
+
+        expect(mapped).toEqual(nodes);
+        expect(mapped[0]).toBe(nodes[0]);
+        expect(siblingCounts).toEqual([2, 2]);
+    });
+
+    it('should point parents at mapped and inserted elements', () => {
+        const { nodes } = parseHtml('<p>Hi <em>there</em></p>');
+
+        const mapped = mapAst(nodes, (node) =>
+            isElementNode(node) && node.tagName === 'em'
+                ? { type: NodeType.Element, tagName: 'span', attributes: {}, children: [node], key: '' }
+                : node
+        );
+
+        const p = mapped[0] as ElementNode;
+        const span = p.children[1] as ElementNode;
+        const em = span.children[0] as ElementNode;
+        expect(p.parent).toBeUndefined();
+        expect(span.parent).toBe(p);
+        expect(em.parent).toBe(span);
+        expect(em.children[0].parent).toBe(em);
+        expect((nodes[0] as ElementNode).children[1].parent).toBe(nodes[0]);
+    });
+});
+
 describe('findByTag', () => {
     it('should find all elements by tag name', () => {
         const { nodes } = parseHtml('<div><p>1</p><p>2</p><span><p>3</p></span></div>');
@@ -193,6 +285,19 @@ describe('findById', () => {
         const element = findById(nodes, 'missing');
         expect(element).toBeUndefined();
     });
+
+    it('should return the first match without visiting the rest', () => {
+        const { nodes } = parseHtml('<div><p id="dup">First</p></div><p id="dup">Second</p>');
+        const visited: string[] = [];
+        const node = findNode(nodes, (n) => {
+            if (n.type === NodeType.Element) visited.push(n.tagName);
+            return n.type === NodeType.Element && n.attributes.id === 'dup';
+        });
+
+        expect(getTextContent(findById(nodes, 'dup')!)).toBe('First');
+        expect(node).toBe(findById(nodes, 'dup'));
+        expect(visited).toEqual(['div', 'p']);
+    });
 });
 
 describe('countNodes', () => {
@@ -221,3 +326,248 @@ describe('NodeType', () => {
         expect(NodeType.Comment).toBe('comment');
     });
 });
+
+describe('node keys', () => {
+    const keys = (html: string) => {
+        const result: string[] = [];
+        walkAst(parseHtml(html).nodes, node => {
+            result.push(node.key);
+        });
+        return result;
+    };
+
+    it('should produce identical keys when parsing the same HTML again', () => {
+        const html = '<ul><li>One</li><li>Two</li></ul><p>Text</p>';
+
+        expect(keys(html)).toEqual(keys(html));
+        expect(new Set(keys(html)).size).toBe(keys(html).length);
+    });
+
+    it('should keep keys of unchanged siblings when one node changes', () => {
+        const before = parseHtml('<p>First</p><p>Second</p><p>Third</p>').nodes;
+        const after = parseHtml('<p>First</p><p>Changed</p><p>Third</p>').nodes;
+
+        expect(after.map(node => node.key)).toEqual(before.map(node => node.key));
+        expect(after[0].hash).toBe(before[0].hash);
+        expect(after[1].hash).not.toBe(before[1].hash);
+        expect(after[2].hash).toBe(before[2].hash);
+    });
+
+    it('should keep container keys when nested content changes', () => {
+        const [before] = parseHtml('<div><h2>Title</h2><p>Old</p></div>').nodes as ElementNode[];
+        const [after] = parseHtml('<div><h2>Title</h2><p>New</p></div>').nodes as ElementNode[];
+
+        expect(after.key).toBe(before.key);
+        expect(after.hash).not.toBe(before.hash);
+        expect(after.children[0].key).toBe(before.children[0].key);
+        expect(after.children[0].hash).toBe(before.children[0].hash);
+        expect(after.children[1].hash).not.toBe(before.children[1].hash);
+    });
+
+    it('should change keys when the tag, id or position change', () => {
+        const [plain] = parseHtml('<p>Text</p>').nodes;
+        const [styled] = parseHtml('<p class="x">Text</p>').nodes;
+        const [identified] = parseHtml('<p id="intro">Text</p>').nodes;
+        const [heading] = parseHtml('<h1>Text</h1>').nodes;
+        const [, moved] = parseHtml('<hr><p>Text</p>').nodes;
+
+        expect(styled.key).toBe(plain.key);
+        expect(styled.hash).not.toBe(plain.hash);
+        expect(identified.key).toBe('0-p#intro');
+        expect(heading.key).not.toBe(plain.key);
+        expect(moved.key).not.toBe(plain.key);
+    });
+
+    it('should change descendant hashes when an ancestor changes', () => {
+        const [red] = parseHtml('<div style="color: red"><p>Text</p></div>').nodes as any[];
+        const [blue] = parseHtml('<div style="color: blue"><p>Text</p></div>').nodes as any[];
+
+        expect(blue.children[0].hash).not.toBe(red.children[0].hash);
+    });
+});
+
+describe('parser options', () => {
+    it('should drop comments by default and keep them with preserveComments', () => {
+        expect(parseHtml('<p>a<!-- note -->b</p>').nodes[0]).toMatchObject({
+            children: [{ type: NodeType.Text, content: 'ab' }],
+        });
+
+        const p = parseHtml('<p>a<!-- note -->b</p>', { preserveComments: true }).nodes[0] as any;
+        expect(p.children.map((child: any) => [child.type, child.content])).toEqual([
+            [NodeType.Text, 'a'],
+            [NodeType.Comment, ' note '],
+            [NodeType.Text, 'b'],
+        ]);
+        expect(getTextContent(p)).toBe('ab');
+    });
+
+    it('should treat selfClosingTags as void elements', () => {
+        const { nodes } = parseHtml('<x-icon name="star">Text', { selfClosingTags: ['x-icon'] });
+
+        expect(nodes).toHaveLength(2);
+        expect(nodes[0]).toMatchObject({ tagName: 'x-icon', children: [] });
+        expect(nodes[1]).toMatchObject({ type: NodeType.Text, content: 'Text' });
+    });
+
+    it('should keep rawTextTags content unparsed', () => {
+        const [math] = parseHtml('<x-math>  a <b>x</b> &lt; 2 </x-math>', { rawTextTags: ['x-math'] }).nodes as any[];
+
+        expect(math.children).toHaveLength(1);
+        expect(math.children[0].content).toBe('  a <b>x</b> &lt; 2 ');
+    });
+
+    it('should keep JSON-LD scripts and templates with preserveRawContent', () => {
+        const html = '<script type="application/ld+json">{"@type": "Article"}</script>' +
+            '<script>alert(1)</script><template><p>Row</p></template>';
+
+        expect(parseHtml(html).nodes).toEqual([]);
+
+        const [jsonLd, template] = parseHtml(html, { preserveRawContent: true }).nodes as any[];
+        expect(JSON.parse(jsonLd.children[0].content)).toEqual({ '@type': 'Article' });
+        expect(template).toMatchObject({ tagName: 'template', children: [{ content: '<p>Row</p>' }] });
+    });
+
+    it('should expose the doctype', () => {
+        expect(parseHtml('<!DOCTYPE html><p>x</p>').doctype).toBe('html');
+        expect(parseHtml('<p>x</p>').doctype).toBeUndefined();
+    });
+});
+
+describe('document metadata', () => {
+    const page = `<!DOCTYPE html>
+<html lang="en" dir="ltr">
+<head>
+  <meta charset="utf-8">
+  <title>  My   Post </title>
+  <meta name="description" content="A post">
+  <meta name="author" content="Ada">
+  <meta property="og:title" content="OG Post">
+  <meta property="og:image" content="https://x.test/a.png">
+  <meta name="twitter:card" content="summary">
+  <link rel="canonical" href="https://x.test/post">
+  <base href="https://x.test/">
+  <style>p { color: red }</style>
+</head>
+<body><h1>Post</h1><p>Body</p></body>
+</html>`;
+
+    it('should separate head metadata from body content', () => {
+        const { nodes, metadata, stylesheets, doctype } = parseHtml(page);
+
+        expect(nodes.map(node => (node as any).tagName)).toEqual(['h1', 'p']);
+        expect(nodes[0].parent).toBeUndefined();
+        expect(stylesheets).toEqual(['p { color: red }']);
+        expect(doctype).toBe('html');
+        expect(metadata).toEqual({
+            title: 'My Post',
+            description: 'A post',
+            lang: 'en',
+            dir: 'ltr',
+            charset: 'utf-8',
+            baseHref: 'https://x.test/',
+            canonical: 'https://x.test/post',
+            openGraph: { title: 'OG Post', image: 'https://x.test/a.png' },
+            twitter: { card: 'summary' },
+            meta: { description: 'A post', author: 'Ada' },
+        });
+    });
+
+    it('should return empty metadata for fragments', () => {
+        const { nodes, metadata } = parseHtml('<p>Fragment</p>');
+
+        expect(nodes).toHaveLength(1);
+        expect(metadata).toEqual({ openGraph: {}, twitter: {}, meta: {} });
+    });
+});
+
+describe('createStreamingParser', () => {
+    it('should mark the trailing open element chain and text', () => {
+        const stream = createStreamingParser();
+        stream.write('<p>Done</p><p>Hello ');
+        const { nodes } = stream.write('<strong>wor');
+        const p = nodes[1] as any;
+
+        expect(nodes[0].open).toBeUndefined();
+        expect(p.open).toBe(true);
+        expect(p.children[0].open).toBeUndefined();
+        expect(p.children[1].open).toBe(true);
+        expect(p.children[1].children[0]).toMatchObject({ content: 'wor', open: true });
+    });
+
+    it('should keep keys of completed and open nodes and match parseHtml when ended', () => {
+        const stream = createStreamingParser();
+        const first = stream.write('<h1>Title</h1><p>Par');
+        const second = stream.write('agraph <em>one');
+        const final = stream.end('</em></p>');
+
+        expect(second.nodes[0].key).toBe(first.nodes[0].key);
+        expect(second.nodes[1].key).toBe(first.nodes[1].key);
+        expect(second.nodes[1].hash).not.toBe(first.nodes[1].hash);
+        expect(final.nodes[1].key).toBe(second.nodes[1].key);
+        expect(final.complete).toBe(true);
+        expect(final.nodes).toEqual(parseHtml('<h1>Title</h1><p>Paragraph <em>one</em></p>').nodes);
+        expect(() => stream.write('more')).toThrow();
+    });
+
+    it('should not report unclosed tags before the stream ends', () => {
+        const stream = createStreamingParser();
+
+        expect(stream.write('<div><span>Text').errors).toEqual([]);
+        expect(stream.end().errors.map(e => e.code)).toEqual(['unclosed-tag', 'unclosed-tag']);
+    });
+});
+
+describe('source positions', () => {
+    it('should record offsets, lines and columns for every node', () => {
+        const { nodes } = parseHtml('<div>\n  <p>Hi <b>there</b></p>\n</div>');
+        const div = nodes[0] as any;
+        const p = div.children[0];
+
+        expect(div.position.start).toEqual({ offset: 0, line: 1, column: 1 });
+        expect(div.position.end).toEqual({ offset: 37, line: 3, column: 7 });
+        expect(p.position.start).toEqual({ offset: 8, line: 2, column: 3 });
+        expect(p.children[0].position.start.column).toBe(6);
+        expect(p.children[1].position).toEqual({
+            start: { offset: 14, line: 2, column: 9 },
+            end: { offset: 26, line: 2, column: 21 },
+        });
+    });
+});
+
+describe('parse diagnostics', () => {
+    const diagnose = (html: string) =>
+        parseHtml(html).errors.map(e => [e.code, e.tagName, e.location?.start.line, e.location?.start.column]);
+
+    it('should report unclosed and stray tags as warnings', () => {
+        const { errors } = parseHtml('<div><p>Text</span>');
+
+        expect(errors.map(e => [e.code, e.severity, e.position])).toEqual([
+            ['unclosed-tag', 'warning', 0],
+            ['stray-end-tag', 'warning', 12],
+        ]);
+        expect(hasFatalParseError(errors)).toBe(false);
+    });
+
+    it('should report misnested formatting elements', () => {
+        expect(diagnose('<b><i>x</b>y</i>')).toEqual([
+            ['misnested-tag', 'i', 1, 4],
+            ['stray-end-tag', 'i', 1, 13],
+        ]);
+    });
+
+    it('should not report optional end tags and void elements', () => {
+        expect(diagnose('<ul><li>a<li>b</ul><p>One<p>Two<img src="x.png"><br>')).toEqual([]);
+    });
+
+    it('should report unknown entities and unsupported tags with positions', () => {
+        expect(diagnose('<p>&amp; &bogus;\n<marquee>x</marquee></p>')).toEqual([
+            ['unknown-entity', undefined, 1, 10],
+            ['unsupported-tag', 'marquee', 2, 1],
+        ]);
+        expect(diagnose('<style>a { content: "&foo;" }</style>')).toEqual([]);
+    });
+
+    it('should keep parseHtmlStrict working with warnings', () => {
+        expect(parseHtmlStrict('<div><p>Unclosed')).toHaveLength(1);
+    });
+});
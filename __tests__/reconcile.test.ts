@@ -0,0 +1,63 @@
+/**
+ * Reconciliation Unit Tests
+ * Tests for incremental re-parsing and AST diffing
+ */
+
+import { parseHtml, type ElementNode } from '../src/parser';
+import { reconcileNodes, diffNodes } from '../src/performance';
+
+describe('reconcileNodes', () => {
+    it('should return the previous nodes when nothing changed', () => {
+        const previous = parseHtml('<p>One</p><p>Two</p>').nodes;
+        const next = parseHtml('<p>One</p><p>Two</p>').nodes;
+
+        expect(reconcileNodes(previous, next)).toBe(previous);
+    });
+
+    it('should reuse unchanged subtrees while content is appended', () => {
+        const previous = parseHtml('<p>Done</p><p><b>Bold</b> partial').nodes;
+        const nodes = reconcileNodes(previous, parseHtml('<p>Done</p><p><b>Bold</b> partial text</p>').nodes);
+        const last = nodes[1] as ElementNode;
+
+        expect(nodes[0]).toBe(previous[0]);
+        expect(last).not.toBe(previous[1]);
+        expect(last.children[0]).toBe((previous[1] as ElementNode).children[0]);
+        expect(last.children[0].parent).toBe(last);
+    });
+
+    it('should not reuse children whose ancestors changed', () => {
+        const previous = parseHtml('<div style="color: red"><p>Text</p></div>').nodes;
+        const nodes = reconcileNodes(previous, parseHtml('<div style="color: blue"><p>Text</p></div>').nodes);
+
+        expect((nodes[0] as ElementNode).children[0]).not.toBe((previous[0] as ElementNode).children[0]);
+    });
+
+    it('should update positions of reused nodes', () => {
+        const previous = parseHtml('<p>A</p><p>Same</p>').nodes;
+        reconcileNodes(previous, parseHtml('<p>Longer</p><p>Same</p>').nodes);
+
+        expect(previous[1].position?.start.offset).toBe(13);
+    });
+});
+
+describe('diffNodes', () => {
+    it('should report changes at the deepest level', () => {
+        const changes = diffNodes(
+            parseHtml('<p>a</p><ul><li>1</li></ul><hr>').nodes,
+            parseHtml('<p>b</p><ul><li>1</li><li>2</li></ul>').nodes
+        );
+
+        expect(changes.map(change => [change.type, change.path])).toEqual([
+            ['updated', [0, 0]],
+            ['added', [1, 1]],
+            ['removed', [2]],
+        ]);
+    });
+
+    it('should report attribute changes on the element', () => {
+        const changes = diffNodes(parseHtml('<a href="/a">x</a>').nodes, parseHtml('<a href="/b">x</a>').nodes);
+
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({ type: 'updated', path: [0] });
+    });
+});
@@ -4,8 +4,12 @@
  */
 
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { FlatList, StyleSheet, Text } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
 import { HTMLRenderer } from '../src/renderer/HTMLRenderer';
+import { darkTheme, lightTheme, createTheme } from '../src/styles/theme';
+import { NodeType, mapAst } from '../src/parser';
+import type { HtmlPlugin } from '../src/plugins';
 
 describe('HTMLRenderer', () => {
   it('should render simple HTML', () => {
@@ -269,4 +273,600 @@ describe('HTMLRenderer configuration', () => {
     
     expect(toJSON()).toBeTruthy();
   });
+
+  it('should render only the body of full documents', () => {
+    const { queryByText, getByText } = render(
+      <HTMLRenderer html="<html><head><title>Page title</title></head><body><p>Body text</p></body></html>" />
+    );
+    
+    expect(getByText('Body text')).toBeTruthy();
+    expect(queryByText(/Page title|\[/)).toBeNull();
+  });
+
+  it('should not render kept raw content unless a renderer handles it', () => {
+    const html = '<script type="application/ld+json">{"name": "Post"}</script><template><p>Row</p></template><p>Body</p>';
+    const { queryByText, rerender, getByText } = render(
+      <HTMLRenderer html={html} parserOptions={{ preserveRawContent: true }} />
+    );
+    
+    expect(queryByText(/Post|Row|\[/)).toBeNull();
+    
+    rerender(
+      <HTMLRenderer
+        html={html}
+        parserOptions={{ preserveRawContent: true }}
+        renderers={{
+          script: ({ node }) => <Text>{JSON.parse((node.children[0] as any).content).name}</Text>,
+        }}
+      />
+    );
+    expect(getByText('Post')).toBeTruthy();
+  });
+
+  it('should render Markdown with the same styles and renderers', () => {
+    const { getByText } = render(
+      <HTMLRenderer
+        markdown={'# Notes\n\nSome **bold** and <span class="tag">inline HTML</span>'}
+        tagsStyles={{ strong: { color: 'red' } }}
+        classesStyles={{ tag: { color: 'blue' } }}
+        renderers={{ h1: ({ node }) => <Text>Heading: {(node.children[0] as any).content}</Text> }}
+      />
+    );
+    
+    expect(getByText('Heading: Notes')).toBeTruthy();
+    expect(StyleSheet.flatten(getByText('bold').props.style).color).toBe('red');
+    expect(StyleSheet.flatten(getByText('inline HTML').props.style).color).toBe('blue');
+  });
+});
+
+describe('HTMLRenderer virtualization', () => {
+  const manyParagraphs = Array.from({ length: 30 }, (_, i) => `<p>Paragraph ${i}</p>`).join('');
+
+  it('should switch to a FlatList when the node count exceeds the threshold', () => {
+    const { UNSAFE_queryByType } = render(
+      <HTMLRenderer
+        html={manyParagraphs}
+        enableVirtualization
+        virtualizationThreshold={10}
+      />
+    );
+    
+    expect(UNSAFE_queryByType(FlatList)).toBeTruthy();
+  });
+
+  it('should not virtualize below the threshold', () => {
+    const { UNSAFE_queryByType } = render(
+      <HTMLRenderer
+        html={manyParagraphs}
+        enableVirtualization
+        virtualizationThreshold={1000}
+      />
+    );
+    
+    expect(UNSAFE_queryByType(FlatList)).toBeNull();
+  });
+
+  it('should keep render context inside virtualized chunks', () => {
+    const customRenderer = jest.fn(() => null);
+    
+    render(
+      <HTMLRenderer
+        html={`${manyParagraphs}<custom>Content</custom>`}
+        renderers={{ custom: customRenderer }}
+        enableVirtualization
+        virtualizationThreshold={10}
+      />
+    );
+    
+    expect(customRenderer).toHaveBeenCalled();
+  });
+
+  it('should match selectors against all top-level nodes inside virtualized chunks', () => {
+    const { getByText } = render(
+      <HTMLRenderer
+        html={`<h1>Title</h1>${manyParagraphs}`}
+        stylesheet="h1 ~ p:nth-child(20) { color: red }"
+        enableVirtualization
+        virtualizationThreshold={10}
+      />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Paragraph 18').props.style).color).toBe('red');
+    expect(StyleSheet.flatten(getByText('Paragraph 17').props.style).color).not.toBe('red');
+  });
+});
+
+describe('HTMLRenderer stylesheets', () => {
+  it('should apply the stylesheet prop and embedded <style> blocks', () => {
+    const { UNSAFE_getAllByType } = render(
+      <HTMLRenderer
+        html='<style>#intro { font-size: 20px; }</style><p id="intro" class="lead">Styled</p>'
+        stylesheet="p.lead { color: teal; }"
+      />
+    );
+    
+    const styles = UNSAFE_getAllByType(Text).map((text) => StyleSheet.flatten(text.props.style));
+    expect(styles).toContainEqual(expect.objectContaining({ color: 'teal', fontSize: 20 }));
+  });
+
+  it('should match sibling selectors and structural pseudo-classes on top-level elements', () => {
+    const { getByText } = render(
+      <HTMLRenderer html="<h1>T</h1><p>a</p><p>b</p>" stylesheet="h1 + p { color: red } p:first-child { color: blue }" />
+    );
+    
+    expect(StyleSheet.flatten(getByText('a').props.style).color).toBe('red');
+    expect(StyleSheet.flatten(getByText('b').props.style).color).not.toBe('blue');
+  });
+
+  it('should drop rules with an nth-child selector missing its argument', () => {
+    const { getByText } = render(
+      <HTMLRenderer html="<ul><li>Item</li></ul>" stylesheet="li:nth-child { color: red } li { color: blue }" />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Item').props.style).color).toBe('blue');
+  });
+
+  it('should resolve var() against cssVariables', () => {
+    const { getByText } = render(
+      <HTMLRenderer
+        html='<div style="color: var(--brand-primary)">Themed</div>'
+        cssVariables={{ 'brand-primary': '#6200ee' }}
+      />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Themed').props.style).color).toBe('#6200ee');
+  });
+});
+
+describe('HTMLRenderer style inheritance', () => {
+  it('should carry text color through View-based containers', () => {
+    const { getByText } = render(
+      <HTMLRenderer html='<div style="color: red"><div>Inherited</div></div>' />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Inherited').props.style).color).toBe('red');
+  });
+});
+
+describe('HTMLRenderer incremental updates', () => {
+  it('should only re-render changed nodes when html grows', () => {
+    const rendered: string[] = [];
+    const renderers = {
+      h2: ({ node, renderChildren }: any) => {
+        rendered.push(node.key);
+        return <Text>{renderChildren()}</Text>;
+      },
+    };
+    
+    const { rerender, getByText } = render(
+      <HTMLRenderer html="<h2>First</h2><p>Stream" renderers={renderers} />
+    );
+    rerender(<HTMLRenderer html="<h2>First</h2><p>Streaming</p><h2>Second</h2>" renderers={renderers} />);
+    
+    expect(getByText('Streaming')).toBeTruthy();
+    expect(rendered).toHaveLength(2);
+    expect(rendered[1]).toMatch(/^2-/);
+  });
+
+  it('should only re-render changed nodes inside a wrapping container', () => {
+    const rendered: string[] = [];
+    const renderers = {
+      h2: ({ node, renderChildren }: any) => {
+        rendered.push(node.key);
+        return <Text>{renderChildren()}</Text>;
+      },
+    };
+    
+    const { rerender, getByText } = render(
+      <HTMLRenderer html="<div><h2>First</h2><p>Stream</p></div>" renderers={renderers} />
+    );
+    rerender(<HTMLRenderer html="<div><h2>First</h2><p>Streaming</p></div>" renderers={renderers} />);
+    
+    expect(getByText('Streaming')).toBeTruthy();
+    expect(rendered).toEqual(['0.0-h2']);
+  });
+
+  it('should not remount unchanged nodes when nested content changes', () => {
+    const mounts: string[] = [];
+    function Title({ children }: { children: React.ReactNode }) {
+      React.useEffect(() => {
+        mounts.push('h2');
+      }, []);
+      return <Text>{children}</Text>;
+    }
+    const renderers = {
+      h2: ({ renderChildren }: any) => <Title>{renderChildren()}</Title>,
+    };
+    
+    const { rerender, getByText } = render(
+      <HTMLRenderer html="<div><h2>First</h2><p>One</p></div>" renderers={renderers} />
+    );
+    rerender(<HTMLRenderer html="<div><h2>First</h2><p>Two</p></div>" renderers={renderers} />);
+    rerender(<HTMLRenderer html="<div><h2>First</h2><p>Three</p></div>" renderers={renderers} />);
+    
+    expect(getByText('Three')).toBeTruthy();
+    expect(mounts).toEqual(['h2']);
+  });
+
+  it('should re-render descendants when inherited styles change', () => {
+    const { rerender, getByText } = render(
+      <HTMLRenderer html='<div style="color: red"><div>Inherited</div></div>' />
+    );
+    rerender(<HTMLRenderer html='<div style="color: blue"><div>Inherited</div></div>' />);
+    
+    expect(StyleSheet.flatten(getByText('Inherited').props.style).color).toBe('blue');
+  });
+
+  it('should re-render reused nodes when their siblings change structural selector matches', () => {
+    const stylesheet = 'li:last-child, p:last-child { color: red }';
+    const { rerender, getByText } = render(
+      <HTMLRenderer html="<ul><li>a</li></ul><p>c</p>" stylesheet={stylesheet} />
+    );
+    rerender(<HTMLRenderer html="<ul><li>a</li><li>b</li></ul><p>c</p><p>d</p>" stylesheet={stylesheet} />);
+    
+    expect(StyleSheet.flatten(getByText('a').props.style).color).not.toBe('red');
+    expect(StyleSheet.flatten(getByText('b').props.style).color).toBe('red');
+    expect(StyleSheet.flatten(getByText('c').props.style).color).not.toBe('red');
+    expect(StyleSheet.flatten(getByText('d').props.style).color).toBe('red');
+  });
+});
+
+describe('HTMLRenderer streaming', () => {
+  const cursor = <Text testID="cursor">|</Text>;
+  
+  it('should show the cursor inside the deepest open element', () => {
+    const { UNSAFE_getAllByType } = render(
+      <HTMLRenderer html="<p>Hello <strong>wor" streaming streamingCursor={cursor} />
+    );
+    
+    const strong = UNSAFE_getAllByType(Text).find(
+      (text) => StyleSheet.flatten(text.props.style)?.fontWeight === 'bold'
+    );
+    expect(strong?.findByProps({ testID: 'cursor' })).toBeTruthy();
+  });
+
+  it('should keep completed nodes and remove the cursor when the stream ends', () => {
+    const rendered: string[] = [];
+    const renderers = {
+      h2: ({ node, renderChildren }: any) => {
+        rendered.push(node.key);
+        return <Text>{renderChildren()}</Text>;
+      },
+    };
+    
+    const { rerender, queryByTestId, getByText } = render(
+      <HTMLRenderer html="<h2>Title</h2><p>Stre" streaming streamingCursor={cursor} renderers={renderers} />
+    );
+    rerender(<HTMLRenderer html="<h2>Title</h2><p>Streamed" streaming streamingCursor={cursor} renderers={renderers} />);
+    expect(queryByTestId('cursor')).toBeTruthy();
+    
+    rerender(<HTMLRenderer html="<h2>Title</h2><p>Streamed</p>" streamingCursor={cursor} renderers={renderers} />);
+    expect(getByText('Streamed')).toBeTruthy();
+    expect(queryByTestId('cursor')).toBeNull();
+    expect(rendered).toHaveLength(1);
+  });
+
+  it('should not remount open elements as they grow', () => {
+    const mounts: string[] = [];
+    function Media({ src }: { src?: string }) {
+      React.useEffect(() => {
+        mounts.push(src ?? '');
+      }, []);
+      return <Text>{src}</Text>;
+    }
+    const renderers = {
+      img: ({ node }: any) => <Media src={node.attributes.src} />,
+    };
+    
+    const { rerender, getByText } = render(
+      <HTMLRenderer html='<p>See <img src="a.png"> and' streaming renderers={renderers} />
+    );
+    rerender(<HTMLRenderer html='<p>See <img src="a.png"> and more' streaming renderers={renderers} />);
+    rerender(<HTMLRenderer html='<p>See <img src="a.png"> and more text' streaming renderers={renderers} />);
+    
+    expect(getByText('and more text')).toBeTruthy();
+    expect(mounts).toEqual(['a.png']);
+  });
+
+  it('should show the cursor after the content when virtualized', () => {
+    const paragraphs = Array.from({ length: 30 }, (_, i) => `<p>Paragraph ${i}</p>`).join('');
+    const { UNSAFE_queryByType, queryByTestId } = render(
+      <HTMLRenderer
+        html={paragraphs}
+        streaming
+        streamingCursor={cursor}
+        enableVirtualization
+        virtualizationThreshold={10}
+      />
+    );
+    
+    expect(UNSAFE_queryByType(FlatList)).toBeTruthy();
+    expect(queryByTestId('cursor')).toBeTruthy();
+  });
+
+  it('should not switch to virtualization while streaming', () => {
+    const mounts: string[] = [];
+    function Heading({ children }: { children: React.ReactNode }) {
+      React.useEffect(() => {
+        mounts.push('h2');
+      }, []);
+      return <Text>{children}</Text>;
+    }
+    const renderers = {
+      h2: ({ renderChildren }: any) => <Heading>{renderChildren()}</Heading>,
+    };
+    const paragraphs = Array.from({ length: 30 }, (_, i) => `<p>Paragraph ${i}</p>`).join('');
+    const props = { streamingCursor: cursor, renderers, enableVirtualization: true, virtualizationThreshold: 10 };
+    
+    const { rerender, UNSAFE_queryByType, queryByTestId } = render(
+      <HTMLRenderer html="<h2>Title</h2><p>Stre" streaming {...props} />
+    );
+    rerender(<HTMLRenderer html={`<h2>Title</h2>${paragraphs}`} streaming {...props} />);
+    
+    expect(UNSAFE_queryByType(FlatList)).toBeNull();
+    expect(queryByTestId('cursor')).toBeTruthy();
+    expect(mounts).toEqual(['h2']);
+    
+    rerender(<HTMLRenderer html={`<h2>Title</h2>${paragraphs}`} {...props} />);
+    expect(UNSAFE_queryByType(FlatList)).toBeTruthy();
+  });
+});
+
+describe('HTMLRenderer themes', () => {
+  it('should use the light theme by default', () => {
+    const { getByText } = render(
+      <HTMLRenderer html='<p>Plain <a href="https://example.com">link</a></p>' />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Plain').props.style).color).toBe(lightTheme.colors.text);
+    expect(StyleSheet.flatten(getByText('link').props.style).color).toBe(lightTheme.colors.link);
+  });
+
+  it('should render text and built-in components with the dark theme', () => {
+    const { getByText } = render(
+      <HTMLRenderer
+        html="<ul><li>Item</li></ul><table><tr><td>Cell</td></tr></table>"
+        theme="dark"
+      />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Item').props.style).color).toBe(darkTheme.colors.text);
+    expect(StyleSheet.flatten(getByText('•').props.style).color).toBe(darkTheme.colors.textSecondary);
+    expect(StyleSheet.flatten(getByText('Cell').props.style).color).toBe(darkTheme.colors.text);
+  });
+
+  it('should give top-level text the theme text color', () => {
+    const { getByText } = render(
+      <HTMLRenderer html="Bare text<p>Paragraph</p>" theme="dark" />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Bare text').props.style).color).toBe(darkTheme.colors.text);
+  });
+
+  it('should accept a custom theme', () => {
+    const theme = createTheme({ link: '#6200ee' }, darkTheme);
+    const { getByText } = render(
+      <HTMLRenderer html='<a href="https://example.com">Brand</a>' theme={theme} />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Brand').props.style).color).toBe('#6200ee');
+  });
+});
+
+describe('HTMLRenderer plugins', () => {
+  it('should prefer the most specific selector renderer over a tag renderer', () => {
+    const plugin: HtmlPlugin = {
+      name: 'callouts',
+      tagRenderers: {
+        div: () => <Text>Any div</Text>,
+      },
+      selectorRenderers: {
+        'div.callout': () => <Text>Callout</Text>,
+        'div.callout.warning': () => <Text>Warning</Text>,
+      },
+    };
+    const { getByText, queryByText } = render(
+      <HTMLRenderer
+        html='<div class="callout warning">A</div>, <div class="callout">B</div>'
+        plugins={[plugin]}
+      />
+    );
+    
+    expect(getByText('Warning')).toBeTruthy();
+    expect(getByText('Callout')).toBeTruthy();
+    expect(queryByText('Any div')).toBeNull();
+  });
+
+  it('should match sibling selectors on top-level elements', () => {
+    const error = jest.spyOn(console, 'error');
+    const plugin: HtmlPlugin = {
+      name: 'lede',
+      selectorRenderers: {
+        'h1 + p': () => <Text>Lede</Text>,
+      },
+      selectorTransforms: {
+        'p:last-child': (node) => ({ ...node, children: [{ type: NodeType.Text, content: 'Last' }] }),
+      },
+    };
+    const { getByText, queryByText } = render(
+      <HTMLRenderer html="<h1>Title</h1><p>a</p><p>b</p><p>c</p>" plugins={[plugin]} />
+    );
+    
+    expect(getByText('Lede')).toBeTruthy();
+    expect(getByText('b')).toBeTruthy();
+    expect(getByText('Last')).toBeTruthy();
+    expect(queryByText('c')).toBeNull();
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should key and link nodes created by transforms', () => {
+    const error = jest.spyOn(console, 'error');
+    const plugin: HtmlPlugin = {
+      name: 'split',
+      selectorTransforms: {
+        'p.split': (node) => ({
+          ...node,
+          children: [
+            { type: NodeType.Element, tagName: 'b', attributes: {}, children: [{ type: NodeType.Text, content: 'One' }] },
+            { type: NodeType.Text, content: ' and ' },
+            { type: NodeType.Element, tagName: 'i', attributes: {}, children: [{ type: NodeType.Text, content: 'two' }] },
+          ],
+        }),
+      },
+    };
+    const keys: string[] = [];
+    const customRenderers = {
+      b: ({ node, renderChildren }: any) => {
+        keys.push(node.key, node.children[0].key);
+        expect(node.parent.tagName).toBe('p');
+        return <Text>{renderChildren()}</Text>;
+      },
+    };
+    const { getByText } = render(
+      <HTMLRenderer html='<div><p class="split">x</p></div>' plugins={[plugin]} renderers={customRenderers} />
+    );
+
+    expect(getByText('One')).toBeTruthy();
+    expect(getByText('two')).toBeTruthy();
+    expect(keys).toEqual(['0.0.0-b', '0.0.0.0-text']);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should scope transforms to matching elements', () => {
+    const plugin: HtmlPlugin = {
+      name: 'mailto',
+      selectorTransforms: {
+        'a[href^="mailto:"]': (node) => ({ ...node, children: [{ type: NodeType.Text, content: 'Email us' }] }),
+      },
+    };
+    const { getByText } = render(
+      <HTMLRenderer
+        html='<p><a href="mailto:hi@example.com">hi</a> or <a href="https://example.com">site</a></p>'
+        plugins={[plugin]}
+      />
+    );
+    
+    expect(getByText('Email us')).toBeTruthy();
+    expect(getByText('site')).toBeTruthy();
+  });
+
+  it('should apply tag and selector style modifiers from least to most specific', () => {
+    const plugin: HtmlPlugin = {
+      name: 'notes',
+      styleModifiers: {
+        p: (style) => ({ ...style, color: 'red', fontSize: 20 }),
+      },
+      selectorStyleModifiers: {
+        'p.note': (style) => ({ ...style, color: 'green' }),
+      },
+    };
+    const { UNSAFE_getAllByType } = render(
+      <HTMLRenderer html='<p class="note">Note</p><p>Plain</p>' plugins={[plugin]} />
+    );
+    
+    const styles = UNSAFE_getAllByType(Text).map((text) => StyleSheet.flatten(text.props.style));
+    expect(styles).toContainEqual(expect.objectContaining({ color: 'green', fontSize: 20 }));
+    expect(styles).toContainEqual(expect.objectContaining({ color: 'red', fontSize: 20 }));
+  });
+
+  it('should run document transforms once per parse with access to siblings', () => {
+    const transform = jest.fn((nodes) =>
+      mapAst(nodes, (node, _parent, siblings) => {
+        if (node.type !== NodeType.Element || node.tagName !== 'h2') return node;
+        const headings = siblings.filter((sibling) => sibling.type === NodeType.Element && sibling.tagName === 'h2');
+        const number = headings.findIndex((heading) => heading.key === node.key) + 1;
+        return [{ type: NodeType.Text, content: `Section ${number}`, key: '' }, node];
+      })
+    );
+    const plugin: HtmlPlugin = { name: 'sections', documentTransforms: [transform] };
+    const plugins = [plugin];
+    const { getByText, rerender } = render(
+      <HTMLRenderer html="<h2>Intro</h2><h2>Usage</h2>" plugins={plugins} />
+    );
+    
+    expect(getByText('Section 2')).toBeTruthy();
+    expect(getByText('Usage')).toBeTruthy();
+    
+    rerender(<HTMLRenderer html="<h2>Intro</h2><h2>Usage</h2>" plugins={plugins} textScale={1.2} />);
+    expect(transform).toHaveBeenCalledTimes(1);
+    expect(transform.mock.calls[0][1].metadata).toBeDefined();
+  });
+
+  it('should inherit styles through elements inserted by document transforms', () => {
+    const plugin: HtmlPlugin = {
+      name: 'highlight',
+      documentTransforms: [
+        (nodes) => mapAst(nodes, (node) =>
+          node.type === NodeType.Element && node.tagName === 'em'
+            ? { type: NodeType.Element, tagName: 'span', attributes: { style: 'color: green' }, children: [node], key: '' }
+            : node
+        ),
+      ],
+    };
+    const { getByText } = render(
+      <HTMLRenderer html="<p>Hi, <em>there</em></p>" plugins={[plugin]} />
+    );
+    
+    expect(StyleSheet.flatten(getByText('there').props.style).color).toBe('green');
+  });
+
+  it('should rewrite HTML before parsing and report the parsed document', () => {
+    const afterParse = jest.fn();
+    const onRenderComplete = jest.fn();
+    const plugin: HtmlPlugin = {
+      name: 'templates',
+      beforeParse: (html) => html.replace('{{name}}', 'Ada'),
+      afterParse,
+      onRenderComplete,
+    };
+    const { getByText } = render(
+      <HTMLRenderer html="<title>Greeting</title><p>Hello {{name}}</p>" plugins={[plugin]} />
+    );
+    
+    expect(getByText('Hello Ada')).toBeTruthy();
+    expect(afterParse).toHaveBeenCalledTimes(1);
+    expect(afterParse.mock.calls[0][1].title).toBe('Greeting');
+    expect(onRenderComplete).toHaveBeenCalledWith(1);
+  });
+
+  it('should resolve styles in the cascade, so children inherit them', () => {
+    const parentColors: unknown[] = [];
+    const plugin: HtmlPlugin = {
+      name: 'notes',
+      resolveStyle: (style, node, computedParent) => {
+        if (node.attributes.class !== 'note') return style;
+        parentColors.push(computedParent?.color);
+        return { ...style, color: 'green' };
+      },
+    };
+    const { getByText } = render(
+      <HTMLRenderer html='<div style="color: red"><p class="note"><em>Note</em></p></div>' plugins={[plugin]} />
+    );
+    
+    expect(StyleSheet.flatten(getByText('Note').props.style).color).toBe('green');
+    expect(parentColors).toContain('red');
+  });
+
+  it('should let plugins consume link presses', () => {
+    const onLinkPress = jest.fn();
+    const plugin: HtmlPlugin = {
+      name: 'mail',
+      onLinkPress: (url, _node, context) => url.startsWith('mailto:') && context.theme !== undefined,
+    };
+    const { getByText } = render(
+      <HTMLRenderer
+        html='<p><a href="mailto:hi@example.com">Mail</a>, <a href="https://example.com">Site</a></p>'
+        plugins={[plugin]}
+        onLinkPress={onLinkPress}
+      />
+    );
+    
+    fireEvent.press(getByText('Mail'));
+    expect(onLinkPress).not.toHaveBeenCalled();
+    
+    fireEvent.press(getByText('Site'));
+    expect(onLinkPress).toHaveBeenCalledWith('https://example.com', expect.objectContaining({ tagName: 'a' }));
+  });
 });
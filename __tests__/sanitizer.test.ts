@@ -0,0 +1,129 @@
+/**
+ * Sanitizer Unit Tests
+ * Tests for allowlist policies, presets and the sanitize report
+ */
+
+import {
+    parseHtml,
+    sanitizeNodes,
+    isAllowedUrl,
+    isDangerousUrl,
+    getTextContent,
+    findByTag,
+    type ElementNode,
+    type SanitizePolicy,
+} from '../src/parser';
+
+describe('URL checks', () => {
+    it('should detect script URLs despite obfuscation', () => {
+        expect(isDangerousUrl('javascript:alert(1)')).toBe(true);
+        expect(isDangerousUrl(' JaVa\tScRiPt:alert(1)')).toBe(true);
+        expect(isDangerousUrl('vbscript:msgbox')).toBe(true);
+        expect(isDangerousUrl('https://example.com/javascript:')).toBe(false);
+    });
+
+    it('should check schemes and relative URLs', () => {
+        expect(isAllowedUrl('https://example.com', ['https'])).toBe(true);
+        expect(isAllowedUrl('ftp://example.com', ['https'])).toBe(false);
+        expect(isAllowedUrl('/path#top', ['https'])).toBe(true);
+        expect(isAllowedUrl('/path', ['https'], false)).toBe(false);
+        expect(isAllowedUrl('javascript:void(0)', ['javascript'])).toBe(false);
+    });
+});
+
+describe('sanitize option', () => {
+    it('should not sanitize or report without the option', () => {
+        const result = parseHtml('<a href="javascript:alert(1)" onclick="x()">Link</a>');
+
+        expect(result.sanitizeReport).toBeUndefined();
+        expect((result.nodes[0] as ElementNode).attributes.onclick).toBe('x()');
+    });
+
+    it('should unwrap disallowed tags and keep their text', () => {
+        const { nodes, sanitizeReport } = parseHtml(
+            '<p>Hello <span class="x">big</span> <iframe src="https://evil.test">frame</iframe> world</p>',
+            { sanitize: 'strict' }
+        );
+        const p = nodes[0] as ElementNode;
+
+        expect(p.children).toHaveLength(1);
+        expect(getTextContent(p)).toBe('Hello big world');
+        expect(sanitizeReport?.stripped).toEqual([
+            { kind: 'element', tagName: 'span', action: 'unwrapped' },
+            { kind: 'element', tagName: 'iframe', action: 'removed' },
+        ]);
+    });
+
+    it('should strip javascript: hrefs and event handlers with basic-formatting', () => {
+        const { nodes, sanitizeReport } = parseHtml(
+            '<a href="javascript:alert(1)" onclick="steal()" title="t">Click</a> <a href="https://ok.test">Ok</a>',
+            { sanitize: 'basic-formatting' }
+        );
+        const [bad, good] = findByTag(nodes, 'a');
+
+        expect(bad.attributes).toEqual({ title: 't' });
+        expect(good.attributes.href).toBe('https://ok.test');
+        expect(sanitizeReport?.stripped).toEqual(
+            expect.arrayContaining([
+                { kind: 'url', tagName: 'a', attribute: 'href', value: 'javascript:alert(1)' },
+                { kind: 'attribute', tagName: 'a', name: 'onclick', value: 'steal()' },
+            ])
+        );
+    });
+
+    it('should filter style declarations and stylesheets with the email preset', () => {
+        const { nodes, stylesheets, sanitizeReport } = parseHtml(
+            '<style>p { color: red }</style>' +
+            '<td style="color: red; position: absolute; background: url(https://t.test/p.gif); font-size: 12px">Cell</td>',
+            { sanitize: 'email' }
+        );
+        const td = findByTag(nodes, 'td')[0];
+
+        expect(td.attributes.style).toBe('color: red; font-size: 12px');
+        expect(stylesheets).toEqual(['p { color: red }']);
+        expect(sanitizeReport?.stripped.map(item => item.kind)).toEqual(['style', 'style']);
+    });
+
+    it('should filter embedded stylesheet declarations with the email preset', () => {
+        const { stylesheets, sanitizeReport } = parseHtml(
+            '<style>@import url(https://t.test/a.css); p { color: red; position: fixed; background: url(https://t.test/p.gif) }' +
+            ' @media (max-width: 600px) { td { padding: 4px; display: none } } .x { position: absolute }' +
+            ' @font-face { font-family: Tracker; src: url(https://t.test/f.woff) }</style><p>Text</p>',
+            { sanitize: 'email' }
+        );
+
+        expect(stylesheets).toEqual(['p { color: red }\n@media (max-width: 600px) { td { padding: 4px } }']);
+        expect(sanitizeReport?.stripped).toEqual(expect.arrayContaining([
+            { kind: 'stylesheet', value: '@import url(https://t.test/a.css);' },
+            { kind: 'style', tagName: 'style', property: 'position', value: 'fixed' },
+            { kind: 'style', tagName: 'style', property: 'display', value: 'none' },
+            expect.objectContaining({ kind: 'stylesheet', value: expect.stringContaining('@font-face') }),
+        ]));
+    });
+
+    it('should apply custom policies', () => {
+        const policy: SanitizePolicy = {
+            allowedTags: ['p', 'img'],
+            allowedAttributes: { img: ['src', 'alt'] },
+            allowedSchemes: { src: ['https'] },
+        };
+        const { nodes, stylesheets, sanitizeReport } = parseHtml(
+            '<style>p { color: red }</style><p><img src="http://x.test/a.png" alt="a"><img src="https://x.test/b.png"></p>',
+            { sanitize: policy }
+        );
+        const [insecure, secure] = findByTag(nodes, 'img');
+
+        expect(insecure.attributes).toEqual({ alt: 'a' });
+        expect(secure.attributes.src).toBe('https://x.test/b.png');
+        expect(stylesheets).toEqual([]);
+        expect(sanitizeReport?.stripped).toContainEqual({ kind: 'stylesheet', value: 'p { color: red }' });
+    });
+
+    it('should keep parent references of unwrapped children', () => {
+        const { nodes } = sanitizeNodes(parseHtml('<div><p><em>Text</em></p></div>').nodes, 'strict');
+        const p = nodes[0] as ElementNode;
+
+        expect(p.parent).toBeUndefined();
+        expect((p.children[0] as ElementNode).parent).toBe(p);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Serializer Unit Tests
+ * Tests for HTML serialization and round-tripping through parseHtml
+ */
+
+import { parseHtml, serializeHtml, styleToCss, type HtmlNode } from '../src/parser';
+import { createStyleResolver } from '../src/styles';
+
+/** Node structure without keys, positions and parent references */
+function shape(nodes: HtmlNode[]): unknown[] {
+    return nodes.map(node =>
+        node.type === 'element'
+            ? { tagName: node.tagName, attributes: node.attributes, children: shape(node.children) }
+            : { type: node.type, content: node.content }
+    );
+}
+
+function expectRoundTrip(html: string, options: Parameters<typeof serializeHtml>[1] = {}): string {
+    const { nodes } = parseHtml(html, { preserveComments: true });
+    const serialized = serializeHtml(nodes, options);
+
+    expect(shape(parseHtml(serialized, { preserveComments: true }).nodes)).toEqual(shape(nodes));
+    return serialized;
+}
+
+describe('serializeHtml', () => {
+    it('should escape text and attribute values', () => {
+        const html = expectRoundTrip('<p title="Say &quot;hi&quot; &amp; bye">1 &lt; 2 &amp;&amp; 3 &gt; 2</p>');
+
+        expect(html).toBe('<p title="Say &quot;hi&quot; &amp; bye">1 &lt; 2 &amp;&amp; 3 &gt; 2</p>');
+    });
+
+    it('should write void elements, bare empty attributes and comments', () => {
+        const html = expectRoundTrip("<p>Line<br>two<!-- note --><input disabled value='x'></p><hr>");
+
+        expect(html).toBe('<p>Line<br>two<!-- note --><input disabled value="x"></p><hr>');
+    });
+
+    it('should not escape raw text content', () => {
+        const { nodes } = parseHtml('<script type="application/ld+json">{"a": "<b> & c"}</script>', {
+            preserveRawContent: true,
+        });
+
+        expect(serializeHtml(nodes)).toBe('<script type="application/ld+json">{"a": "<b> & c"}</script>');
+    });
+
+    it('should round-trip nested documents', () => {
+        expectRoundTrip(
+            '<div class="post"><h1 id="t">Title</h1><p>Text with <a href="/x?a=1&amp;b=2">link</a> and <em>emphasis</em>.</p>' +
+            '<ul><li>One</li><li>Two <strong>bold</strong></li></ul>' +
+            '<table><tr><th>H</th></tr><tr><td>C</td></tr></table><pre>  keep\n    spacing</pre></div>'
+        );
+    });
+
+    it('should pretty-print block elements and round-trip', () => {
+        const html = expectRoundTrip(
+            '<div><p>One <b>two</b></p><ul><li>Item</li><li>Mixed<p>block</p></li></ul></div><hr>',
+            { pretty: true }
+        );
+
+        expect(html).toBe([
+            '<div>',
+            '  <p>One <b>two</b></p>',
+            '  <ul>',
+            '    <li>Item</li>',
+            '    <li>Mixed<p>block</p></li>',
+            '  </ul>',
+            '</div>',
+            '<hr>',
+        ].join('\n'));
+    });
+
+    it('should inline resolved styles', () => {
+        const { nodes } = parseHtml('<p class="lead" style="margin: 0">Text</p>');
+        const resolveStyle = createStyleResolver({
+            useDefaultStyles: false,
+            classesStyles: { lead: { color: 'red', fontSize: 18 } },
+        });
+
+        expect(serializeHtml(nodes, { resolveStyle })).toBe(
+            '<p class="lead" style="color: red; font-size: 18px; margin: 0px">Text</p>'
+        );
+    });
+});
+
+describe('styleToCss', () => {
+    it('should convert React Native styles to CSS', () => {
+        expect(styleToCss({
+            paddingHorizontal: 4,
+            fontWeight: 'bold',
+            opacity: 0.5,
+            transform: [{ translateX: 10 }, { rotate: '45deg' }],
+            shadowOffset: { width: 1, height: 1 },
+        })).toBe('padding-left: 4px; padding-right: 4px; font-weight: bold; opacity: 0.5; transform: translateX(10px) rotate(45deg)');
+    });
+});
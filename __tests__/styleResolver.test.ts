@@ -14,6 +14,13 @@ import {
     extractClassNames,
     scaleTextStyles,
     getDefaultTagStyle,
+    getInheritableStyle,
+    resolveLength,
+    resolveStyleUnits,
+    createUnitContext,
+    substituteVariables,
+    darkTheme,
+    createTheme,
 } from '../src/styles';
 
 import { parseHtml } from '../src/parser';
@@ -70,6 +77,266 @@ describe('parseInlineStyle', () => {
     });
 });
 
+describe('shorthand expansion', () => {
+    it('should expand multi-value margin and padding per side', () => {
+        const style = parseInlineStyle('margin: 10px auto; padding: 1px 2px 3px') as any;
+
+        expect(style).toMatchObject({
+            marginTop: 10, marginRight: 'auto', marginBottom: 10, marginLeft: 'auto',
+            paddingTop: 1, paddingRight: 2, paddingBottom: 3, paddingLeft: 2,
+        });
+        expect(style.margin).toBeUndefined();
+    });
+
+    it('should expand border and border sides', () => {
+        expect(parseInlineStyle('border: 2px dashed rgb(0, 0, 0)')).toEqual({
+            borderWidth: 2,
+            borderStyle: 'dashed',
+            borderColor: 'rgb(0, 0, 0)',
+        });
+        expect(parseInlineStyle('border-left: thick solid #ccc')).toEqual({
+            borderLeftWidth: 5,
+            borderStyle: 'solid',
+            borderLeftColor: '#ccc',
+        });
+        expect((parseInlineStyle('border: none') as any).borderWidth).toBe(0);
+        expect(parseInlineStyle('border-color: red blue')).toMatchObject({
+            borderTopColor: 'red', borderRightColor: 'blue', borderBottomColor: 'red', borderLeftColor: 'blue',
+        });
+    });
+
+    it('should expand multi-value border-radius', () => {
+        expect(parseInlineStyle('border-radius: 4px 8px / 2px')).toEqual({
+            borderTopLeftRadius: 4,
+            borderTopRightRadius: 8,
+            borderBottomRightRadius: 4,
+            borderBottomLeftRadius: 8,
+        });
+        expect(parseInlineStyle('border-radius: 50%')).toEqual({ borderRadius: '50%' });
+    });
+
+    it('should expand the font shorthand', () => {
+        const style = parseInlineStyle('font: italic bold 12px/1.5 "Helvetica Neue", Arial, sans-serif');
+
+        expect(style).toEqual({
+            fontStyle: 'italic',
+            fontWeight: 'bold',
+            fontSize: 12,
+            lineHeight: 18,
+            fontFamily: 'Helvetica Neue',
+        });
+        expect(parseInlineStyle('font: bold Arial')).toEqual({});
+    });
+
+    it('should extract the color from background', () => {
+        expect(parseInlineStyle('background: url(bg.png) no-repeat center / cover #fafafa'))
+            .toEqual({ backgroundColor: '#fafafa' });
+        expect(parseInlineStyle('background: none')).toEqual({ backgroundColor: 'transparent' });
+    });
+
+    it('should expand flex, inset and gap', () => {
+        expect(parseInlineStyle('flex: 1')).toEqual({ flex: 1 });
+        expect(parseInlineStyle('flex: 2 0 100px')).toEqual({ flexGrow: 2, flexShrink: 0, flexBasis: 100 });
+        expect(parseInlineStyle('flex: none')).toEqual({ flexGrow: 0, flexShrink: 0, flexBasis: 'auto' });
+        expect(parseInlineStyle('inset: 0 10px')).toEqual({ top: 0, right: 10, bottom: 0, left: 10 });
+        expect(parseInlineStyle('gap: 4px 8px')).toEqual({ rowGap: 4, columnGap: 8 });
+    });
+
+    it('should expand text-decoration into line, style and color', () => {
+        expect(parseInlineStyle('text-decoration: underline dotted red')).toEqual({
+            textDecorationLine: 'underline',
+            textDecorationStyle: 'dotted',
+            textDecorationColor: 'red',
+        });
+    });
+});
+
+describe('shadows and transforms', () => {
+    it('should parse box-shadow into native shadow props', () => {
+        const style = parseInlineStyle('box-shadow: inset 0 0 2px red, 0 4px 8px 1px rgba(0, 0, 0, 0.2)') as any;
+
+        expect(style).toMatchObject({
+            shadowColor: 'rgba(0, 0, 0, 0.2)',
+            shadowOffset: { width: 0, height: 4 },
+            shadowOpacity: 1,
+            shadowRadius: 4,
+            elevation: 4,
+        });
+        if (style.boxShadow) {
+            expect(style.boxShadow).toHaveLength(2);
+            expect(style.boxShadow[0]).toMatchObject({ inset: true, blurRadius: 2, color: 'red' });
+            expect(style.boxShadow[1]).toMatchObject({ offsetY: 4, spreadDistance: 1 });
+        }
+    });
+
+    it('should ignore invalid shadows', () => {
+        expect(parseInlineStyle('box-shadow: 2px red blue')).toEqual({});
+        expect(parseInlineStyle('text-shadow: 1px 1px 1px 1px #000')).toEqual({});
+    });
+
+    it('should parse text-shadow', () => {
+        expect(parseInlineStyle('text-shadow: #333 1px 2px 3px')).toEqual({
+            textShadowOffset: { width: 1, height: 2 },
+            textShadowRadius: 3,
+            textShadowColor: '#333',
+        });
+    });
+
+    it('should parse transform functions into a transform array', () => {
+        expect(parseInlineStyle('transform: translate(10px, 50%) rotate(0.25turn) scale(1.5) skew(10deg)')).toEqual({
+            transform: [
+                { translateX: 10 },
+                { translateY: '50%' },
+                { rotate: '90deg' },
+                { scale: 1.5 },
+                { skewX: '10deg' },
+            ],
+        });
+        expect(parseInlineStyle('transform: matrix(1, 0, 0, 1, 5, 6)')).toEqual({
+            transform: [{ matrix: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 5, 6, 0, 1] }],
+        });
+        expect(parseInlineStyle('transform: rotate(10px)')).toEqual({});
+    });
+
+    it('should resolve relative lengths inside transforms', () => {
+        const style = parseInlineStyle('font-size: 10px; transform: translateY(-2em) scaleX(-1)', {
+            parentFontSize: 16,
+        });
+
+        expect(style.transform).toEqual([{ translateY: -20 }, { scaleX: -1 }]);
+    });
+});
+
+describe('CSS custom properties', () => {
+    it('should substitute var() references with fallbacks', () => {
+        const variables = { '--gap': '4px', '--alias': 'var(--gap)' };
+
+        expect(substituteVariables('var(--gap) var(--missing, 8px)', variables)).toBe('4px 8px');
+        expect(substituteVariables('var(--alias)', variables)).toBe('4px');
+        expect(substituteVariables('var(--missing)', variables)).toBeUndefined();
+        expect(substituteVariables('var(--a)', { '--a': 'var(--a)' })).toBeUndefined();
+    });
+
+    it('should treat values that expand past the length limit as invalid', () => {
+        const doubling = (levels: number) => {
+            const variables: Record<string, string> = { [`--v${levels}`]: 'x' };
+            for (let level = 0; level < levels; level++) {
+                variables[`--v${level}`] = `var(--v${level + 1}) var(--v${level + 1})`;
+            }
+            return variables;
+        };
+
+        expect(substituteVariables('var(--v0)', doubling(8))).toHaveLength(2 ** 9 - 1);
+        expect(substituteVariables('var(--v0)', doubling(30))).toBeUndefined();
+        const declarations = Object.entries(doubling(30)).map(([name, value]) => `${name}: ${value};`).join(' ');
+        const resolver = createStyleResolver({ stylesheets: [`p { ${declarations} color: var(--v0) }`] });
+        const { nodes } = parseHtml('<p>Text</p>');
+        expect((resolver(nodes[0] as any).style as any).color).toBeUndefined();
+    });
+
+    it('should resolve variables declared in the same inline style', () => {
+        const style = parseInlineStyle('--brand: #6200ee; color: var(--brand); margin: var(--m, 2px) 4px');
+
+        expect(style).toEqual({ color: '#6200ee', marginTop: 2, marginRight: 4, marginBottom: 2, marginLeft: 4 });
+    });
+
+    it('should inherit custom properties down the tree', () => {
+        const { nodes } = parseHtml(
+            '<div style="--accent: tomato"><section><p style="border-color: var(--accent)">Text</p></section></div>'
+        );
+        const p = (nodes[0] as any).children[0].children[0];
+
+        expect(createStyleResolver()(p).style.borderColor).toBe('tomato');
+    });
+
+    it('should seed root variables and let stylesheets override them', () => {
+        const { nodes } = parseHtml('<div class="card"><span>Text</span></div>');
+        const resolver = createStyleResolver({
+            variables: { brand: 'navy', 'space-md': 12 },
+            stylesheets: ['.card { --brand: teal; padding: var(--space-md); } span { color: var(--brand) }'],
+        });
+
+        expect((resolver(nodes[0] as any).style as any).padding).toBe(12);
+        expect(resolver((nodes[0] as any).children[0]).style.color).toBe('teal');
+    });
+
+    it('should resolve var() in JS tag styles', () => {
+        const { nodes } = parseHtml('<p>Text</p>');
+        const resolver = createStyleResolver({
+            variables: { '--text': '#222' },
+            tagsStyles: { p: { color: 'var(--text)' } },
+        });
+
+        expect(resolver(nodes[0] as any).style.color).toBe('#222');
+    });
+});
+
+describe('relative units', () => {
+    const context = createUnitContext({
+        parentFontSize: 20,
+        rootFontSize: 10,
+        viewportWidth: 400,
+        viewportHeight: 800,
+    });
+
+    it('should resolve font and viewport relative lengths', () => {
+        expect(resolveLength('2em', 20, context)).toBe(40);
+        expect(resolveLength('2rem', 20, context)).toBe(20);
+        expect(resolveLength('50vw', 20, context)).toBe(200);
+        expect(resolveLength('10vh', 20, context)).toBe(80);
+        expect(resolveLength('10vmin', 20, context)).toBe(40);
+        expect(resolveLength('10vmax', 20, context)).toBe(80);
+        expect(resolveLength('2ch', 20, context)).toBe(20);
+    });
+
+    it('should evaluate calc(), min(), max() and clamp()', () => {
+        expect(resolveLength('calc(50vw - 2rem)', 16, context)).toBe(180);
+        expect(resolveLength('calc((1em + 4px) * 2)', 16, context)).toBe(40);
+        expect(resolveLength('min(100px, 10vw)', 16, context)).toBe(40);
+        expect(resolveLength('clamp(12px, 5vw, 18px)', 16, context)).toBe(18);
+        expect(resolveLength('calc(100% - 10px)', 16, context)).toBeUndefined();
+    });
+
+    it('should resolve em in font-size against the parent font size', () => {
+        const style = resolveStyleUnits(
+            { fontSize: '1.5em', marginTop: '1em', lineHeight: '1.2em' } as any,
+            context
+        ) as any;
+
+        expect(style.fontSize).toBe(30);
+        expect(style.marginTop).toBe(30);
+        expect(style.lineHeight).toBe(36);
+    });
+
+    it('should keep relative lengths deferred until resolution', () => {
+        const style = parseInlineStyle('font-size: 2em; width: 50vw; line-height: 1.5', {
+            parentFontSize: 10,
+            viewportWidth: 300,
+        });
+
+        expect(style.fontSize).toBe(20);
+        expect(style.width).toBe(150);
+        expect(style.lineHeight).toBe(30);
+    });
+
+    it('should resolve em through the style resolver using the parent font size', () => {
+        const { nodes } = parseHtml('<h1><span style="font-size: 0.5em; padding: 1rem">Small</span></h1>');
+        const resolver = createStyleResolver({ baseTextStyle: { fontSize: 12 } });
+
+        const { style } = resolver((nodes[0] as any).children[0]);
+
+        expect(style.fontSize).toBe(16);
+        expect((style as any).padding).toBe(12);
+    });
+
+    it('should resolve viewport units against the configured viewport', () => {
+        const { nodes } = parseHtml('<div style="height: 25vh">Box</div>');
+        const resolver = createStyleResolver({ viewport: { width: 320, height: 640 } });
+
+        expect((resolver(nodes[0] as any).style as any).height).toBe(160);
+    });
+});
+
 describe('parseBoxShorthand', () => {
     it('should parse single value', () => {
         const result = parseBoxShorthand('10px', 'margin');
@@ -185,6 +452,77 @@ describe('createStyleResolver', () => {
     });
 });
 
+describe('top-level structural selectors', () => {
+    const stylesheets = ['h1 + p { color: red } p:first-child { color: blue } h1 ~ p:nth-child(3) { font-size: 20px }'];
+
+    it('should match sibling combinators and structural pseudo-classes against the roots', () => {
+        const { nodes } = parseHtml('<h1>T</h1><p>a</p><p>b</p>');
+        const resolver = createStyleResolver({ stylesheets, useDefaultStyles: false, roots: nodes });
+
+        const styles = nodes.map(node => resolver(node as any).style);
+
+        expect(styles[0].color).toBeUndefined();
+        expect(styles[1].color).toBe('red');
+        expect(styles[2].color).toBeUndefined();
+        expect((styles[2] as any).fontSize).toBe(20);
+    });
+
+    it('should match against the roots given per call', () => {
+        const resolver = createStyleResolver({ stylesheets, useDefaultStyles: false });
+        const { nodes } = parseHtml('<p>a</p>');
+        const [h1] = parseHtml('<h1>T</h1>').nodes;
+        const p = nodes[0] as any;
+
+        expect(resolver(p, nodes).style.color).toBe('blue');
+        expect(resolver(p, [h1, p]).style.color).toBe('red');
+        expect(resolver(p, nodes).style.color).toBe('blue');
+    });
+
+    it('should pass the roots in resolveTreeStyles', () => {
+        const resolved = resolveTreeStyles(parseHtml('<h1>T</h1><p>a</p><p>b</p>').nodes, { stylesheets });
+
+        expect((resolved[1] as any).parsedStyles.color).toBe('red');
+        expect((resolved[2] as any).parsedStyles.color).toBeUndefined();
+    });
+});
+
+describe('style inheritance', () => {
+    it('should inherit text properties through block containers', () => {
+        const { nodes } = parseHtml(
+            '<div style="color: red; font-family: Georgia; padding: 8px"><ul><li><span>Item</span></li></ul></div>'
+        );
+        const span = (nodes[0] as any).children[0].children[0].children[0];
+        const { style } = createStyleResolver()(span);
+
+        expect(style.color).toBe('red');
+        expect(style.fontFamily).toBe('Georgia');
+        expect((style as any).padding).toBeUndefined();
+    });
+
+    it('should let the element own styles override inherited ones', () => {
+        const { nodes } = parseHtml('<blockquote style="color: gray"><p><a href="#">Link</a></p></blockquote>');
+        const anchor = (nodes[0] as any).children[0].children[0];
+        const { style } = createStyleResolver()(anchor);
+
+        expect(style.color).toBe('#1976d2');
+    });
+
+    it('should inherit the base text style at the root', () => {
+        const { nodes } = parseHtml('<div><p>Text</p></div>');
+        const resolver = createStyleResolver({ baseTextStyle: { color: 'navy', fontSize: 15 } });
+
+        const { style } = resolver((nodes[0] as any).children[0]);
+
+        expect(style.color).toBe('navy');
+        expect(style.fontSize).toBe(15);
+    });
+
+    it('should pick only inheritable properties', () => {
+        expect(getInheritableStyle({ color: 'red', margin: 4, lineHeight: 20 } as any))
+            .toEqual({ color: 'red', lineHeight: 20 });
+    });
+});
+
 describe('resolveTreeStyles', () => {
     it('should resolve styles for all nodes', () => {
         const { nodes } = parseHtml('<div><p>Text</p></div>');
@@ -243,3 +581,32 @@ describe('getDefaultTagStyle', () => {
         expect(style).toEqual({});
     });
 });
+
+describe('themes', () => {
+    it('should color default tag styles from the theme', () => {
+        expect(getDefaultTagStyle('a', darkTheme).color).toBe(darkTheme.colors.link);
+        expect(getDefaultTagStyle('td', darkTheme).borderRightColor).toBe(darkTheme.colors.border);
+        expect(getDefaultTagStyle('mark', createTheme({ mark: 'orange' })).backgroundColor).toBe('orange');
+    });
+
+    it('should give root text the theme color and let styles override it', () => {
+        const { nodes } = parseHtml('<div><p>Text</p></div><p style="color: red">Red</p>');
+        const resolver = createStyleResolver({ theme: darkTheme });
+
+        expect(resolver((nodes[0] as any).children[0]).style.color).toBe(darkTheme.colors.text);
+        expect(resolver(nodes[1] as any).style.color).toBe('red');
+    });
+
+    it('should use code block colors for code inside pre', () => {
+        const { nodes } = parseHtml('<pre><code>x</code></pre><p><code>y</code></p>');
+        const resolver = createStyleResolver({ theme: darkTheme });
+
+        const blockCode = resolver((nodes[0] as any).children[0]).style;
+        const inlineCode = resolver((nodes[1] as any).children[0]).style;
+
+        expect(blockCode.color).toBe(darkTheme.colors.codeBlock);
+        expect(blockCode.backgroundColor).toBe('transparent');
+        expect(inlineCode.color).toBe(darkTheme.colors.code);
+        expect(inlineCode.backgroundColor).toBe(darkTheme.colors.codeBackground);
+    });
+});
@@ -0,0 +1,287 @@
+/**
+ * Stylesheet Unit Tests
+ * Tests for CSS rule parsing, selector matching and cascade ordering
+ */
+
+import {
+    parseCssRules,
+    createStylesheet,
+    getMatchingRules,
+    createStyleResolver,
+    createMediaEnvironment,
+    matchesMediaQuery,
+    resolveMediaStyle,
+} from '../src/styles';
+
+import {
+    parseHtml,
+    findByTag,
+    findById,
+    parseSelector,
+    matchesSelector,
+    compareSpecificity,
+    querySelector,
+    querySelectorAll,
+    closest,
+    matches,
+    getTextContent,
+} from '../src/parser';
+
+describe('parseSelector', () => {
+    it('should compute specificity', () => {
+        expect(parseSelector('p')[0].specificity).toEqual([0, 0, 1]);
+        expect(parseSelector('.note p > strong')[0].specificity).toEqual([0, 1, 2]);
+        expect(parseSelector('#intro')[0].specificity).toEqual([1, 0, 0]);
+        expect(parseSelector('a[href]:first-child')[0].specificity).toEqual([0, 2, 1]);
+        expect(parseSelector('li:not(.done)')[0].specificity).toEqual([0, 1, 1]);
+    });
+
+    it('should split selector lists', () => {
+        expect(parseSelector('h1, h2 , .title')).toHaveLength(3);
+    });
+
+    it('should throw on invalid selectors', () => {
+        expect(() => parseSelector('p >')).toThrow();
+        expect(() => parseSelector('[href')).toThrow();
+        expect(() => parseSelector('')).toThrow();
+        expect(() => parseSelector('li:nth-child')).toThrow('missing :nth-child() argument');
+        expect(() => parseSelector('p:nth-last-of-type')).toThrow();
+    });
+
+    it('should order specificities', () => {
+        expect(compareSpecificity([0, 1, 0], [0, 0, 5])).toBeGreaterThan(0);
+        expect(compareSpecificity([1, 0, 0], [0, 9, 9])).toBeGreaterThan(0);
+        expect(compareSpecificity([0, 1, 1], [0, 1, 1])).toBe(0);
+    });
+});
+
+describe('matchesSelector', () => {
+    const { nodes } = parseHtml(`
+        <div class="note">
+            <p id="intro" lang="en-US">First <strong>bold</strong></p>
+            <p>Second <a href="mailto:a@b.c">mail</a></p>
+            <span>Third</span>
+        </div>
+    `);
+
+    it('should match type, class and id selectors', () => {
+        const intro = findById(nodes, 'intro')!;
+        expect(matchesSelector(intro, 'p')).toBe(true);
+        expect(matchesSelector(intro, '#intro')).toBe(true);
+        expect(matchesSelector(intro, 'p.note')).toBe(false);
+    });
+
+    it('should match descendant and child combinators', () => {
+        const strong = findByTag(nodes, 'strong')[0];
+        expect(matchesSelector(strong, '.note strong')).toBe(true);
+        expect(matchesSelector(strong, '.note p > strong')).toBe(true);
+        expect(matchesSelector(strong, '.note > strong')).toBe(false);
+    });
+
+    it('should match sibling combinators', () => {
+        const span = findByTag(nodes, 'span')[0];
+        expect(matchesSelector(span, 'p + span')).toBe(true);
+        expect(matchesSelector(span, '#intro ~ span')).toBe(true);
+        expect(matchesSelector(span, '#intro + span')).toBe(false);
+    });
+
+    it('should match attribute selectors', () => {
+        const anchor = findByTag(nodes, 'a')[0];
+        const intro = findById(nodes, 'intro')!;
+        expect(matchesSelector(anchor, 'a[href^="mailto:"]')).toBe(true);
+        expect(matchesSelector(anchor, 'a[href$=".c"]')).toBe(true);
+        expect(matchesSelector(anchor, 'a[href*="example"]')).toBe(false);
+        expect(matchesSelector(intro, '[lang|=en]')).toBe(true);
+        expect(matchesSelector(intro, '[LANG="EN-us" i]')).toBe(true);
+    });
+
+    it('should match structural pseudo-classes', () => {
+        const [first, second] = findByTag(nodes, 'p');
+        expect(matchesSelector(first, 'p:first-child')).toBe(true);
+        expect(matchesSelector(second, 'p:first-child')).toBe(false);
+        expect(matchesSelector(second, ':nth-child(2)')).toBe(true);
+        expect(matchesSelector(second, ':nth-child(odd)')).toBe(false);
+        expect(matchesSelector(second, 'p:last-of-type')).toBe(true);
+        expect(matchesSelector(second, 'p:not(#intro)')).toBe(true);
+    });
+
+    it('should never match pseudo-elements or dynamic pseudo-classes', () => {
+        const intro = findById(nodes, 'intro')!;
+        expect(matchesSelector(intro, 'p::before')).toBe(false);
+        expect(matchesSelector(intro, 'p:hover')).toBe(false);
+    });
+});
+
+describe('querySelector', () => {
+    const { nodes } = parseHtml(
+        '<p class="lead">Intro</p>' +
+        '<article><h2 id="a">A</h2><p>One <a href="https://x.dev">ext</a></p><p>Two <a href="/in">in</a></p></article>' +
+        '<ul><li>1</li><li class="done">2</li><li>3</li></ul>'
+    );
+
+    it('should find matches in document order', () => {
+        expect(querySelectorAll(nodes, 'p').map(getTextContent)).toEqual(['Intro', 'One ext', 'Two in']);
+        expect(querySelectorAll(nodes, 'li:not(.done), h2').map(getTextContent)).toEqual(['A', '1', '3']);
+        expect(querySelector(nodes, 'article > p:last-of-type a')?.attributes.href).toBe('/in');
+        expect(querySelector(nodes, 'a[href^="https:"]')?.attributes.href).toBe('https://x.dev');
+        expect(querySelector(nodes, 'table')).toBeUndefined();
+    });
+
+    it('should match structural pseudo-classes and sibling combinators at the root', () => {
+        expect(querySelector(nodes, 'p:first-child')?.classNames).toEqual(['lead']);
+        expect(querySelectorAll(nodes, 'p + article, article ~ ul').map(node => node.tagName)).toEqual(['article', 'ul']);
+        expect(querySelectorAll(nodes, 'li:nth-child(odd)').map(getTextContent)).toEqual(['1', '3']);
+    });
+
+    it('should keep outer ancestors in scope for subtree queries', () => {
+        const article = querySelector(nodes, 'article')!;
+        expect(querySelectorAll(article.children, 'article a')).toHaveLength(2);
+    });
+
+    it('should find the closest matching ancestor', () => {
+        const link = querySelector(nodes, 'a')!;
+        expect(closest(link, 'article')?.tagName).toBe('article');
+        expect(closest(link, 'a')).toBe(link);
+        expect(closest(link.children[0], 'p')?.tagName).toBe('p');
+        expect(closest(link, 'ul')).toBeUndefined();
+    });
+
+    it('should test elements with matches', () => {
+        expect(matches(nodes[0], 'p.lead')).toBe(true);
+        expect(matches((nodes[0] as any).children[0], 'p')).toBe(false);
+        expect(() => querySelector(nodes, 'p >')).toThrow('Invalid selector');
+    });
+});
+
+describe('parseCssRules', () => {
+    it('should parse rule sets into React Native styles', () => {
+        const rules = parseCssRules(`
+            /* comment */
+            .note p { color: red; font-size: 18px }
+            #intro { margin-top: 4px !important; }
+        `);
+
+        expect(rules).toHaveLength(2);
+        expect(rules[0].style).toEqual({ color: 'red', fontSize: 18 });
+        expect(rules[1].importantStyle).toEqual({ marginTop: 4 });
+    });
+
+    it('should create one rule per selector in a list', () => {
+        const rules = parseCssRules('h1, h2 { color: navy }');
+        expect(rules).toHaveLength(2);
+        expect(rules[1].order).toBe(1);
+    });
+
+    it('should skip invalid selectors and at-rules', () => {
+        const rules = parseCssRules(`
+            @import url("x.css");
+            @font-face { font-family: X; }
+            p >> { color: red }
+            p:nth-child { color: green }
+            p { color: blue }
+        `);
+
+        expect(rules).toHaveLength(1);
+        expect(rules[0].style).toEqual({ color: 'blue' });
+    });
+});
+
+describe('getMatchingRules', () => {
+    it('should sort by specificity, then source order', () => {
+        const { nodes } = parseHtml('<div class="note"><p id="intro">Text</p></div>');
+        const p = findById(nodes, 'intro')!;
+        const sheet = createStylesheet([
+            '#intro { color: green } .note p { color: red } p { color: blue }',
+            'div p { color: orange }',
+        ]);
+
+        const colors = getMatchingRules(sheet, p).map(rule => (rule.style as any).color);
+        expect(colors).toEqual(['blue', 'orange', 'red', 'green']);
+    });
+});
+
+describe('createStyleResolver with stylesheets', () => {
+    it('should apply rules between class styles and inline styles', () => {
+        const { nodes } = parseHtml(
+            '<p class="lead" style="color: purple">Text</p><p class="lead">Other</p>'
+        );
+        const [inline, plain] = findByTag(nodes, 'p');
+        const resolver = createStyleResolver({
+            classesStyles: { lead: { color: 'gray', fontSize: 20 } },
+            stylesheets: ['p.lead { color: teal }'],
+        });
+
+        expect((resolver(plain).style as any).color).toBe('teal');
+        expect((resolver(plain).style as any).fontSize).toBe(20);
+        expect((resolver(inline).style as any).color).toBe('purple');
+    });
+
+    it('should let !important declarations override inline styles', () => {
+        const { nodes } = parseHtml('<p style="color: purple">Text</p>');
+        const resolver = createStyleResolver({
+            stylesheets: ['p { color: teal !important }'],
+        });
+
+        expect((resolver(nodes[0] as any).style as any).color).toBe('teal');
+    });
+});
+
+describe('media queries', () => {
+    const phone = createMediaEnvironment({ width: 390, height: 844, colorScheme: 'light', reducedMotion: false });
+    const tablet = createMediaEnvironment({ width: 1024, height: 768, colorScheme: 'dark', reducedMotion: true });
+
+    it('should evaluate width ranges and orientation', () => {
+        expect(matchesMediaQuery('(max-width: 600px)', phone)).toBe(true);
+        expect(matchesMediaQuery('screen and (min-width: 48em)', tablet)).toBe(true);
+        expect(matchesMediaQuery('(600px <= width < 1200px)', tablet)).toBe(true);
+        expect(matchesMediaQuery('(width > 400px)', phone)).toBe(false);
+        expect(matchesMediaQuery('(orientation: landscape)', tablet)).toBe(true);
+        expect(matchesMediaQuery('(orientation: landscape)', phone)).toBe(false);
+    });
+
+    it('should evaluate preferences, media types and logic', () => {
+        expect(matchesMediaQuery('(prefers-color-scheme: dark)', tablet)).toBe(true);
+        expect(matchesMediaQuery('(prefers-color-scheme: dark)', phone)).toBe(false);
+        expect(matchesMediaQuery('(prefers-reduced-motion: reduce)', tablet)).toBe(true);
+        expect(matchesMediaQuery('(prefers-reduced-motion: no-preference)', phone)).toBe(true);
+        expect(matchesMediaQuery('print', phone)).toBe(false);
+        expect(matchesMediaQuery('print, (max-width: 500px)', phone)).toBe(true);
+        expect(matchesMediaQuery('not print and (min-width: 2000px)', phone)).toBe(true);
+        expect(matchesMediaQuery('not (min-width: 500px)', phone)).toBe(true);
+        expect(matchesMediaQuery('(min-width: 500px) or (prefers-color-scheme: light)', phone)).toBe(true);
+        expect(matchesMediaQuery('(hover: hover)', phone)).toBe(false);
+    });
+
+    it('should attach @media conditions to nested rules', () => {
+        const rules = parseCssRules('p { color: red } @media (max-width: 600px) { p { color: blue } .a { margin: 0 } }');
+
+        expect(rules).toHaveLength(3);
+        expect(rules[1].media).toEqual(['(max-width: 600px)']);
+        expect(rules.map(rule => rule.order)).toEqual([0, 1, 2]);
+    });
+
+    it('should only apply matching @media rules', () => {
+        const css = 'p { color: red } @media (prefers-color-scheme: dark) { p { color: white } }';
+        const { nodes } = parseHtml('<p>Text</p>');
+
+        const light = createStyleResolver({ stylesheets: [css], colorScheme: 'light' });
+        const dark = createStyleResolver({ stylesheets: [css], colorScheme: 'dark' });
+
+        expect(light(nodes[0] as any).style.color).toBe('red');
+        expect(dark(nodes[0] as any).style.color).toBe('white');
+    });
+
+    it('should resolve @media blocks in classesStyles', () => {
+        const classesStyles = {
+            card: { padding: 8, '@media (min-width: 768px)': { padding: 24 } },
+        };
+        const { nodes } = parseHtml('<div class="card">Card</div>');
+
+        const narrow = createStyleResolver({ classesStyles, viewport: { width: 390, height: 844 } });
+        const wide = createStyleResolver({ classesStyles, viewport: { width: 1024, height: 768 } });
+
+        expect((narrow(nodes[0] as any).style as any).padding).toBe(8);
+        expect((wide(nodes[0] as any).style as any).padding).toBe(24);
+        expect(resolveMediaStyle(classesStyles.card, phone)).toEqual({ padding: 8 });
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Plain Text Unit Tests
+ * Tests for structure-aware HTML to text conversion
+ */
+
+import { parseHtml, htmlToText, type HtmlToTextOptions } from '../src/parser';
+
+function toText(html: string, options?: HtmlToTextOptions): string {
+    return htmlToText(parseHtml(html).nodes, options);
+}
+
+describe('htmlToText', () => {
+    it('should separate blocks with blank lines and keep line breaks', () => {
+        expect(toText('<h1>Title</h1><p>First   paragraph\n with <b>bold</b></p><div>Line<br>break</div>')).toBe(
+            'Title\n\nFirst paragraph with bold\n\nLine\nbreak'
+        );
+    });
+
+    it('should use the rendered list markers', () => {
+        const text = toText(
+            '<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>' +
+            '<ol start="3"><li>Third<ol><li>Sub</li><li>Sub</li></ol></li></ol>'
+        );
+
+        expect(text).toBe(['• One', '  ◦ Nested', '• Two', '', '3. Third', '   a. Sub', '   b. Sub'].join('\n'));
+    });
+
+    it('should align table columns', () => {
+        const text = toText(
+            '<table><caption>Scores</caption><thead><tr><th>Name</th><th>Score</th></tr></thead>' +
+            '<tbody><tr><td>Alexandra</td><td>9</td></tr><tr><td>Bo</td><td>10</td></tr></tbody></table>'
+        );
+
+        expect(text).toBe([
+            'Scores',
+            'Name      | Score',
+            '----------+------',
+            'Alexandra | 9',
+            'Bo        | 10',
+        ].join('\n'));
+    });
+
+    it('should write link URLs and image alt text', () => {
+        const html = '<p><a href="https://x.dev/docs">Docs</a>, <a href="#top">top</a>, ' +
+            '<a href="https://x.dev">https://x.dev</a>: <img src="a.png" alt="A cat"></p>';
+
+        expect(toText(html)).toBe('Docs [https://x.dev/docs], top, https://x.dev: A cat');
+        expect(toText(html, { linkUrls: false })).toBe('Docs, top, https://x.dev: A cat');
+    });
+
+    it('should prefix blockquotes and skip hidden content', () => {
+        expect(toText('<blockquote><p>Quoted</p><p>Twice</p></blockquote><hr><style>p {}</style><p>End</p>')).toBe(
+            '> Quoted\n>\n> Twice\n\n---\n\nEnd'
+        );
+    });
+
+    it('should wrap lines to the configured width', () => {
+        const text = toText(
+            '<p>The quick brown fox jumps over the lazy dog</p><ul><li>A list item that wraps around</li></ul>',
+            { lineWidth: 16 }
+        );
+
+        expect(text).toBe([
+            'The quick brown',
+            'fox jumps over',
+            'the lazy dog',
+            '',
+            '• A list item',
+            '  that wraps',
+            '  around',
+        ].join('\n'));
+    });
+});
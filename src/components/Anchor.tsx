@@ -8,7 +8,10 @@ import React, { memo, useCallback, type ReactNode } from 'react';
 import { Text, Linking, StyleSheet } from 'react-native';
 import type { TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
+import { isDangerousUrl } from '../parser/sanitizer';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for Anchor
@@ -51,20 +54,31 @@ function AnchorComponent({
   style,
   children,
 }: AnchorProps): React.ReactElement {
-  const { onLinkPress, textSelectable } = useRenderContext();
+  const renderContext = useRenderContext();
+  const { onLinkPress, pluginRegistry, textSelectable, theme } = renderContext;
   
   const href = node.attributes.href || '';
   
   const handlePress = useCallback(async () => {
     if (!href) return;
     
+    // Plugins can consume the press
+    if (pluginRegistry.handleLinkPress(href, node, renderContext)) {
+      return;
+    }
+    
     // Call custom handler if provided
     if (onLinkPress) {
       onLinkPress(href, node);
       return;
     }
     
-    // Default handling
+    // Default handling never opens script URLs
+    if (isDangerousUrl(href)) {
+      console.warn(`[react-native-html-viewer] Blocked unsafe URL: ${href}`);
+      return;
+    }
+    
     try {
       const canOpen = await Linking.canOpenURL(href);
       if (canOpen) {
@@ -75,7 +89,7 @@ function AnchorComponent({
     } catch (error) {
       console.error(`[react-native-html-viewer] Error opening URL: ${href}`, error);
     }
-  }, [href, onLinkPress, node]);
+  }, [href, onLinkPress, node, pluginRegistry, renderContext]);
   
   // Determine accessibility hint
   const getAccessibilityHint = (): string => {
@@ -93,7 +107,7 @@ function AnchorComponent({
   
   return (
     <Text
-      style={[styles.link, style]}
+      style={[styles.link, themedStyles(theme).link, style]}
       onPress={handlePress}
       accessibilityRole="link"
       accessibilityHint={getAccessibilityHint()}
@@ -109,7 +123,7 @@ function AnchorComponent({
  */
 export const Anchor = memo(AnchorComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.node.attributes.href === next.node.attributes.href &&
     prev.style === next.style
   );
@@ -119,10 +133,15 @@ Anchor.displayName = 'Anchor';
 
 const styles = StyleSheet.create({
   link: {
-    color: '#1976d2',
     textDecorationLine: 'underline',
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  link: {
+    color: colors.link,
+  },
+}));
+
 export { isExternalUrl, isMailtoLink, isTelLink };
 
@@ -8,7 +8,9 @@ import React, { memo, type ReactNode } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import type { ViewStyle, TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for BlockView
@@ -30,16 +32,17 @@ function BlockViewComponent({
   style,
   children,
 }: BlockViewProps): React.ReactElement {
-  const { textSelectable } = useRenderContext();
+  const { textSelectable, theme } = useRenderContext();
+  const themed = themedStyles(theme);
   
   // Handle blockquote specifically
   if (node.tagName === 'blockquote') {
     return (
       <View
-        style={[styles.blockquote, style]}
+        style={[styles.blockquote, themed.blockquote, style]}
         accessibilityRole="text"
       >
-        <Text selectable={textSelectable} style={styles.blockquoteText}>
+        <Text selectable={textSelectable} style={[styles.blockquoteText, themed.blockquoteText]}>
           {children}
         </Text>
       </View>
@@ -87,7 +90,7 @@ function getAccessibilityRole(tagName: string): 'none' | 'link' | undefined {
  */
 export const BlockView = memo(BlockViewComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -106,12 +109,19 @@ const styles = StyleSheet.create({
     marginVertical: 12,
     paddingLeft: 16,
     borderLeftWidth: 4,
-    borderLeftColor: '#e0e0e0',
   },
   blockquoteText: {
     fontStyle: 'italic',
-    color: '#666666',
     lineHeight: 24,
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  blockquote: {
+    borderLeftColor: colors.border,
+  },
+  blockquoteText: {
+    color: colors.textSecondary,
+  },
+}));
+
@@ -8,7 +8,9 @@ import React, { memo, type ReactNode } from 'react';
 import { View, Text, ScrollView, StyleSheet, Platform } from 'react-native';
 import type { ViewStyle, TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for CodeBlock
@@ -51,7 +53,8 @@ function CodeBlockComponent({
   parent,
   children,
 }: CodeBlockProps): React.ReactElement {
-  const { textSelectable, customFonts } = useRenderContext();
+  const { textSelectable, customFonts, theme } = useRenderContext();
+  const themed = themedStyles(theme);
   
   const fontFamily = customFonts?.['monospace'] || getMonospaceFont();
   
@@ -61,6 +64,7 @@ function CodeBlockComponent({
       <Text
         style={[
           styles.inlineCode,
+          themed.inlineCode,
           { fontFamily },
           style as TextStyle,
         ]}
@@ -73,14 +77,14 @@ function CodeBlockComponent({
   
   // Handle pre element or code inside pre
   return (
-    <View style={[styles.preContainer, style]}>
+    <View style={[styles.preContainer, themed.preContainer, style]}>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator
         style={styles.scrollView}
       >
         <Text
-          style={[styles.preText, { fontFamily }]}
+          style={[styles.preText, themed.preText, { fontFamily }]}
           selectable={textSelectable}
         >
           {children}
@@ -95,7 +99,7 @@ function CodeBlockComponent({
  */
 export const CodeBlock = memo(CodeBlockComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -104,7 +108,6 @@ CodeBlock.displayName = 'CodeBlock';
 
 const styles = StyleSheet.create({
   preContainer: {
-    backgroundColor: '#1e1e1e',
     borderRadius: 6,
     paddingVertical: 12,
     paddingHorizontal: 16,
@@ -117,17 +120,27 @@ const styles = StyleSheet.create({
   preText: {
     fontSize: 13,
     lineHeight: 20,
-    color: '#d4d4d4',
   },
   inlineCode: {
     fontSize: 14,
-    backgroundColor: '#f0f0f0',
     paddingHorizontal: 6,
     paddingVertical: 2,
     borderRadius: 4,
-    color: '#e91e63',
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  preContainer: {
+    backgroundColor: colors.codeBlockBackground,
+  },
+  preText: {
+    color: colors.codeBlock,
+  },
+  inlineCode: {
+    backgroundColor: colors.codeBackground,
+    color: colors.code,
+  },
+}));
+
 export { getMonospaceFont, isInlineCode };
 
@@ -8,6 +8,7 @@ import React, { memo, type ReactNode } from 'react';
 import { Text } from 'react-native';
 import type { TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
 import { scaleTextStyles } from '../styles/styleResolver';
 
@@ -105,7 +106,7 @@ function HeadingComponent({
  */
 export const Heading = memo(HeadingComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
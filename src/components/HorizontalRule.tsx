@@ -8,6 +8,8 @@ import React, { memo, type ReactNode } from 'react';
 import { View, StyleSheet } from 'react-native';
 import type { ViewStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { useTheme } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for HorizontalRule
@@ -27,9 +29,11 @@ export interface HorizontalRuleProps {
 function HorizontalRuleComponent({
   style,
 }: HorizontalRuleProps): React.ReactElement {
+  const themed = themedStyles(useTheme());
+  
   return (
     <View
-      style={[styles.hr, style]}
+      style={[styles.hr, themed.hr, style]}
       accessibilityRole="none"
     />
   );
@@ -45,9 +49,14 @@ HorizontalRule.displayName = 'HorizontalRule';
 const styles = StyleSheet.create({
   hr: {
     height: 1,
-    backgroundColor: '#e0e0e0',
     marginVertical: 16,
     alignSelf: 'stretch',
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  hr: {
+    backgroundColor: colors.border,
+  },
+}));
+
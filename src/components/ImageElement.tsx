@@ -15,7 +15,9 @@ import {
 } from 'react-native';
 import type { ImageStyle, ViewStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for ImageElement
@@ -50,7 +52,8 @@ function ImageElementComponent({
   node,
   style,
 }: ImageElementProps): React.ReactElement {
-  const { onImagePress } = useRenderContext();
+  const { onImagePress, theme } = useRenderContext();
+  const themed = themedStyles(theme);
   
   const src = node.attributes.src || '';
   const alt = node.attributes.alt || '';
@@ -108,7 +111,7 @@ function ImageElementComponent({
   
   // Don't render if no source
   if (!src) {
-    return <View style={styles.placeholder} />;
+    return <View style={[styles.placeholder, themed.placeholder]} />;
   }
   
   const imageStyle: ImageStyle = {
@@ -120,14 +123,14 @@ function ImageElementComponent({
   const ImageComponent = (
     <View style={styles.container}>
       {isLoading && (
-        <View style={[styles.loadingContainer, dimensions]}>
-          <ActivityIndicator size="small" color="#666666" />
+        <View style={[styles.loadingContainer, themed.loadingContainer, dimensions]}>
+          <ActivityIndicator size="small" color={theme.colors.textSecondary} />
         </View>
       )}
       
       {hasError ? (
-        <View style={[styles.errorContainer, dimensions]}>
-          <View style={styles.errorIcon} />
+        <View style={[styles.errorContainer, themed.errorContainer, dimensions]}>
+          <View style={[styles.errorIcon, themed.errorIcon]} />
         </View>
       ) : (
         <Image
@@ -164,7 +167,7 @@ function ImageElementComponent({
  */
 export const ImageElement = memo(ImageElementComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.node.attributes.src === next.node.attributes.src &&
     prev.style === next.style
   );
@@ -183,28 +186,39 @@ const styles = StyleSheet.create({
   loadingContainer: {
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#f5f5f5',
     position: 'absolute',
   },
   errorContainer: {
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#ffebee',
     borderRadius: 4,
   },
   errorIcon: {
     width: 32,
     height: 32,
     borderRadius: 16,
-    backgroundColor: '#ef5350',
   },
   placeholder: {
     width: 100,
     height: 100,
-    backgroundColor: '#e0e0e0',
     borderRadius: 4,
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  loadingContainer: {
+    backgroundColor: colors.surface,
+  },
+  errorContainer: {
+    backgroundColor: colors.errorBackground,
+  },
+  errorIcon: {
+    backgroundColor: colors.error,
+  },
+  placeholder: {
+    backgroundColor: colors.border,
+  },
+}));
+
 export { parseDimension, DEFAULT_MAX_WIDTH };
 
@@ -8,7 +8,10 @@ import React, { memo, type ReactNode, createContext, useContext } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import type { ViewStyle, TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
+import { getBullet, getOrderedMarker } from '../parser/text';
 
 /**
  * List context for passing list type and depth
@@ -27,53 +30,6 @@ const ListContext = createContext<ListContextValue>({
   totalItems: 0,
 });
 
-/**
- * Get bullet character based on depth
- */
-function getBullet(depth: number): string {
-  const bullets = ['•', '◦', '▪', '▫', '–'];
-  return bullets[depth % bullets.length];
-}
-
-/**
- * Get ordered list marker
- */
-function getOrderedMarker(index: number, depth: number): string {
-  // Different numbering styles based on depth
-  switch (depth % 3) {
-    case 0: // 1, 2, 3...
-      return `${index + 1}.`;
-    case 1: // a, b, c...
-      return `${String.fromCharCode(97 + (index % 26))}.`;
-    case 2: // i, ii, iii...
-      return toRoman(index + 1).toLowerCase() + '.';
-    default:
-      return `${index + 1}.`;
-  }
-}
-
-/**
- * Convert number to Roman numerals
- */
-function toRoman(num: number): string {
-  if (num <= 0 || num > 3999) return String(num);
-  
-  const romanNumerals: [number, string][] = [
-    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
-    [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
-    [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
-  ];
-  
-  let result = '';
-  for (const [value, symbol] of romanNumerals) {
-    while (num >= value) {
-      result += symbol;
-      num -= value;
-    }
-  }
-  return result;
-}
-
 /**
  * Props for List
  */
@@ -143,8 +99,9 @@ function ListItemComponent({
   index = 0,
   children,
 }: ListItemProps): React.ReactElement {
-  const { textSelectable } = useRenderContext();
+  const { textSelectable, theme } = useRenderContext();
   const listContext = useContext(ListContext);
+  const themed = themedStyles(theme);
   
   // Determine marker
   const marker = listContext.type === 'ol'
@@ -153,11 +110,11 @@ function ListItemComponent({
   
   return (
     <View style={[styles.listItem, style]}>
-      <Text style={styles.marker} selectable={false}>
+      <Text style={[styles.marker, themed.marker]} selectable={false}>
         {marker}
       </Text>
       <View style={styles.listItemContent}>
-        <Text selectable={textSelectable} style={styles.listItemText}>
+        <Text selectable={textSelectable} style={[styles.listItemText, themed.listItemText]}>
           {children}
         </Text>
       </View>
@@ -170,7 +127,7 @@ function ListItemComponent({
  */
 export const List = memo(ListComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style &&
     prev.depth === next.depth
   );
@@ -183,7 +140,7 @@ List.displayName = 'List';
  */
 export const ListItem = memo(ListItemComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style &&
     prev.index === next.index
   );
@@ -203,7 +160,6 @@ const styles = StyleSheet.create({
   marker: {
     width: 24,
     fontSize: 14,
-    color: '#666666',
     fontWeight: '500',
     marginRight: 4,
     textAlign: 'right',
@@ -218,5 +174,14 @@ const styles = StyleSheet.create({
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  marker: {
+    color: colors.textSecondary,
+  },
+  listItemText: {
+    color: colors.text,
+  },
+}));
+
 export { ListContext, getBullet, getOrderedMarker };
 
@@ -8,7 +8,9 @@ import React, { memo, type ReactNode, createContext, useContext } from 'react';
 import { View, Text, ScrollView, StyleSheet } from 'react-native';
 import type { ViewStyle, TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
-import { useRenderContext } from '../renderer/RenderContext';
+import { isSameNodeContent } from '../parser/keys';
+import { useRenderContext, useTheme } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Table context for passing column count
@@ -71,13 +73,14 @@ function TableComponent({
   style,
   children,
 }: TableProps): React.ReactElement {
+  const themed = themedStyles(useTheme());
   const columnCount = countColumns(node);
   const isHeader = node.tagName === 'thead';
   
   return (
     <TableContext.Provider value={{ columnCount, isHeader }}>
       <ScrollView horizontal showsHorizontalScrollIndicator>
-        <View style={[styles.table, style]}>{children}</View>
+        <View style={[styles.table, themed.table, style]}>{children}</View>
       </ScrollView>
     </TableContext.Provider>
   );
@@ -104,13 +107,15 @@ function TableRowComponent({
   parent,
   children,
 }: TableRowProps): React.ReactElement {
+  const themed = themedStyles(useTheme());
   const isInHeader = parent?.tagName === 'thead';
   
   return (
     <View
       style={[
         styles.row,
-        isInHeader && styles.headerRow,
+        themed.row,
+        isInHeader && themed.header,
         style,
       ]}
       accessibilityRole="none"
@@ -141,16 +146,17 @@ function TableCellComponent({
   parent,
   children,
 }: TableCellProps): React.ReactElement {
-  const { textSelectable } = useRenderContext();
+  const { textSelectable, theme } = useRenderContext();
   const { columnCount } = useContext(TableContext);
+  const themed = themedStyles(theme);
   
   const isHeader = node.tagName === 'th' || parent?.tagName === 'thead';
   const isCaption = node.tagName === 'caption';
   
   if (isCaption) {
     return (
-      <View style={styles.caption}>
-        <Text style={styles.captionText} selectable={textSelectable}>
+      <View style={[styles.caption, themed.caption]}>
+        <Text style={[styles.captionText, themed.captionText]} selectable={textSelectable}>
           {children}
         </Text>
       </View>
@@ -161,7 +167,8 @@ function TableCellComponent({
     <View
       style={[
         styles.cell,
-        isHeader && styles.headerCell,
+        themed.cell,
+        isHeader && themed.header,
         { minWidth: 100 },
         style,
       ]}
@@ -169,6 +176,7 @@ function TableCellComponent({
       <Text
         style={[
           styles.cellText,
+          themed.cellText,
           isHeader && styles.headerCellText,
         ]}
         selectable={textSelectable}
@@ -184,7 +192,7 @@ function TableCellComponent({
  */
 export const Table = memo(TableComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -196,7 +204,7 @@ Table.displayName = 'Table';
  */
 export const TableRow = memo(TableRowComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -208,7 +216,7 @@ TableRow.displayName = 'TableRow';
  */
 export const TableCell = memo(TableCellComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -218,7 +226,6 @@ TableCell.displayName = 'TableCell';
 const styles = StyleSheet.create({
   table: {
     borderWidth: 1,
-    borderColor: '#e0e0e0',
     borderRadius: 4,
     marginVertical: 12,
     overflow: 'hidden',
@@ -226,25 +233,16 @@ const styles = StyleSheet.create({
   row: {
     flexDirection: 'row',
     borderBottomWidth: 1,
-    borderBottomColor: '#e0e0e0',
-  },
-  headerRow: {
-    backgroundColor: '#f5f5f5',
   },
   cell: {
     flex: 1,
     padding: 10,
     borderRightWidth: 1,
-    borderRightColor: '#e0e0e0',
     justifyContent: 'center',
   },
-  headerCell: {
-    backgroundColor: '#f5f5f5',
-  },
   cellText: {
     fontSize: 14,
     lineHeight: 20,
-    color: '#333333',
   },
   headerCellText: {
     fontWeight: 'bold',
@@ -253,15 +251,37 @@ const styles = StyleSheet.create({
   caption: {
     padding: 8,
     borderBottomWidth: 1,
-    borderBottomColor: '#e0e0e0',
   },
   captionText: {
     fontSize: 14,
     fontStyle: 'italic',
     textAlign: 'center',
-    color: '#666666',
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  table: {
+    borderColor: colors.border,
+  },
+  row: {
+    borderBottomColor: colors.border,
+  },
+  header: {
+    backgroundColor: colors.surface,
+  },
+  cell: {
+    borderRightColor: colors.border,
+  },
+  cellText: {
+    color: colors.text,
+  },
+  caption: {
+    borderBottomColor: colors.border,
+  },
+  captionText: {
+    color: colors.textSecondary,
+  },
+}));
+
 export { TableContext, countColumns };
 
@@ -8,7 +8,9 @@ import React, { memo, type ReactNode } from 'react';
 import { Text, StyleSheet } from 'react-native';
 import type { TextStyle } from 'react-native';
 import type { ElementNode } from '../parser/types';
+import { isSameNodeContent } from '../parser/keys';
 import { useRenderContext } from '../renderer/RenderContext';
+import { createThemedStyles } from '../styles/theme';
 
 /**
  * Props for TextWrapper
@@ -33,15 +35,24 @@ const tagStyles: Record<string, TextStyle> = {
   u: { textDecorationLine: 'underline' },
   s: { textDecorationLine: 'line-through' },
   strike: { textDecorationLine: 'line-through' },
-  del: { textDecorationLine: 'line-through', color: '#888888' },
-  ins: { textDecorationLine: 'underline', color: '#2e7d32' },
-  mark: { backgroundColor: '#ffeb3b', color: '#1a1a1a' },
+  del: { textDecorationLine: 'line-through' },
+  ins: { textDecorationLine: 'underline' },
+  mark: {},
   small: { fontSize: 12 },
   sub: { fontSize: 12, lineHeight: 12 },
   sup: { fontSize: 12, lineHeight: 12 },
   span: {},
 };
 
+/**
+ * Tag-specific theme colors
+ */
+const themedStyles = createThemedStyles(colors => ({
+  del: { color: colors.deleted },
+  ins: { color: colors.inserted },
+  mark: { backgroundColor: colors.mark, color: colors.markText },
+}));
+
 /**
  * Text Wrapper component for inline text elements
  */
@@ -50,10 +61,11 @@ function TextWrapperComponent({
   style,
   children,
 }: TextWrapperProps): React.ReactElement {
-  const { textSelectable, customFonts } = useRenderContext();
+  const { textSelectable, customFonts, theme } = useRenderContext();
   
   // Get base style for tag
   const baseStyle = tagStyles[node.tagName] || {};
+  const themedStyle = (themedStyles(theme) as Record<string, TextStyle | undefined>)[node.tagName];
   
   // Apply custom font if specified
   let fontStyle: TextStyle = {};
@@ -66,7 +78,7 @@ function TextWrapperComponent({
   
   return (
     <Text
-      style={[baseStyle, fontStyle, style]}
+      style={[baseStyle, themedStyle, fontStyle, style]}
       selectable={textSelectable}
     >
       {children}
@@ -79,7 +91,7 @@ function TextWrapperComponent({
  */
 export const TextWrapper = memo(TextWrapperComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.style === next.style
   );
 });
@@ -32,3 +32,4 @@ export {
     type TextMeasurementState,
 } from './useTextMeasurement';
 
+export { useMediaEnvironment } from './useMediaEnvironment';
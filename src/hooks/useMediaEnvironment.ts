@@ -0,0 +1,65 @@
+/**
+ * Media Environment Hook
+ * Tracks the window size, color scheme and reduced motion preference used
+ * to evaluate media queries
+ * @module hooks/useMediaEnvironment
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AccessibilityInfo, useColorScheme, useWindowDimensions } from 'react-native';
+import type { MediaEnvironment } from '../styles/mediaQueries';
+
+/**
+ * Get the live media environment
+ *
+ * Re-renders when the window is resized or rotated, when the system color
+ * scheme changes and when the reduced motion setting is toggled.
+ *
+ * @param overrides - Values to force (e.g., a fixed color scheme)
+ * @returns Media environment
+ *
+ * @example
+ * ```typescript
+ * const media = useMediaEnvironment();
+ * const isWide = matchesMediaQuery('(min-width: 768px)', media);
+ * ```
+ */
+export function useMediaEnvironment(overrides: Partial<MediaEnvironment> = {}): MediaEnvironment {
+    const { width, height } = useWindowDimensions();
+    const systemColorScheme = useColorScheme();
+    const [reducedMotion, setReducedMotion] = useState(false);
+
+    useEffect(() => {
+        let isMounted = true;
+
+        AccessibilityInfo.isReduceMotionEnabled()
+            .then(enabled => {
+                if (isMounted) setReducedMotion(enabled);
+            })
+            .catch(() => {
+                // Keep the default when the setting is unavailable
+            });
+
+        const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setReducedMotion);
+
+        return () => {
+            isMounted = false;
+            subscription?.remove();
+        };
+    }, []);
+
+    const colorScheme = overrides.colorScheme ?? (systemColorScheme === 'dark' ? 'dark' : 'light');
+    const resolvedReducedMotion = overrides.reducedMotion ?? reducedMotion;
+    const resolvedWidth = overrides.width ?? width;
+    const resolvedHeight = overrides.height ?? height;
+
+    return useMemo(
+        () => ({
+            width: resolvedWidth,
+            height: resolvedHeight,
+            colorScheme,
+            reducedMotion: resolvedReducedMotion,
+        }),
+        [resolvedWidth, resolvedHeight, colorScheme, resolvedReducedMotion]
+    );
+}
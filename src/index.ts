@@ -24,6 +24,7 @@ export {
     useImageHandler,
     useTextConfig,
     useDebugMode,
+    useTheme,
 } from './renderer';
 
 export type {
@@ -41,18 +42,45 @@ export {
     parseHtml,
     parseHtmlStrict,
     walkAst,
+    mapAst,
+    findNode,
     findNodes,
     findByTag,
     findById,
     countNodes,
     getTextContent,
     resetKeyCounter,
+    assignNodeKeys,
+    hashNodeContent,
+    isSameNodeContent,
+    createStreamingParser,
     useHtmlParser,
     useLazyHtmlParser,
+    useHtmlDocument,
+    extractMetadata,
+    serializeHtml,
+    escapeHtml,
+    styleToCss,
+    htmlToText,
+    htmlToMarkdown,
+    markdownToHtml,
+    parseMarkdown,
+    parseSelector,
+    matchesSelector,
+    querySelector,
+    querySelectorAll,
+    closest,
+    matches,
+    compareSpecificity,
+    sanitizeNodes,
+    isAllowedUrl,
+    isDangerousUrl,
+    SANITIZE_PRESETS,
     NodeType,
     isElementNode,
     isTextNode,
     isCommentNode,
+    hasFatalParseError,
     isSupportedTag,
     isBlockTag,
     isInlineTag,
@@ -71,28 +99,67 @@ export type {
     BaseNode,
     HtmlAttributes,
     ParseResult,
+    DocumentMetadata,
     ParseError,
+    ParseErrorCode,
+    SourceLocation,
+    SourceRange,
     ParserOptions,
     SupportedTag,
     UseHtmlParserOptions,
     UseHtmlParserResult,
+    UseHtmlDocumentResult,
+    SerializeOptions,
+    HtmlToTextOptions,
+    HtmlToMarkdownOptions,
+    StreamingParser,
+    StreamingParseResult,
+    Specificity,
+    ComplexSelector,
+    SelectorMatchOptions,
+    SanitizePolicy,
+    SanitizePreset,
+    SanitizeReport,
+    StrippedContent,
 } from './parser';
 
 // Style exports
 export {
     parseInlineStyle,
+    parseDeclarations,
     parseBoxShorthand,
+    expandShorthand,
+    parseColor,
+    isValidColor,
+    substituteVariables,
+    resolveStyleUnits,
+    resolveLength,
+    createUnitContext,
     mergeStyles,
     isEmptyStyle,
+    lightTheme,
+    darkTheme,
+    createTheme,
+    resolveTheme,
+    createThemedStyles,
     defaultTagStyles,
     defaultTextStyle,
+    createDefaultTagStyles,
     getDefaultTagStyle,
     isTextOnlyTag,
     isHeadingTag,
     TEXT_ONLY_TAGS,
     HEADING_TAGS,
+    parseCssRules,
+    createStylesheet,
+    getMatchingRules,
+    matchesMediaQuery,
+    createMediaEnvironment,
     createStyleResolver,
     defaultStyleResolver,
+    getInheritableStyle,
+    getRootTextStyle,
+    INHERITED_STYLE_PROPERTIES,
     resolveTreeStyles,
     extractClassNames,
     createResponsiveStyle,
@@ -105,6 +172,16 @@ export type {
     ClassesStyles,
     StyleResolverConfig,
     ResolvedStyle,
+    CssRule,
+    Stylesheet,
+    UnitContext,
+    StyleWarningHandler,
+    CustomProperties,
+    MediaEnvironment,
+    MediaStyle,
+    HtmlTheme,
+    HtmlThemeColors,
+    ThemeSetting,
 } from './styles';
 
 // Plugin exports
@@ -120,6 +197,12 @@ export type {
     TagRenderer,
     RenderersMap,
     NodeTransform,
+    DocumentTransform,
+    DocumentTransformContext,
+    StyleModifier,
+    StyleHook,
+    LinkPressHook,
+    SelectorRule,
     RenderContext,
     PluginRegistry,
     PluginRegistryState,
@@ -140,6 +223,7 @@ export {
     useTextMeasurement,
     estimateTextHeight,
     willTruncate,
+    useMediaEnvironment,
 } from './hooks';
 
 export type {
@@ -169,9 +253,11 @@ export {
     useStableNodesCallback,
     ContentCache,
     globalParseCache,
+    reconcileNodes,
+    diffNodes,
 } from './performance';
 
-export type { VirtualizedContentProps } from './performance';
+export type { VirtualizedContentProps, NodeChange } from './performance';
 
 // Component exports
 export {
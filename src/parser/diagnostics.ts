@@ -0,0 +1,290 @@
+/**
+ * Parse Diagnostics
+ * Tracks source positions and reports recoverable problems (unclosed,
+ * stray and misnested tags, unknown entities, unsupported tags)
+ * @module parser/diagnostics
+ */
+
+import { Parser, DomHandler } from 'htmlparser2';
+import type { ParseError, ParseErrorCode, SourceLocation, SourceRange } from './types';
+import { isSupportedTag, SELF_CLOSING_TAGS } from './types';
+
+/**
+ * Elements whose end tag may be omitted (closing them implicitly is valid)
+ */
+const OPTIONAL_END_TAGS = new Set([
+    'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'rt', 'rp', 'optgroup', 'option',
+    'colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th',
+]);
+
+/**
+ * Formatting elements, which the HTML spec reconstructs when misnested
+ */
+const FORMATTING_TAGS = new Set([
+    'a', 'b', 'big', 'code', 'em', 'font', 'i', 'nobr', 's', 'small', 'strike', 'strong', 'tt', 'u',
+]);
+
+/**
+ * Document-level elements that are expected but not rendered
+ */
+const DOCUMENT_TAGS = new Set(['html', 'head', 'body', 'title', 'meta', 'link', 'base']);
+
+/**
+ * Maps offsets to line and column numbers; grows as source is appended
+ */
+export class SourceLocator {
+    private readonly lineStarts: number[] = [0];
+    private length = 0;
+
+    constructor(source: string = '') {
+        this.append(source);
+    }
+
+    append(chunk: string): void {
+        for (let i = chunk.indexOf('\n'); i !== -1; i = chunk.indexOf('\n', i + 1)) {
+            this.lineStarts.push(this.length + i + 1);
+        }
+        this.length += chunk.length;
+    }
+
+    locate(offset: number): SourceLocation {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return { offset, line: low + 1, column: offset - this.lineStarts[low] + 1 };
+    }
+
+    range(start: number, end: number): SourceRange {
+        return { start: this.locate(start), end: this.locate(Math.max(start, end)) };
+    }
+}
+
+/**
+ * An element open on the parser stack
+ */
+interface OpenElement {
+    name: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * An end tag being processed
+ */
+interface PendingEndTag {
+    name: string;
+    start: number;
+    end: number;
+    matched: boolean;
+    createdElement: boolean;
+}
+
+/**
+ * Collects warnings from parser and handler events
+ */
+export class DiagnosticsCollector {
+    readonly warnings: ParseError[] = [];
+
+    private readonly stack: OpenElement[] = [];
+    private endTag: PendingEndTag | undefined;
+    private atDocumentEnd = false;
+
+    constructor(
+        private readonly locator: SourceLocator,
+        private readonly rawTextTags: Set<string>
+    ) {}
+
+    /** Whether text is currently inside a raw text element (e.g., `script`) */
+    get inRawText(): boolean {
+        const current = this.stack[this.stack.length - 1];
+        return current !== undefined && this.rawTextTags.has(current.name);
+    }
+
+    openElement(name: string, start: number, end: number): void {
+        this.stack.push({ name, start, end });
+        if (this.endTag) {
+            // `</p>` and `</br>` without an open element create one
+            this.endTag.createdElement = true;
+        }
+
+        if (!isSupportedTag(name) && !DOCUMENT_TAGS.has(name) && !this.rawTextTags.has(name)) {
+            this.report('unsupported-tag', `Unsupported tag <${name}>`, start, end, name);
+        }
+    }
+
+    closeElement(name: string, isImplied: boolean): void {
+        const element = this.stack.pop();
+        if (!element) return;
+
+        if (!isImplied) {
+            if (this.endTag?.name === name) this.endTag.matched = true;
+            return;
+        }
+        if (SELF_CLOSING_TAGS.has(name)) return;
+
+        if (this.endTag && FORMATTING_TAGS.has(name)) {
+            this.report(
+                'misnested-tag',
+                `<${name}> is closed by </${this.endTag.name}> before its own end tag`,
+                element.start,
+                element.end,
+                name
+            );
+        } else if ((this.endTag || this.atDocumentEnd) && !OPTIONAL_END_TAGS.has(name)) {
+            this.report('unclosed-tag', `<${name}> is not closed`, element.start, element.end, name);
+        }
+        // Elements closed by a following start tag (e.g., `<li>` by `<li>`) are valid
+    }
+
+    beginEndTag(name: string, start: number, end: number): void {
+        this.endTag = { name, start, end, matched: false, createdElement: false };
+    }
+
+    finishEndTag(): void {
+        const endTag = this.endTag;
+        this.endTag = undefined;
+        if (endTag && (!endTag.matched || endTag.createdElement)) {
+            this.report(
+                'stray-end-tag',
+                `</${endTag.name}> has no matching start tag`,
+                endTag.start,
+                endTag.end,
+                endTag.name
+            );
+        }
+    }
+
+    beginDocumentEnd(): void {
+        this.atDocumentEnd = true;
+    }
+
+    text(raw: string, start: number): void {
+        if (this.inRawText) return;
+
+        const pattern = /&([a-z][a-z0-9]*);/gi;
+        for (let match = pattern.exec(raw); match; match = pattern.exec(raw)) {
+            const offset = start + match.index;
+            this.report('unknown-entity', `Unknown entity ${match[0]}`, offset, offset + match[0].length);
+        }
+    }
+
+    private report(code: ParseErrorCode, message: string, start: number, end: number, tagName?: string): void {
+        this.warnings.push({
+            message,
+            code,
+            severity: 'warning',
+            position: start,
+            location: this.locator.range(start, end),
+            ...(tagName && { tagName }),
+        });
+    }
+}
+
+/**
+ * DomHandler that reports element events to a diagnostics collector
+ */
+export class SourceHandler extends DomHandler {
+    private indices: { startIndex: number | null; endIndex: number | null } | undefined;
+
+    constructor(
+        callback: ConstructorParameters<typeof DomHandler>[0],
+        private readonly diagnostics: DiagnosticsCollector | undefined
+    ) {
+        super(callback, { withStartIndices: true, withEndIndices: true });
+    }
+
+    /** Elements whose end has not been parsed yet, outermost first */
+    get openElements(): readonly unknown[] {
+        // The first entry is the document root
+        return this.tagStack.slice(1);
+    }
+
+    onparserinit(parser: { startIndex: number | null; endIndex: number | null }): void {
+        super.onparserinit(parser);
+        this.indices = parser;
+    }
+
+    onopentag(name: string, attribs: { [key: string]: string }): void {
+        super.onopentag(name, attribs);
+        const start = this.indices?.startIndex ?? 0;
+        const end = (this.indices?.endIndex ?? start) + 1;
+        this.diagnostics?.openElement(name, start, end);
+    }
+
+    onclosetag(name?: string, isImplied: boolean = false): void {
+        if (name !== undefined) {
+            this.diagnostics?.closeElement(name, isImplied);
+        }
+        super.onclosetag();
+    }
+}
+
+/**
+ * Parser that keeps the source for positions and reports end tags and
+ * undecoded entities to a diagnostics collector
+ */
+export class SourceParser extends Parser {
+    private written = '';
+
+    constructor(
+        handler: SourceHandler,
+        options: ConstructorParameters<typeof Parser>[1],
+        private readonly locator: SourceLocator,
+        private readonly diagnostics: DiagnosticsCollector | undefined,
+        private readonly decodeEntities: boolean,
+        private readonly voidElements: ReadonlySet<string> = new Set()
+    ) {
+        super(handler, options);
+    }
+
+    /** HTML written so far */
+    get source(): string {
+        return this.written;
+    }
+
+    write(chunk: string): void {
+        this.written += chunk;
+        this.locator.append(chunk);
+        super.write(chunk);
+    }
+
+    end(chunk?: string): void {
+        if (chunk) this.write(chunk);
+        this.diagnostics?.beginDocumentEnd();
+        super.end();
+    }
+
+    /** Treat the configured self-closing tags as void elements */
+    protected isVoidElement(name: string): boolean {
+        return super.isVoidElement(name) || this.voidElements.has(name);
+    }
+
+    /** @internal */
+    onclosetag(start: number, endIndex: number): void {
+        if (!this.diagnostics) {
+            super.onclosetag(start, endIndex);
+            return;
+        }
+
+        // `start` points after `</`; the end tag ends at the following `>`
+        const name = this.written.slice(start, endIndex).toLowerCase();
+        const close = this.written.indexOf('>', endIndex);
+        this.diagnostics.beginEndTag(name, Math.max(0, start - 2), close === -1 ? endIndex : close + 1);
+        super.onclosetag(start, endIndex);
+        this.diagnostics.finishEndTag();
+    }
+
+    /** @internal */
+    ontext(start: number, endIndex: number): void {
+        super.ontext(start, endIndex);
+        // Entities the tokenizer decoded are reported through ontextentity,
+        // so references left in text are unknown
+        if (this.diagnostics && this.decodeEntities) {
+            this.diagnostics.text(this.written.slice(start, endIndex), start);
+        }
+    }
+}
@@ -3,14 +3,55 @@
  * @module parser
  */
 
-export { parseHtml, parseHtmlStrict, walkAst, findNodes, findByTag, findById, countNodes, getTextContent, resetKeyCounter } from './parser';
+export { parseHtml, parseHtmlStrict, walkAst, mapAst, findNode, findNodes, findByTag, findById, countNodes, getTextContent, resetKeyCounter } from './parser';
 export { useHtmlParser, useLazyHtmlParser } from './useHtmlParser';
+export { useHtmlDocument } from './useHtmlDocument';
+export type { UseHtmlDocumentResult } from './useHtmlDocument';
+export { extractMetadata } from './metadata';
+export { serializeHtml, escapeHtml, styleToCss } from './serializer';
+export type { SerializeOptions } from './serializer';
+export { htmlToText } from './text';
+export type { HtmlToTextOptions } from './text';
+export { htmlToMarkdown } from './markdown';
+export type { HtmlToMarkdownOptions } from './markdown';
+export { markdownToHtml, parseMarkdown } from './markdownParser';
+export { assignNodeKeys, hashNodeContent, isSameNodeContent } from './keys';
+export { createStreamingParser } from './streaming';
+export type { StreamingParser, StreamingParseResult } from './streaming';
+export {
+    sanitizeNodes,
+    sanitizeStylesheets,
+    getSanitizePolicy,
+    getUrlScheme,
+    isAllowedUrl,
+    isDangerousUrl,
+    SANITIZE_PRESETS,
+} from './sanitizer';
+export type {
+    SanitizePolicy,
+    SanitizePreset,
+    SanitizeReport,
+    SanitizeResult,
+    StrippedContent,
+} from './sanitizer';
+export { parseSelector, matchesSelector, compareSpecificity } from './selectors';
+export { querySelector, querySelectorAll, closest, matches } from './query';
+export type {
+    Specificity,
+    Combinator,
+    AttributeSelector,
+    PseudoClassSelector,
+    CompoundSelector,
+    ComplexSelector,
+    SelectorMatchOptions,
+} from './selectors';
 export type { UseHtmlParserOptions, UseHtmlParserResult } from './useHtmlParser';
 export {
     NodeType,
     isElementNode,
     isTextNode,
     isCommentNode,
+    hasFatalParseError,
     isSupportedTag,
     isBlockTag,
     isInlineTag,
@@ -28,7 +69,11 @@ export type {
     BaseNode,
     HtmlAttributes,
     ParseResult,
+    DocumentMetadata,
     ParseError,
+    ParseErrorCode,
+    SourceLocation,
+    SourceRange,
     ParserOptions,
     SupportedTag,
 } from './types';
@@ -0,0 +1,173 @@
+/**
+ * Node Keys
+ * Deterministic React keys derived from the tree path and a content hash
+ * @module parser/keys
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType } from './types';
+
+/**
+ * FNV-1a 32-bit offset basis and prime
+ */
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Hash a string with FNV-1a
+ *
+ * @param value - String to hash
+ * @param seed - Hash to continue from (for hashing several values)
+ * @returns Unsigned 32-bit hash
+ */
+export function hashString(value: string, seed: number = FNV_OFFSET): number {
+    let hash = seed;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, FNV_PRIME);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Hash an element's own type, tag and attributes
+ *
+ * @param node - Element to hash
+ * @param seed - Hash to continue from
+ * @returns Unsigned 32-bit hash
+ */
+function hashElement(node: ElementNode, seed: number = FNV_OFFSET): number {
+    let hash = hashString(node.tagName, hashString(node.type, seed));
+    const attributeNames = Object.keys(node.attributes).sort();
+    for (const name of attributeNames) {
+        hash = hashString(`${name}=${node.attributes[name] ?? ''}`, hash);
+    }
+    return hash;
+}
+
+/**
+ * Hash a node and its descendants
+ *
+ * @param node - Node to hash
+ * @param childHashes - Hashes of the node's children, in order
+ * @returns Unsigned 32-bit hash
+ */
+function hashNode(node: HtmlNode, childHashes: number[]): number {
+    // Open nodes render differently (e.g., with a streaming cursor)
+    const seed = node.open ? hashString('open') : FNV_OFFSET;
+    if (node.type !== NodeType.Element) {
+        return hashString(node.content, hashString(node.type, seed));
+    }
+
+    let hash = hashElement(node, seed);
+    for (const childHash of childHashes) {
+        hash = hashString(childHash.toString(36), hash);
+    }
+    return hash;
+}
+
+/**
+ * Compute the content hash of a node tree
+ *
+ * @param node - Root node
+ * @returns Unsigned 32-bit hash of the node's type, tag, attributes and content
+ */
+export function hashNodeContent(node: HtmlNode): number {
+    const childHashes = node.type === NodeType.Element ? node.children.map(hashNodeContent) : [];
+    return hashNode(node, childHashes);
+}
+
+/**
+ * Get the identity part of a node's key: the tag (with the id, if any) of
+ * an element, or the node type
+ */
+function getKeyName(node: HtmlNode): string {
+    if (node.type !== NodeType.Element) return node.type;
+    return node.attributes.id ? `${node.tagName}#${node.attributes.id}` : node.tagName;
+}
+
+/**
+ * Assign deterministic keys and content hashes to a node tree
+ *
+ * A key combines the node's index path (`0.2.1`) with its tag (or id), so
+ * it survives edits to the node's content or descendants and React keeps
+ * the mounted component. The content hash covers the node's subtree and
+ * its ancestors' tags and attributes, so it changes only when something
+ * that can affect the node's rendering (its content or inherited styles)
+ * changes. Parsing the same HTML again yields the same keys and hashes;
+ * neither depends on anything outside the given nodes.
+ *
+ * @param nodes - Root nodes (modified in place)
+ * @param prefix - Path prefix for the roots (e.g., the parent's path)
+ * @returns The same nodes
+ *
+ * @example
+ * ```typescript
+ * assignNodeKeys(nodes);
+ * nodes[0].key; // '0-p'
+ * nodes[0].hash; // '1x2b3c4'
+ * ```
+ */
+export function assignNodeKeys(nodes: HtmlNode[], prefix: string = ''): HtmlNode[] {
+    nodes.forEach((node, index) => assignKeys(node, prefix ? `${prefix}.${index}` : String(index), FNV_OFFSET));
+    return nodes;
+}
+
+/**
+ * Assign keys and content hashes to a node that takes the place of another
+ * one (e.g., a plugin transform's result), so it keeps the replaced node's
+ * path and its new descendants get keys
+ *
+ * @param node - Replacement node, linked to its parent (modified in place)
+ * @param replaced - Node it replaces
+ * @returns The same node
+ */
+export function assignReplacementKeys(node: HtmlNode, replaced: HtmlNode): HtmlNode {
+    const separator = replaced.key.indexOf('-');
+    const path = separator === -1 ? replaced.key : replaced.key.slice(0, separator);
+
+    const ancestors: ElementNode[] = [];
+    for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+        ancestors.unshift(ancestor);
+    }
+    const context = ancestors.reduce((seed, ancestor) => hashElement(ancestor, seed), FNV_OFFSET);
+
+    assignKeys(node, path, context);
+    return node;
+}
+
+/**
+ * Assign the key and hash of a node and its descendants
+ *
+ * @param node - Node to key
+ * @param path - Index path of the node
+ * @param context - Hash of the ancestors' tags and attributes
+ * @returns Content hash of the node's subtree
+ */
+function assignKeys(node: HtmlNode, path: string, context: number): number {
+    let childHashes: number[] = [];
+    if (node.type === NodeType.Element) {
+        const childContext = hashElement(node, context);
+        childHashes = node.children.map((child, index) => assignKeys(child, `${path}.${index}`, childContext));
+    }
+    const hash = hashNode(node, childHashes);
+    node.key = `${path}-${getKeyName(node)}`;
+    node.hash = hashString(hash.toString(36), context).toString(36);
+    return hash;
+}
+
+/**
+ * Check whether a node renders the same as a previous one: the same
+ * object, or the same key and content hash
+ *
+ * @param previous - Previously rendered node
+ * @param next - Node to render
+ * @returns Whether rendering can be skipped
+ */
+export function isSameNodeContent(previous: HtmlNode, next: HtmlNode): boolean {
+    return previous === next || (
+        previous.key === next.key &&
+        previous.hash !== undefined &&
+        previous.hash === next.hash
+    );
+}
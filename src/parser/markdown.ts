@@ -0,0 +1,448 @@
+/**
+ * Markdown Export
+ * Converts AST nodes into CommonMark with GitHub Flavored Markdown
+ * extensions (tables, strikethrough, task lists)
+ * @module parser/markdown
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType, isBlockTag } from './types';
+import { walkAst } from './parser';
+import { serializeHtml } from './serializer';
+
+/**
+ * Options for htmlToMarkdown
+ */
+export interface HtmlToMarkdownOptions {
+    /** Bullet for unordered list items (default: '-') */
+    bullet?: '-' | '*' | '+';
+    /**
+     * Write elements without a Markdown equivalent (e.g., `<sup>`,
+     * `<details>`, tables with merged cells) as raw HTML; when false only
+     * their content is kept (default: true)
+     */
+    rawHtml?: boolean;
+    /** Tags always written as raw HTML */
+    keepTags?: string[];
+}
+
+/**
+ * Elements whose content is kept without markup
+ */
+const TRANSPARENT_TAGS = new Set([
+    'div', 'article', 'section', 'header', 'footer', 'main', 'aside', 'nav', 'figure', 'figcaption',
+    'span', 'small', 'thead', 'tbody', 'tfoot',
+]);
+
+/**
+ * Inline elements and their Markdown delimiters
+ */
+const INLINE_DELIMITERS: Record<string, string> = {
+    strong: '**',
+    b: '**',
+    em: '*',
+    i: '*',
+    s: '~~',
+    strike: '~~',
+    del: '~~',
+};
+
+/**
+ * Block elements with a Markdown equivalent
+ */
+const MARKDOWN_BLOCK_TAGS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'pre', 'hr', 'table',
+]);
+
+/**
+ * Elements whose content is not exported
+ */
+const HIDDEN_TAGS = new Set(['script', 'style', 'template']);
+
+/**
+ * Escape characters with inline meaning
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<]/g, '\\$&').replace(/&(?=#?\w+;)/g, '\\&');
+}
+
+/**
+ * Escape a line start that would otherwise begin a block
+ * (heading, quote, list item or thematic break)
+ */
+function escapeLineStart(line: string): string {
+    if (/^(#{1,6}(\s|$)|>|[-+](\s|$))/.test(line) || /^=+\s*$/.test(line)) {
+        return `\\${line}`;
+    }
+    return line.replace(/^(\d+)([.)])(\s|$)/, '$1\\$2$3');
+}
+
+/**
+ * Wrap content in delimiters, keeping surrounding whitespace outside
+ * (`** bold **` is not emphasis)
+ */
+function delimit(content: string, delimiter: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+    if (!match[2]) return content;
+    return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+/**
+ * Length of the longest run of a character
+ */
+function longestRun(text: string, char: string): number {
+    let longest = 0;
+    let current = 0;
+    for (const c of text) {
+        current = c === char ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+/**
+ * Format a link or image destination
+ */
+function formatDestination(url: string, title?: string): string {
+    const destination = /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+    return title ? `${destination} "${title.replace(/"/g, '\\"')}"` : destination;
+}
+
+/**
+ * Get the language of a code block from `class="language-x"` (or `lang-x`)
+ * on the `<pre>` or its `<code>`
+ */
+function getCodeLanguage(node: ElementNode): string {
+    const code = node.children.find(
+        (child): child is ElementNode => child.type === NodeType.Element && child.tagName === 'code'
+    );
+    for (const element of [node, code]) {
+        const match = /(?:^|\s)lang(?:uage)?-([^\s]+)/.exec(element?.attributes.class ?? '');
+        if (match) return match[1];
+    }
+    return '';
+}
+
+/**
+ * Text with whitespace kept
+ */
+function getPreformattedText(node: HtmlNode): string {
+    if (node.type === NodeType.Text) return node.content;
+    if (node.type !== NodeType.Element) return '';
+    if (node.tagName === 'br') return '\n';
+    return node.children.map(getPreformattedText).join('');
+}
+
+/**
+ * Get an element's child elements with the given tags
+ */
+function childElements(node: ElementNode, tags: string[]): ElementNode[] {
+    return node.children.filter(
+        (child): child is ElementNode => child.type === NodeType.Element && tags.includes(child.tagName)
+    );
+}
+
+/**
+ * Get the rows of a table
+ */
+function getTableRows(node: ElementNode): ElementNode[] {
+    return childElements(node, ['thead', 'tbody', 'tfoot', 'tr']).flatMap(child =>
+        child.tagName === 'tr' ? [child] : childElements(child, ['tr'])
+    );
+}
+
+/**
+ * Whether a table fits GFM syntax: one cell per column and inline cell
+ * content only
+ */
+function isGfmTable(node: ElementNode): boolean {
+    let simple = getTableRows(node).length > 0;
+
+    walkAst(node.children, child => {
+        if (!simple || child.type !== NodeType.Element) return;
+
+        const { tagName, attributes } = child;
+        if (tagName === 'td' || tagName === 'th') {
+            if ((attributes.colspan ?? '1') !== '1' || (attributes.rowspan ?? '1') !== '1') simple = false;
+        } else if (tagName === 'caption' || (isBlockTag(tagName) && tagName !== 'tr' && tagName !== 'thead' &&
+            tagName !== 'tbody' && tagName !== 'tfoot')) {
+            simple = false;
+        }
+        return simple ? undefined : false;
+    });
+
+    return simple;
+}
+
+/**
+ * Get the column alignment of a GFM table delimiter row
+ */
+function getAlignment(cell: ElementNode | undefined): string {
+    const style = cell?.attributes.style ?? '';
+    const align = cell?.attributes.align ?? /text-align\s*:\s*(\w+)/i.exec(style)?.[1];
+
+    switch (align?.toLowerCase()) {
+        case 'left':
+            return ':---';
+        case 'center':
+            return ':---:';
+        case 'right':
+            return '---:';
+        default:
+            return '---';
+    }
+}
+
+/**
+ * Converts nodes with one set of options
+ */
+class MarkdownConverter {
+    private readonly bullet: string;
+    private readonly rawHtml: boolean;
+    private readonly keepTags: Set<string>;
+
+    constructor(options: HtmlToMarkdownOptions) {
+        this.bullet = options.bullet ?? '-';
+        this.rawHtml = options.rawHtml ?? true;
+        this.keepTags = new Set(options.keepTags ?? []);
+    }
+
+    /**
+     * Convert sibling nodes to blocks; runs of inline content between block
+     * elements become paragraphs
+     */
+    blocks(nodes: HtmlNode[]): string[] {
+        const blocks: string[] = [];
+        let inline = '';
+
+        const flush = () => {
+            const lines = inline.split('\n').map(line => line.replace(/ +/g, ' ').trim()).filter(Boolean);
+            if (lines.length > 0) blocks.push(lines.map(escapeLineStart).join('\\\n'));
+            inline = '';
+        };
+
+        for (const node of nodes) {
+            if (this.isBlock(node)) {
+                flush();
+                blocks.push(...this.block(node as ElementNode));
+            } else {
+                inline += this.inline(node);
+            }
+        }
+        flush();
+
+        return blocks;
+    }
+
+    private isBlock(node: HtmlNode): boolean {
+        return (node.type === NodeType.Element && isBlockTag(node.tagName)) ||
+            (node.type === NodeType.Comment && this.rawHtml);
+    }
+
+    /**
+     * Whether an element is written as raw HTML
+     */
+    private isRaw(node: ElementNode, supported: boolean): boolean {
+        return this.keepTags.has(node.tagName) || (!supported && this.rawHtml);
+    }
+
+    private block(node: HtmlNode): string[] {
+        if (node.type !== NodeType.Element) {
+            return [serializeHtml(node)];
+        }
+
+        const supported = MARKDOWN_BLOCK_TAGS.has(node.tagName) || TRANSPARENT_TAGS.has(node.tagName);
+        if (this.isRaw(node, supported && (node.tagName !== 'table' || isGfmTable(node)))) {
+            return [serializeHtml(node)];
+        }
+
+        switch (node.tagName) {
+            case 'h1':
+            case 'h2':
+            case 'h3':
+            case 'h4':
+            case 'h5':
+            case 'h6': {
+                const text = this.inlineChildren(node).replace(/\s+/g, ' ').trim();
+                return text ? [`${'#'.repeat(Number(node.tagName[1]))} ${text}`] : [];
+            }
+            case 'blockquote': {
+                const content = this.blocks(node.children).join('\n\n');
+                return content ? [content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+            }
+            case 'ul':
+            case 'ol':
+                return [this.list(node)];
+            case 'pre':
+                return [this.codeBlock(node)];
+            case 'hr':
+                return ['---'];
+            case 'table':
+                return isGfmTable(node) ? [this.table(node)] : this.blocks(node.children);
+            default:
+                return this.blocks(node.children);
+        }
+    }
+
+    private inline(node: HtmlNode): string {
+        if (node.type === NodeType.Text) {
+            return escapeMarkdown(node.content.replace(/\s+/g, ' '));
+        }
+        if (node.type !== NodeType.Element) {
+            return node.type === NodeType.Comment && this.rawHtml ? serializeHtml(node) : '';
+        }
+
+        const { tagName, attributes } = node;
+        if (HIDDEN_TAGS.has(tagName)) {
+            return '';
+        }
+
+        const supported = tagName in INLINE_DELIMITERS || TRANSPARENT_TAGS.has(tagName) ||
+            ['a', 'img', 'code', 'br'].includes(tagName);
+        if (this.isRaw(node, supported)) {
+            return serializeHtml(node);
+        }
+
+        switch (tagName) {
+            case 'br':
+                return '\n';
+            case 'img': {
+                if (!attributes.src) return escapeMarkdown(attributes.alt ?? '');
+                return `![${escapeMarkdown(attributes.alt ?? '')}](${formatDestination(attributes.src, attributes.title)})`;
+            }
+            case 'a': {
+                const text = this.inlineChildren(node);
+                if (!attributes.href) return text;
+                return `[${text}](${formatDestination(attributes.href, attributes.title)})`;
+            }
+            case 'code': {
+                const code = getPreformattedText(node).replace(/\s+/g, ' ');
+                if (!code) return '';
+                const fence = '`'.repeat(longestRun(code, '`') + 1);
+                const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+                return `${fence}${padding}${code}${padding}${fence}`;
+            }
+            default: {
+                const content = this.inlineChildren(node);
+                const delimiter = INLINE_DELIMITERS[tagName];
+                return delimiter ? delimit(content, delimiter) : content;
+            }
+        }
+    }
+
+    private inlineChildren(node: ElementNode): string {
+        return node.children.map(child => this.inline(child)).join('');
+    }
+
+    /**
+     * List items; content is indented under the item text so nested lists
+     * and paragraphs stay in the item
+     */
+    private list(node: ElementNode): string {
+        const ordered = node.tagName === 'ol';
+        let number = ordered ? parseInt(node.attributes.start ?? '1', 10) || 1 : 1;
+
+        return childElements(node, ['li', 'ul', 'ol'])
+            .map(child => {
+                // Lists nested directly in a list (without an <li>)
+                if (child.tagName !== 'li') {
+                    return this.list(child).split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+                }
+
+                const marker = ordered ? `${number++}.` : this.bullet;
+                const prefix = `${marker} ${this.taskMarker(child)}`;
+                const indent = ' '.repeat(marker.length + 1);
+
+                const blocks = this.blocks(this.taskContent(child));
+                // Nested lists stay tight; paragraphs need a blank line
+                const content = blocks.reduce((text, block, index) => {
+                    if (index === 0) return block;
+                    return `${text}${/^([-*+]|\d+\.) /.test(block) ? '\n' : '\n\n'}${block}`;
+                }, '');
+
+                return content
+                    .split('\n')
+                    .map((line, index) => (index === 0 ? `${prefix}${line}`.trimEnd() : line ? `${indent}${line}` : line))
+                    .join('\n');
+            })
+            .join('\n');
+    }
+
+    /**
+     * Get the leading checkbox of a task list item
+     */
+    private getCheckbox(item: ElementNode): ElementNode | undefined {
+        const first = item.children.find(
+            child => child.type !== NodeType.Text || child.content.trim() !== ''
+        );
+        return first?.type === NodeType.Element && first.tagName === 'input' && first.attributes.type === 'checkbox'
+            ? first
+            : undefined;
+    }
+
+    private taskMarker(item: ElementNode): string {
+        const checkbox = this.getCheckbox(item);
+        if (!checkbox) return '';
+        return checkbox.attributes.checked !== undefined ? '[x] ' : '[ ] ';
+    }
+
+    private taskContent(item: ElementNode): HtmlNode[] {
+        const checkbox = this.getCheckbox(item);
+        return checkbox ? item.children.filter(child => child !== checkbox) : item.children;
+    }
+
+    /**
+     * Fenced code block; the fence is longer than any backtick run inside
+     */
+    private codeBlock(node: ElementNode): string {
+        const code = getPreformattedText(node).replace(/^\n/, '').replace(/\n$/, '');
+        const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+        return `${fence}${getCodeLanguage(node)}\n${code}\n${fence}`;
+    }
+
+    /**
+     * GFM table; the first row is the header
+     */
+    private table(node: ElementNode): string {
+        const rows = getTableRows(node).map(row => childElements(row, ['th', 'td']));
+        const columns = Math.max(...rows.map(cells => cells.length));
+
+        const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+        const cellText = (cell: ElementNode | undefined) =>
+            cell
+                ? this.inlineChildren(cell).replace(/ +/g, ' ').trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>')
+                : '';
+        const fill = (cells: ElementNode[]) => Array.from({ length: columns }, (_, column) => cells[column]);
+
+        return [
+            formatRow(fill(rows[0]).map(cellText)),
+            formatRow(fill(rows[0]).map(getAlignment)),
+            ...rows.slice(1).map(cells => formatRow(fill(cells).map(cellText))),
+        ].join('\n');
+    }
+}
+
+/**
+ * Convert AST nodes to Markdown
+ *
+ * Produces CommonMark with GitHub Flavored Markdown tables, strikethrough
+ * and task lists. Code block languages are read from `class="language-x"`.
+ * Elements without a Markdown equivalent are written as raw HTML (see
+ * `rawHtml` and `keepTags`); containers such as `<div>` and `<span>` keep
+ * only their content.
+ *
+ * @param nodes - Nodes to convert
+ * @param options - Conversion options
+ * @returns Markdown
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = parseHtml('<h2>Setup</h2><p>Run <code>npm i</code> <sup>1</sup></p>');
+ * htmlToMarkdown(nodes);
+ * // '## Setup\n\nRun `npm i` <sup>1</sup>'
+ * ```
+ */
+export function htmlToMarkdown(nodes: HtmlNode | HtmlNode[], options: HtmlToMarkdownOptions = {}): string {
+    const converter = new MarkdownConverter(options);
+    return converter.blocks(Array.isArray(nodes) ? nodes : [nodes]).join('\n\n');
+}
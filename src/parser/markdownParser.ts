@@ -0,0 +1,905 @@
+/**
+ * Markdown Parser
+ * Converts CommonMark with GitHub Flavored Markdown extensions (tables,
+ * strikethrough, task lists, autolinks) into HTML, so Markdown content
+ * shares the HTML parser, styles, renderers and plugins
+ * @module parser/markdownParser
+ */
+
+import type { ParseResult, ParserOptions } from './types';
+import { parseHtml } from './parser';
+import { isDangerousUrl } from './sanitizer';
+
+/**
+ * A parsed Markdown block
+ */
+type Block =
+    | { type: 'paragraph'; text: string }
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'code'; info: string; text: string }
+    | { type: 'html'; text: string }
+    | { type: 'hr' }
+    | { type: 'quote'; children: Block[] }
+    | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: Block[][] }
+    | { type: 'table'; align: string[]; header: string[]; rows: string[][] };
+
+/**
+ * Link reference definitions by normalized label
+ */
+type References = Map<string, { href: string; title?: string }>;
+
+/**
+ * An inline token; delimiter runs and brackets are resolved into HTML
+ */
+type Token =
+    | { kind: 'text'; value: string }
+    | { kind: 'html'; value: string }
+    | { kind: 'delim'; char: string; count: number; length: number; canOpen: boolean; canClose: boolean }
+    | { kind: 'bracket'; image: boolean; active: boolean; start: number };
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const BLOCK_QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])( +|$)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const REFERENCE_DEFINITION = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\)))?[ \t]*$/;
+
+const HTML_ATTRIBUTE = String.raw`\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>\x60]+|'[^']*'|"[^"]*"))?`;
+const HTML_OPEN_TAG = String.raw`<[a-zA-Z][a-zA-Z0-9-]*(?:${HTML_ATTRIBUTE})*\s*\/?>`;
+const HTML_CLOSE_TAG = String.raw`<\/[a-zA-Z][a-zA-Z0-9-]*\s*>`;
+const INLINE_HTML = new RegExp(`^(?:${HTML_OPEN_TAG}|${HTML_CLOSE_TAG}|<!--[\\s\\S]*?-->)`);
+const HTML_TAG_LINE = new RegExp(`^ {0,3}(?:${HTML_OPEN_TAG}|${HTML_CLOSE_TAG})\\s*$`);
+
+/**
+ * HTML blocks that end at a closing tag (or comment end) rather than a
+ * blank line
+ */
+const HTML_RAW_BLOCKS: Array<[RegExp, RegExp]> = [
+    [/^ {0,3}<(script|pre|style|textarea)(\s|>|$)/i, /<\/(script|pre|style|textarea)>/i],
+    [/^ {0,3}<!--/, /-->/],
+];
+
+/**
+ * Tags that start an HTML block, which can interrupt a paragraph
+ */
+const HTML_BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'base', 'blockquote', 'body', 'caption', 'center', 'col', 'colgroup',
+    'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'iframe', 'legend', 'li', 'link',
+    'main', 'menu', 'nav', 'ol', 'optgroup', 'option', 'p', 'section', 'summary', 'table', 'tbody', 'td',
+    'tfoot', 'th', 'thead', 'title', 'tr', 'ul',
+]);
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+/**
+ * Escape text for HTML; valid entity references are kept
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/&(?!#\d{1,7};|#[xX][0-9a-fA-F]{1,6};|[a-zA-Z][a-zA-Z0-9]{1,31};)/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape an attribute value
+ */
+function escapeAttribute(value: string): string {
+    return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Named character references that can spell out a URL scheme
+ */
+const SCHEME_REFERENCES: Record<string, string> = { colon: ':', tab: '\t', newline: '\n' };
+
+/**
+ * Render a URL attribute; URLs with a script scheme (`javascript:`,
+ * `vbscript:`) are dropped, including schemes spelled with character
+ * references, which the HTML parser decodes
+ */
+function urlAttribute(name: string, url: string): string {
+    const decoded = url.replace(/&(?:#[xX]([0-9a-fA-F]{1,6})|#(\d{1,7})|([a-zA-Z]+));/g, (reference, hex, decimal, named) => {
+        if (named) return SCHEME_REFERENCES[named.toLowerCase()] ?? reference;
+        const code = hex ? parseInt(hex, 16) : Number(decimal);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+    });
+    return isDangerousUrl(decoded) ? '' : ` ${name}="${escapeAttribute(url)}"`;
+}
+
+/**
+ * Remove backslash escapes
+ */
+function unescapeMarkdown(text: string): string {
+    return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+/**
+ * Normalize a link label for reference lookup
+ */
+function normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Replace leading tabs with spaces
+ */
+function expandTabs(line: string): string {
+    return line.replace(/^[ \t]+/, whitespace => whitespace.replace(/\t/g, '    '));
+}
+
+function isBlank(line: string): boolean {
+    return /^\s*$/.test(line);
+}
+
+function getIndent(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+/**
+ * Get the HTML block tag a line starts with (CommonMark HTML block types 6)
+ */
+function getHtmlBlockTag(line: string): string | undefined {
+    const match = /^ {0,3}<\/?([a-zA-Z][a-zA-Z0-9-]*)(\s|\/?>|$)/.exec(line);
+    const tag = match?.[1].toLowerCase();
+    return tag && HTML_BLOCK_TAGS.has(tag) ? tag : undefined;
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+function interruptsParagraph(line: string): boolean {
+    if (FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || BLOCK_QUOTE.test(line)) {
+        return true;
+    }
+    if (getHtmlBlockTag(line) || HTML_RAW_BLOCKS.some(([start]) => start.test(line))) {
+        return true;
+    }
+
+    // Only non-empty lists starting at 1 interrupt a paragraph
+    const item = LIST_ITEM.exec(line);
+    return Boolean(item && line.slice(item[0].length).trim() && (!/\d/.test(item[2]) || parseInt(item[2], 10) === 1));
+}
+
+/**
+ * Split a table row into cells
+ */
+function splitTableRow(line: string): string[] {
+    const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Get a column alignment from a table delimiter cell
+ */
+function getColumnAlignment(cell: string): string {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    return left ? 'left' : '';
+}
+
+/**
+ * Maximum nesting of block quotes and lists; deeper markers are kept as
+ * text, so hostile input can't exhaust the stack
+ */
+const MAX_NESTING_DEPTH = 100;
+
+/**
+ * Splits Markdown lines into blocks
+ */
+class BlockParser {
+    constructor(private readonly references: References) {}
+
+    /**
+     * Parse lines into blocks
+     * @param depth - Number of enclosing block quotes and list items
+     * @returns The blocks and whether any of them are separated by blank lines
+     */
+    parse(lines: string[], depth: number = 0): { blocks: Block[]; spaced: boolean } {
+        const blocks: Block[] = [];
+        let spaced = false;
+        let blankBefore = false;
+        let i = 0;
+
+        while (i < lines.length) {
+            if (isBlank(lines[i])) {
+                blankBefore = blocks.length > 0;
+                i++;
+                continue;
+            }
+
+            const start = i;
+            i = this.parseBlock(lines, i, blocks, depth);
+            if (blankBefore && i > start) spaced = true;
+            blankBefore = false;
+        }
+
+        return { blocks, spaced };
+    }
+
+    /**
+     * Parse the block starting at a line
+     * @returns Index of the next line
+     */
+    private parseBlock(lines: string[], i: number, blocks: Block[], depth: number): number {
+        const line = lines[i];
+
+        const fence = FENCE.exec(line);
+        if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+            return this.parseFencedCode(lines, i, fence, blocks);
+        }
+
+        const heading = ATX_HEADING.exec(line);
+        if (heading) {
+            const text = heading[2].trim().replace(/(^|[ \t]+)#+$/, '').trim();
+            blocks.push({ type: 'heading', level: heading[1].length, text });
+            return i + 1;
+        }
+
+        if (THEMATIC_BREAK.test(line)) {
+            blocks.push({ type: 'hr' });
+            return i + 1;
+        }
+
+        if (getIndent(line) >= 4) {
+            return this.parseIndentedCode(lines, i, blocks);
+        }
+
+        if (depth < MAX_NESTING_DEPTH && BLOCK_QUOTE.test(line)) {
+            return this.parseQuote(lines, i, blocks, depth);
+        }
+
+        if (depth < MAX_NESTING_DEPTH && LIST_ITEM.test(line)) {
+            return this.parseList(lines, i, blocks, depth);
+        }
+
+        const rawBlock = HTML_RAW_BLOCKS.find(([startPattern]) => startPattern.test(line));
+        if (rawBlock || getHtmlBlockTag(line) || HTML_TAG_LINE.test(line)) {
+            return this.parseHtmlBlock(lines, i, rawBlock?.[1], blocks);
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+            const next = this.parseTable(lines, i, blocks);
+            if (next > i) return next;
+        }
+
+        return this.parseParagraph(lines, i, blocks);
+    }
+
+    private parseFencedCode(lines: string[], i: number, fence: RegExpExecArray, blocks: Block[]): number {
+        const indent = fence[1].length;
+        const marker = fence[2];
+        const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+        const content: string[] = [];
+
+        i++;
+        while (i < lines.length && !closing.test(lines[i])) {
+            // Remove the opening fence's indentation
+            const line = lines[i];
+            content.push(line.slice(Math.min(indent, getIndent(line))));
+            i++;
+        }
+
+        blocks.push({ type: 'code', info: unescapeMarkdown(fence[3].trim()), text: content.join('\n') });
+        return i + 1;
+    }
+
+    private parseIndentedCode(lines: string[], i: number, blocks: Block[]): number {
+        const content: string[] = [];
+
+        while (i < lines.length && (isBlank(lines[i]) || getIndent(lines[i]) >= 4)) {
+            content.push(lines[i].slice(4));
+            i++;
+        }
+        while (content.length > 0 && isBlank(content[content.length - 1])) {
+            content.pop();
+        }
+
+        blocks.push({ type: 'code', info: '', text: content.join('\n') });
+        return i;
+    }
+
+    private parseQuote(lines: string[], i: number, blocks: Block[], depth: number): number {
+        const content: string[] = [];
+
+        while (i < lines.length) {
+            const line = lines[i];
+            const marker = BLOCK_QUOTE.exec(line);
+            if (marker) {
+                content.push(line.slice(marker[0].length));
+            } else if (
+                // Lazy continuation of a paragraph
+                !isBlank(line) && content.length > 0 && !isBlank(content[content.length - 1]) &&
+                !interruptsParagraph(line) && !LIST_ITEM.test(line)
+            ) {
+                content.push(line);
+            } else {
+                break;
+            }
+            i++;
+        }
+
+        blocks.push({ type: 'quote', children: this.parse(content, depth + 1).blocks });
+        return i;
+    }
+
+    private parseList(lines: string[], i: number, blocks: Block[], depth: number): number {
+        const first = LIST_ITEM.exec(lines[i])!;
+        const ordered = /\d/.test(first[2]);
+        const delimiter = first[2].slice(-1);
+        const items: Block[][] = [];
+        let tight = true;
+
+        while (i < lines.length) {
+            const item = LIST_ITEM.exec(lines[i]);
+            if (!item || /\d/.test(item[2]) !== ordered || item[2].slice(-1) !== delimiter) break;
+            if (THEMATIC_BREAK.test(lines[i])) break;
+
+            const markerWidth = item[1].length + item[2].length;
+            const emptyStart = isBlank(lines[i].slice(markerWidth));
+            // Content starting with 5+ spaces is indented code after one space
+            const padding = emptyStart || item[3].length > 4 ? 1 : item[3].length;
+            const offset = markerWidth + padding;
+            const content = [emptyStart ? '' : lines[i].slice(offset)];
+
+            i++;
+            while (i < lines.length) {
+                const line = lines[i];
+                if (isBlank(line)) {
+                    // An item can begin with at most one blank line
+                    if (emptyStart && content.length === 1) break;
+                    content.push('');
+                } else if (getIndent(line) >= offset) {
+                    content.push(line.slice(offset));
+                } else if (
+                    // Lazy continuation of a paragraph
+                    !isBlank(content[content.length - 1]) && !interruptsParagraph(line) && !LIST_ITEM.test(line)
+                ) {
+                    content.push(line.trimStart());
+                } else {
+                    break;
+                }
+                i++;
+            }
+
+            // Blank lines after the item belong to the list only if it continues
+            let trailing = 0;
+            while (content.length > 1 && content[content.length - 1] === '') {
+                content.pop();
+                trailing++;
+            }
+
+            const parsed = this.parse(content, depth + 1);
+            items.push(parsed.blocks);
+            if (parsed.spaced) tight = false;
+
+            const next = LIST_ITEM.exec(lines[i] ?? '');
+            const continues = next && /\d/.test(next[2]) === ordered && next[2].slice(-1) === delimiter &&
+                !THEMATIC_BREAK.test(lines[i]);
+            if (trailing > 0) {
+                if (!continues) {
+                    i -= trailing;
+                    break;
+                }
+                tight = false;
+            }
+        }
+
+        blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items });
+        return i;
+    }
+
+    private parseHtmlBlock(lines: string[], i: number, end: RegExp | undefined, blocks: Block[]): number {
+        const content: string[] = [];
+
+        while (i < lines.length) {
+            const line = lines[i];
+            if (!end && isBlank(line)) break;
+            content.push(line);
+            i++;
+            if (end?.test(line)) break;
+        }
+
+        blocks.push({ type: 'html', text: content.join('\n') });
+        return i;
+    }
+
+    private parseTable(lines: string[], i: number, blocks: Block[]): number {
+        const header = splitTableRow(lines[i]);
+        const delimiters = splitTableRow(lines[i + 1]);
+        if (header.length !== delimiters.length) {
+            return i;
+        }
+
+        const rows: string[][] = [];
+        let next = i + 2;
+        while (next < lines.length && !isBlank(lines[next]) && !interruptsParagraph(lines[next])) {
+            const cells = splitTableRow(lines[next]);
+            rows.push(header.map((_, column) => cells[column] ?? ''));
+            next++;
+        }
+
+        blocks.push({ type: 'table', align: delimiters.map(getColumnAlignment), header, rows });
+        return next;
+    }
+
+    private parseParagraph(lines: string[], i: number, blocks: Block[]): number {
+        const content: string[] = [];
+
+        while (i < lines.length && !isBlank(lines[i])) {
+            const line = lines[i];
+            if (content.length > 0) {
+                const underline = SETEXT_UNDERLINE.exec(line);
+                if (underline && this.hasText(content)) {
+                    blocks.push({
+                        type: 'heading',
+                        level: underline[1][0] === '=' ? 1 : 2,
+                        text: this.takeReferences(content).join('\n').trim(),
+                    });
+                    return i + 1;
+                }
+                if (interruptsParagraph(line)) break;
+            }
+            content.push(line.trimStart());
+            i++;
+        }
+
+        const text = this.takeReferences(content).join('\n').trim();
+        if (text) {
+            blocks.push({ type: 'paragraph', text });
+        }
+        return i;
+    }
+
+    private hasText(content: string[]): boolean {
+        return content.some(line => !REFERENCE_DEFINITION.test(line));
+    }
+
+    /**
+     * Record link reference definitions at the start of a paragraph
+     * @returns The remaining lines
+     */
+    private takeReferences(content: string[]): string[] {
+        let count = 0;
+        for (const line of content) {
+            const definition = REFERENCE_DEFINITION.exec(line);
+            if (!definition) break;
+
+            const label = normalizeLabel(definition[1]);
+            if (!this.references.has(label)) {
+                const href = definition[2].replace(/^<(.*)>$/, '$1');
+                const title = definition[3]?.slice(1, -1);
+                this.references.set(label, {
+                    href: unescapeMarkdown(href),
+                    title: title === undefined ? undefined : unescapeMarkdown(title),
+                });
+            }
+            count++;
+        }
+        return content.slice(count);
+    }
+}
+
+/**
+ * Converts inline Markdown to HTML
+ */
+class InlineParser {
+    constructor(private readonly references: References) {}
+
+    render(text: string): string {
+        const tokens: Token[] = [];
+        let buffer = '';
+        let i = 0;
+
+        const pushText = () => {
+            if (buffer) tokens.push({ kind: 'text', value: buffer });
+            buffer = '';
+        };
+        const pushHtml = (value: string) => {
+            pushText();
+            tokens.push({ kind: 'html', value });
+        };
+
+        while (i < text.length) {
+            const char = text[i];
+
+            if (char === '\\') {
+                if (text[i + 1] === '\n') {
+                    pushHtml('<br>');
+                    buffer += '\n';
+                    i += 2;
+                    while (text[i] === ' ') i++;
+                } else if (i + 1 < text.length && ASCII_PUNCTUATION.test(text[i + 1])) {
+                    // An escaped `&` never starts an entity
+                    if (text[i + 1] === '&') {
+                        pushHtml('&amp;');
+                    } else {
+                        buffer += text[i + 1];
+                    }
+                    i += 2;
+                } else {
+                    buffer += char;
+                    i++;
+                }
+                continue;
+            }
+
+            if (char === '\n') {
+                // Two or more trailing spaces make a hard break
+                const hard = / {2,}$/.test(buffer);
+                buffer = buffer.replace(/ +$/, '');
+                if (hard) pushHtml('<br>');
+                buffer += '\n';
+                i++;
+                while (text[i] === ' ') i++;
+                continue;
+            }
+
+            if (char === '`') {
+                const run = /^`+/.exec(text.slice(i))![0];
+                const close = this.findClosingBackticks(text, i + run.length, run.length);
+                if (close < 0) {
+                    buffer += run;
+                    i += run.length;
+                } else {
+                    let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+                    if (/^ .*[^ ].* $/s.test(code)) code = code.slice(1, -1);
+                    pushHtml(`<code>${escapeText(code)}</code>`);
+                    i = close + run.length;
+                }
+                continue;
+            }
+
+            if (char === '*' || char === '_' || char === '~') {
+                const run = new RegExp(`^\\${char}+`).exec(text.slice(i))![0];
+                pushText();
+                tokens.push(this.createDelimiter(text, i, run));
+                i += run.length;
+                continue;
+            }
+
+            if (char === '!' && text[i + 1] === '[') {
+                pushText();
+                tokens.push({ kind: 'bracket', image: true, active: true, start: i + 2 });
+                i += 2;
+                continue;
+            }
+
+            if (char === '[') {
+                pushText();
+                tokens.push({ kind: 'bracket', image: false, active: true, start: i + 1 });
+                i++;
+                continue;
+            }
+
+            if (char === ']') {
+                pushText();
+                i = this.closeBracket(text, i, tokens);
+                continue;
+            }
+
+            if (char === '<') {
+                const rest = text.slice(i);
+                const autolink = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/.exec(rest);
+                const email = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9-]+)*)>/.exec(rest);
+                const html = INLINE_HTML.exec(rest);
+                if (autolink || email) {
+                    const target = (autolink ?? email)![1];
+                    const href = autolink ? target : `mailto:${target}`;
+                    pushHtml(`<a${urlAttribute('href', href)}>${escapeText(target)}</a>`);
+                    i += (autolink ?? email)![0].length;
+                    continue;
+                }
+                if (html) {
+                    pushHtml(html[0]);
+                    i += html[0].length;
+                    continue;
+                }
+            }
+
+            // GFM extended autolinks start a word
+            if ((char === 'h' || char === 'w') && (i === 0 || /[\s*_~(]/.test(text[i - 1]))) {
+                const url = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~'")\]]/.exec(text.slice(i));
+                if (url) {
+                    const href = url[0].startsWith('www.') ? `http://${url[0]}` : url[0];
+                    pushHtml(`<a href="${escapeAttribute(href)}">${escapeText(url[0])}</a>`);
+                    i += url[0].length;
+                    continue;
+                }
+            }
+
+            buffer += char;
+            i++;
+        }
+
+        pushText();
+        this.resolveEmphasis(tokens);
+        return this.toHtml(tokens);
+    }
+
+    private findClosingBackticks(text: string, from: number, length: number): number {
+        const pattern = /`+/g;
+        pattern.lastIndex = from;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            if (match[0].length === length) return match.index;
+        }
+        return -1;
+    }
+
+    /**
+     * Create a delimiter run token with CommonMark flanking rules
+     */
+    private createDelimiter(text: string, index: number, run: string): Token {
+        const before = index > 0 ? text[index - 1] : ' ';
+        const after = text[index + run.length] ?? ' ';
+        const isSpace = (c: string) => /\s/.test(c);
+        const isPunctuation = (c: string) => ASCII_PUNCTUATION.test(c) || /\p{P}/u.test(c);
+
+        const leftFlanking = !isSpace(after) && (!isPunctuation(after) || isSpace(before) || isPunctuation(before));
+        const rightFlanking = !isSpace(before) && (!isPunctuation(before) || isSpace(after) || isPunctuation(after));
+        const char = run[0];
+
+        // Intraword underscores are not emphasis
+        const canOpen = char === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking;
+        const canClose = char === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking;
+
+        return { kind: 'delim', char, count: run.length, length: run.length, canOpen, canClose };
+    }
+
+    /**
+     * Close the nearest bracket as a link or image
+     * @returns Index after the link
+     */
+    private closeBracket(text: string, index: number, tokens: Token[]): number {
+        let opener = -1;
+        for (let j = tokens.length - 1; j >= 0; j--) {
+            if (tokens[j].kind === 'bracket') {
+                opener = j;
+                break;
+            }
+        }
+
+        const bracket = tokens[opener] as Extract<Token, { kind: 'bracket' }> | undefined;
+        if (!bracket || !bracket.active) {
+            if (bracket) tokens[opener] = { kind: 'text', value: '[' };
+            tokens.push({ kind: 'text', value: ']' });
+            return index + 1;
+        }
+
+        const label = text.slice(bracket.start, index);
+        const target = this.parseLinkTarget(text, index + 1, label);
+        if (!target) {
+            tokens[opener] = { kind: 'text', value: bracket.image ? '![' : '[' };
+            tokens.push({ kind: 'text', value: ']' });
+            return index + 1;
+        }
+
+        const content = tokens.splice(opener + 1);
+        tokens.pop();
+        this.resolveEmphasis(content);
+        const html = this.toHtml(content);
+        const title = target.title === undefined ? '' : ` title="${escapeAttribute(target.title)}"`;
+
+        if (bracket.image) {
+            const alt = html.replace(/<[^>]*>/g, '');
+            tokens.push({ kind: 'html', value: `<img${urlAttribute('src', target.href)} alt="${alt.replace(/"/g, '&quot;')}"${title}>` });
+        } else {
+            tokens.push({ kind: 'html', value: `<a${urlAttribute('href', target.href)}${title}>${html}</a>` });
+            // No links inside links
+            for (const token of tokens) {
+                if (token.kind === 'bracket' && !token.image) token.active = false;
+            }
+        }
+
+        return target.end;
+    }
+
+    /**
+     * Parse an inline `(destination "title")` or a reference after `]`
+     */
+    private parseLinkTarget(
+        text: string,
+        index: number,
+        label: string
+    ): { href: string; title?: string; end: number } | null {
+        const inline = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?\s*\)/
+            .exec(text.slice(index));
+        if (inline) {
+            return {
+                href: unescapeMarkdown(inline[1] ?? inline[2] ?? ''),
+                title: inline[3] === undefined ? undefined : unescapeMarkdown(inline[3].slice(1, -1)),
+                end: index + inline[0].length,
+            };
+        }
+
+        // Full `[text][label]`, collapsed `[text][]` and shortcut `[text]` references
+        const full = /^\[((?:[^\]\\]|\\.)*)\]/.exec(text.slice(index));
+        const reference = this.references.get(normalizeLabel(full?.[1] || label));
+        if (!reference) {
+            return null;
+        }
+        return { ...reference, end: index + (full ? full[0].length : 0) };
+    }
+
+    /**
+     * Match delimiter runs into emphasis, strong emphasis and strikethrough
+     */
+    private resolveEmphasis(tokens: Token[]): void {
+        let i = 0;
+        while (i < tokens.length) {
+            const closer = tokens[i];
+            if (closer.kind !== 'delim' || !closer.canClose || closer.count === 0) {
+                i++;
+                continue;
+            }
+
+            const openerIndex = this.findOpener(tokens, i, closer);
+            if (openerIndex < 0) {
+                i++;
+                continue;
+            }
+
+            const opener = tokens[openerIndex] as Extract<Token, { kind: 'delim' }>;
+            const use = closer.char === '~' ? closer.count : Math.min(2, opener.count, closer.count);
+            const tag = closer.char === '~' ? 'del' : use === 2 ? 'strong' : 'em';
+            opener.count -= use;
+            closer.count -= use;
+
+            // Unmatched delimiters inside are literal
+            for (let j = openerIndex + 1; j < i; j++) {
+                const token = tokens[j];
+                if (token.kind === 'delim') {
+                    tokens[j] = { kind: 'text', value: token.char.repeat(token.count) };
+                }
+            }
+
+            tokens.splice(i, 0, { kind: 'html', value: `</${tag}>` });
+            tokens.splice(openerIndex + 1, 0, { kind: 'html', value: `<${tag}>` });
+            i += 2;
+            if (closer.count === 0) i++;
+        }
+    }
+
+    private findOpener(tokens: Token[], closerIndex: number, closer: Extract<Token, { kind: 'delim' }>): number {
+        for (let j = closerIndex - 1; j >= 0; j--) {
+            const opener = tokens[j];
+            if (opener.kind !== 'delim' || opener.char !== closer.char || !opener.canOpen || opener.count === 0) {
+                continue;
+            }
+
+            if (closer.char === '~') {
+                // GFM strikethrough needs matching runs of one or two
+                if (opener.count === closer.count && opener.count <= 2) return j;
+                continue;
+            }
+
+            // The "rule of 3" for runs that can both open and close
+            const both = opener.canClose || closer.canOpen;
+            if (both && (opener.length + closer.length) % 3 === 0 && !(opener.length % 3 === 0 && closer.length % 3 === 0)) {
+                continue;
+            }
+            return j;
+        }
+        return -1;
+    }
+
+    private toHtml(tokens: Token[]): string {
+        return tokens
+            .map(token => {
+                switch (token.kind) {
+                    case 'text':
+                        return escapeText(token.value);
+                    case 'html':
+                        return token.value;
+                    case 'delim':
+                        return token.char.repeat(token.count);
+                    case 'bracket':
+                        return token.image ? '![' : '[';
+                }
+            })
+            .join('');
+    }
+}
+
+/**
+ * Render blocks to HTML
+ */
+function renderBlocks(blocks: Block[], inline: InlineParser, tight = false): string {
+    return blocks.map(block => renderBlock(block, inline, tight)).join('\n');
+}
+
+function renderBlock(block: Block, inline: InlineParser, tight: boolean): string {
+    switch (block.type) {
+        case 'paragraph': {
+            const content = inline.render(block.text);
+            return tight ? content : `<p>${content}</p>`;
+        }
+        case 'heading':
+            return `<h${block.level}>${inline.render(block.text)}</h${block.level}>`;
+        case 'code': {
+            const language = block.info.split(/\s+/)[0];
+            const className = language ? ` class="language-${escapeAttribute(language)}"` : '';
+            return `<pre><code${className}>${escapeText(block.text)}</code></pre>`;
+        }
+        case 'html':
+            return block.text;
+        case 'hr':
+            return '<hr>';
+        case 'quote':
+            return `<blockquote>\n${renderBlocks(block.children, inline)}\n</blockquote>`;
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+            const items = block.items.map(item => `<li>${renderListItem(item, inline, block.tight)}</li>`);
+            return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+        }
+        case 'table': {
+            const cell = (tag: string, content: string, column: number) => {
+                const align = block.align[column] ? ` style="text-align: ${block.align[column]}"` : '';
+                return `<${tag}${align}>${inline.render(content)}</${tag}>`;
+            };
+            const header = `<thead><tr>${block.header.map((content, column) => cell('th', content, column)).join('')}</tr></thead>`;
+            const rows = block.rows.map(row => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`);
+            return `<table>${header}${rows.length > 0 ? `<tbody>${rows.join('')}</tbody>` : ''}</table>`;
+        }
+    }
+}
+
+/**
+ * Render a list item, turning a leading `[ ]` or `[x]` into a checkbox
+ */
+function renderListItem(blocks: Block[], inline: InlineParser, tight: boolean): string {
+    const first = blocks[0];
+    const task = first?.type === 'paragraph' ? /^\[([ xX])\][ \t]+(?=\S)/.exec(first.text) : null;
+    if (!task || first.type !== 'paragraph') {
+        return renderBlocks(blocks, inline, tight);
+    }
+
+    const checkbox = `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> `;
+    const rest = [{ ...first, text: first.text.slice(task[0].length) }, ...blocks.slice(1)];
+    const content = renderBlocks(rest, inline, tight);
+    return tight ? `${checkbox}${content}` : content.replace(/^<p>/, `<p>${checkbox}`);
+}
+
+/**
+ * Convert Markdown to HTML
+ *
+ * Supports CommonMark blocks and inlines (including raw HTML, which is
+ * passed through) and the GitHub Flavored Markdown extensions: tables,
+ * strikethrough, task list items and extended autolinks.
+ *
+ * @param markdown - Markdown source
+ * @returns HTML string
+ *
+ * @example
+ * ```typescript
+ * markdownToHtml('# Notes\n\n- [x] Ship *it*');
+ * // '<h1>Notes</h1>\n<ul>\n<li><input type="checkbox" disabled checked> Ship <em>it</em></li>\n</ul>'
+ * ```
+ */
+export function markdownToHtml(markdown: string): string {
+    const references: References = new Map();
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+    const { blocks } = new BlockParser(references).parse(lines);
+    return renderBlocks(blocks, new InlineParser(references));
+}
+
+/**
+ * Parse Markdown into the HTML AST
+ *
+ * The result is the same as parsing the equivalent HTML, so styles,
+ * renderers and plugins apply to Markdown content unchanged.
+ *
+ * @param markdown - Markdown source
+ * @param options - Parser options
+ * @returns Parse result with nodes and any errors
+ */
+export function parseMarkdown(markdown: string, options: Partial<ParserOptions> = {}): ParseResult {
+    return parseHtml(markdownToHtml(markdown), options);
+}
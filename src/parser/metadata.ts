@@ -0,0 +1,147 @@
+/**
+ * Document Metadata
+ * Separates `<head>` content of full documents into a metadata object
+ * @module parser/metadata
+ */
+
+import type { HtmlNode, ElementNode, DocumentMetadata } from './types';
+import { NodeType } from './types';
+
+/**
+ * Elements that only carry metadata
+ */
+const METADATA_TAGS = new Set(['title', 'meta', 'link', 'base']);
+
+/**
+ * Document structure elements whose children are kept
+ */
+const DOCUMENT_WRAPPER_TAGS = new Set(['html', 'head', 'body']);
+
+/**
+ * Create empty metadata
+ *
+ * @returns Metadata with no values
+ */
+export function createEmptyMetadata(): DocumentMetadata {
+    return { openGraph: {}, twitter: {}, meta: {} };
+}
+
+/**
+ * Get an element's text with whitespace collapsed
+ */
+function getCollapsedText(node: ElementNode): string {
+    const text = node.children
+        .map(child => (child.type === NodeType.Text ? child.content : ''))
+        .join('');
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Record a `<meta>` element
+ */
+function readMeta(attributes: ElementNode['attributes'], metadata: DocumentMetadata): void {
+    if (attributes.charset) {
+        metadata.charset ??= attributes.charset.trim();
+        return;
+    }
+
+    const content = attributes.content;
+    if (content === undefined) return;
+
+    const httpEquiv = attributes['http-equiv']?.toLowerCase();
+    if (httpEquiv === 'content-type') {
+        const charset = /charset=([^;\s]+)/i.exec(content);
+        if (charset) metadata.charset ??= charset[1];
+        return;
+    }
+
+    // Open Graph uses `property`, Twitter cards usually `name`
+    const name = (attributes.property ?? attributes.name)?.trim().toLowerCase();
+    if (!name) return;
+
+    if (name.startsWith('og:')) {
+        metadata.openGraph[name.slice(3)] ??= content;
+    } else if (name.startsWith('twitter:')) {
+        metadata.twitter[name.slice(8)] ??= content;
+    } else {
+        metadata.meta[name] ??= content;
+        if (name === 'description') metadata.description ??= content;
+    }
+}
+
+/**
+ * Record a metadata element
+ */
+function readMetadataElement(node: ElementNode, metadata: DocumentMetadata): void {
+    const { attributes } = node;
+
+    switch (node.tagName) {
+        case 'title':
+            metadata.title ??= getCollapsedText(node);
+            break;
+        case 'meta':
+            readMeta(attributes, metadata);
+            break;
+        case 'base':
+            if (attributes.href) metadata.baseHref ??= attributes.href;
+            break;
+        case 'link': {
+            const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+            if (rel.includes('canonical') && attributes.href) {
+                metadata.canonical ??= attributes.href;
+            }
+            break;
+        }
+    }
+}
+
+/**
+ * Separate document metadata from content
+ *
+ * Unwraps `<html>`, `<head>` and `<body>`, moving their children to the top
+ * level, and removes top-level `<title>`, `<meta>`, `<link>` and `<base>`
+ * elements into the metadata. `lang` and `dir` are read from `<html>` (or
+ * `<body>`). Fragments without these elements are returned unchanged.
+ *
+ * @param nodes - Root nodes
+ * @returns Content nodes and metadata
+ *
+ * @example
+ * ```typescript
+ * const { metadata } = extractMetadata(
+ *   parseHtml('<html lang="en"><head><title>Post</title></head><body><p>Hi</p></body></html>').nodes
+ * );
+ * // { title: 'Post', lang: 'en', ... }
+ * ```
+ */
+export function extractMetadata(nodes: HtmlNode[]): { nodes: HtmlNode[]; metadata: DocumentMetadata } {
+    const metadata = createEmptyMetadata();
+    const content: HtmlNode[] = [];
+
+    function visit(list: HtmlNode[]): void {
+        for (const node of list) {
+            if (node.type !== NodeType.Element) {
+                content.push(node);
+            } else if (DOCUMENT_WRAPPER_TAGS.has(node.tagName)) {
+                if (node.tagName !== 'head') {
+                    metadata.lang ??= node.attributes.lang;
+                    metadata.dir ??= node.attributes.dir;
+                }
+                visit(node.children);
+            } else if (METADATA_TAGS.has(node.tagName)) {
+                readMetadataElement(node, metadata);
+            } else {
+                content.push(node);
+            }
+        }
+    }
+
+    visit(nodes);
+
+    // Unwrapped children become roots
+    for (const node of content) {
+        node.parent = undefined;
+    }
+
+    return { nodes: content, metadata };
+}
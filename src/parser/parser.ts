@@ -4,17 +4,22 @@
  * @module parser/parser
  */
 
-import { Parser, DomHandler } from 'htmlparser2';
 import type {
     HtmlNode,
     ElementNode,
     TextNode,
+    CommentNode,
     ParseResult,
     ParseError,
     ParserOptions,
     HtmlAttributes,
+    SourceRange,
 } from './types';
-import { NodeType } from './types';
+import { NodeType, hasFatalParseError, isInlineTag } from './types';
+import { sanitizeNodes, sanitizeStylesheets } from './sanitizer';
+import { assignNodeKeys } from './keys';
+import { extractMetadata, createEmptyMetadata } from './metadata';
+import { SourceLocator, DiagnosticsCollector, SourceHandler, SourceParser } from './diagnostics';
 
 /**
  * Default parser options
@@ -27,18 +32,31 @@ const DEFAULT_OPTIONS: ParserOptions = {
 };
 
 /**
- * Generate a unique key for React reconciliation
+ * State collected while converting a single document
  */
-let keyCounter = 0;
-function generateKey(): string {
-    return `html-node-${++keyCounter}`;
+interface ConvertContext {
+    /** Contents of `<style>` blocks */
+    stylesheets: string[];
+    /** Maps source offsets to lines and columns */
+    locator: SourceLocator;
+    /** DOM elements that are still open (streaming parses only) */
+    openElements: ReadonlySet<unknown>;
+    /** HTML parsed so far (for raw content) */
+    source: string;
+    /** Elements whose content is kept as raw text */
+    rawTextTags: ReadonlySet<string>;
+    /** The `<!DOCTYPE>` declaration, without `<!DOCTYPE` and `>` */
+    doctype?: string;
 }
 
 /**
- * Reset key counter (useful for testing)
+ * Reset key counter
+ *
+ * @deprecated Keys are derived from the tree path and content of each
+ * parse (see `assignNodeKeys`), so there is no counter to reset
  */
 export function resetKeyCounter(): void {
-    keyCounter = 0;
+    // No-op, kept for compatibility
 }
 
 /**
@@ -53,6 +71,16 @@ function normalizeText(text: string, preserveWhitespace: boolean = false): strin
     return text.replace(/\s+/g, ' ');
 }
 
+/**
+ * Check if a node is inside a `<pre>`, where whitespace is kept
+ */
+function isPreformatted(parent: ElementNode | undefined): boolean {
+    for (let element = parent; element; element = element.parent) {
+        if (element.tagName === 'pre') return true;
+    }
+    return false;
+}
+
 /**
  * Check if text is only whitespace
  */
@@ -60,6 +88,26 @@ function isWhitespaceOnly(text: string): boolean {
     return /^\s*$/.test(text);
 }
 
+/**
+ * Check if a node flows within text, so whitespace next to it is kept
+ */
+function isInlineNode(node: HtmlNode | undefined): boolean {
+    if (!node) return false;
+    return node.type === NodeType.Text ||
+        (node.type === NodeType.Element && (isInlineTag(node.tagName) || node.tagName === 'img'));
+}
+
+/**
+ * Get the source range of an htmlparser2 DOM node
+ */
+function getPosition(node: any, locator: SourceLocator): SourceRange | undefined {
+    if (typeof node.startIndex !== 'number') {
+        return undefined;
+    }
+    const end = typeof node.endIndex === 'number' ? node.endIndex + 1 : node.startIndex;
+    return locator.range(node.startIndex, end);
+}
+
 /**
  * Parse HTML attributes from htmlparser2 format
  */
@@ -71,29 +119,53 @@ function parseAttributes(attrs: Record<string, string>): HtmlAttributes {
     return result;
 }
 
+/**
+ * Get the unparsed source between an element's start and end tags
+ */
+function getRawContent(node: any, source: string): { content: string; start: number; end: number } | null {
+    const children = node.children || [];
+    if (children.length === 0) {
+        return null;
+    }
+    const start = children[0].startIndex;
+    const end = children[children.length - 1].endIndex + 1;
+    return { content: source.slice(start, end), start, end };
+}
+
+/**
+ * Check if a script element holds JSON-LD structured data
+ */
+function isJsonLdScript(node: any): boolean {
+    return (node.attribs?.type ?? '').trim().toLowerCase() === 'application/ld+json';
+}
+
+/**
+ * Check if an element holds raw content (kept as-is)
+ */
+function isRawContentElement(node: ElementNode, rawTextTags: ReadonlySet<string>): boolean {
+    return node.tagName === 'script' || node.tagName === 'template' || rawTextTags.has(node.tagName);
+}
+
 /**
  * Convert htmlparser2 DOM node to our AST format
  */
 function convertNode(
     node: any,
     parent: ElementNode | undefined,
-    options: ParserOptions
+    options: ParserOptions,
+    context: ConvertContext
 ): HtmlNode | null {
     if (node.type === 'text') {
         const content = options.normalizeWhitespace
-            ? normalizeText(node.data)
+            ? normalizeText(node.data, isPreformatted(parent))
             : node.data;
 
-        // Skip empty text nodes
-        if (isWhitespaceOnly(content) && options.normalizeWhitespace) {
-            return null;
-        }
-
         const textNode: TextNode = {
             type: NodeType.Text,
-            key: generateKey(),
+            key: '', // Assigned by assignNodeKeys
             content,
             parent,
+            position: getPosition(node, context.locator),
         };
         return textNode;
     }
@@ -101,18 +173,35 @@ function convertNode(
     if (node.type === 'tag' || node.type === 'script' || node.type === 'style') {
         const tagName = node.name.toLowerCase();
 
-        // Skip script and style tags
-        if (tagName === 'script' || tagName === 'style') {
+        // Collect stylesheet contents, but don't render them
+        if (tagName === 'style') {
+            const css = (node.children || [])
+                .map((child: any) => child.data ?? '')
+                .join('');
+            if (css.trim()) {
+                context.stylesheets.push(css);
+            }
+            return null;
+        }
+
+        // Skip scripts and templates, except JSON-LD data and template
+        // content when raw content is kept
+        if (tagName === 'script' && !(options.preserveRawContent && isJsonLdScript(node))) {
+            return null;
+        }
+        if (tagName === 'template' && !options.preserveRawContent) {
             return null;
         }
 
         const elementNode: ElementNode = {
             type: NodeType.Element,
-            key: generateKey(),
+            key: '', // Assigned by assignNodeKeys
             tagName,
             attributes: parseAttributes(node.attribs || {}),
             children: [],
             parent,
+            position: getPosition(node, context.locator),
+            ...(context.openElements.has(node) && { open: true }),
         };
 
         // Parse class names
@@ -122,10 +211,25 @@ function convertNode(
                 .filter(Boolean);
         }
 
+        // Raw text elements keep their source as a single text child
+        if (isRawContentElement(elementNode, context.rawTextTags)) {
+            const raw = getRawContent(node, context.source);
+            if (raw?.content) {
+                elementNode.children.push({
+                    type: NodeType.Text,
+                    key: '', // Assigned by assignNodeKeys
+                    content: raw.content,
+                    parent: elementNode,
+                    position: context.locator.range(raw.start, raw.end),
+                });
+            }
+            return elementNode;
+        }
+
         // Process children
         if (node.children) {
             for (const child of node.children) {
-                const convertedChild = convertNode(child, elementNode, options);
+                const convertedChild = convertNode(child, elementNode, options, context);
                 if (convertedChild) {
                     elementNode.children.push(convertedChild);
                 }
@@ -136,7 +240,22 @@ function convertNode(
     }
 
     if (node.type === 'comment') {
-        // Skip comments - they don't render
+        // Comments don't render; keep them only when requested
+        if (!options.preserveComments) {
+            return null;
+        }
+        const commentNode: CommentNode = {
+            type: NodeType.Comment,
+            key: '', // Assigned by assignNodeKeys
+            content: node.data,
+            parent,
+            position: getPosition(node, context.locator),
+        };
+        return commentNode;
+    }
+
+    if (node.type === 'directive' && /^!doctype/i.test(node.data)) {
+        context.doctype = node.data.replace(/^!doctype\s*/i, '');
         return null;
     }
 
@@ -145,32 +264,49 @@ function convertNode(
 
 /**
  * Post-process AST to merge adjacent text nodes and clean up
+ * Whitespace-only text is kept only between inline nodes (`<b>a</b> <i>b</i>`).
+ * Whitespace inside `<pre>` is kept, except a newline right after the start tag
  */
-function postProcess(nodes: HtmlNode[]): HtmlNode[] {
+function postProcess(nodes: HtmlNode[], rawTextTags: ReadonlySet<string>, preformatted: boolean = false): HtmlNode[] {
     const result: HtmlNode[] = [];
 
     for (let i = 0; i < nodes.length; i++) {
         const node = nodes[i];
 
         if (node.type === NodeType.Text) {
-            // Merge with previous text node if exists
             const prev = result[result.length - 1];
+            if (!preformatted && isWhitespaceOnly(node.content) &&
+                !(isInlineNode(prev) && isInlineNode(nodes[i + 1]))) {
+                continue;
+            }
+
+            // Merge with previous text node if exists
             if (prev && prev.type === NodeType.Text) {
-                prev.content += node.content;
+                prev.content = preformatted
+                    ? prev.content + node.content
+                    : (prev.content + node.content).replace(/ {2,}/g, ' ');
+                if (prev.position && node.position) {
+                    prev.position = { start: prev.position.start, end: node.position.end };
+                }
                 continue;
             }
         }
 
-        if (node.type === NodeType.Element) {
+        if (node.type === NodeType.Element && !isRawContentElement(node, rawTextTags)) {
             // Recursively post-process children
-            node.children = postProcess(node.children);
+            node.children = postProcess(node.children, rawTextTags, preformatted || node.tagName === 'pre');
+            const first = node.children[0];
+            if (node.tagName === 'pre' && first?.type === NodeType.Text) {
+                first.content = first.content.replace(/^\r?\n/, '');
+                if (!first.content) node.children.shift();
+            }
         }
 
         result.push(node);
     }
 
     // Trim leading/trailing whitespace from text nodes at boundaries
-    if (result.length > 0) {
+    if (result.length > 0 && !preformatted) {
         const first = result[0];
         if (first.type === NodeType.Text) {
             first.content = first.content.trimStart();
@@ -191,74 +327,188 @@ function postProcess(nodes: HtmlNode[]): HtmlNode[] {
     return result;
 }
 
+/**
+ * Mark the text node at the end of the open element chain as open
+ */
+function markTrailingText(nodes: HtmlNode[]): void {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === NodeType.Text) {
+        last.open = true;
+    } else if (last?.type === NodeType.Element && last.open) {
+        markTrailingText(last.children);
+    }
+}
+
+/**
+ * Convert an exception to a parse error
+ */
+function toParseError(error: unknown): ParseError {
+    return {
+        message: error instanceof Error ? error.message : 'Unknown parsing error',
+        code: 'parse-error',
+        severity: 'error',
+    };
+}
+
+/**
+ * A parse in progress, fed with one or more chunks
+ * @internal Used by parseHtml and the streaming parser
+ */
+export interface ParseSession {
+    /** Parse a chunk of HTML */
+    write(chunk: string): void;
+    /** Finish parsing, closing all open elements */
+    end(): void;
+    /** Build the result from everything parsed so far */
+    snapshot(): ParseResult;
+}
+
+/**
+ * Create a parse session
+ * @internal
+ */
+export function createParseSession(options: Partial<ParserOptions> = {}): ParseSession {
+    const mergedOptions = { ...DEFAULT_OPTIONS, ...options };
+    const failures: ParseError[] = [];
+    const locator = new SourceLocator();
+    const rawTextTags = new Set(mergedOptions.rawTextTags);
+    const diagnostics = new DiagnosticsCollector(locator, rawTextTags);
+    let ended = false;
+
+    // Build a DOM tree with source indices, collecting diagnostics
+    const handler = new SourceHandler(error => {
+        if (error) {
+            failures.push(toParseError(error));
+        }
+    }, diagnostics);
+
+    // Create parser with options
+    const parser = new SourceParser(handler, {
+        decodeEntities: mergedOptions.decodeEntities,
+        lowerCaseTags: true,
+        lowerCaseAttributeNames: true,
+    }, locator, diagnostics, mergedOptions.decodeEntities !== false, new Set(mergedOptions.selfClosingTags));
+
+    function run(action: () => void): void {
+        try {
+            action();
+        } catch (error) {
+            failures.push(toParseError(error));
+        }
+    }
+
+    function snapshot(): ParseResult {
+        const errors = [...failures];
+        const context: ConvertContext = {
+            stylesheets: [],
+            locator,
+            openElements: new Set(handler.openElements),
+            source: parser.source,
+            rawTextTags,
+        };
+        let nodes: HtmlNode[] = [];
+        let stylesheets: string[] = [];
+        let metadata = createEmptyMetadata();
+        let sanitizeReport: ParseResult['sanitizeReport'];
+
+        try {
+            // Convert DOM to our AST format
+            if (failures.length === 0) {
+                for (const node of handler.dom) {
+                    const converted = convertNode(node, undefined, mergedOptions, context);
+                    if (converted) {
+                        nodes.push(converted);
+                    }
+                }
+            }
+            stylesheets = context.stylesheets;
+
+            // Only body content is rendered
+            const extracted = extractMetadata(nodes);
+            nodes = extracted.nodes;
+            metadata = extracted.metadata;
+
+            // Sanitize before post-processing, so text around unwrapped
+            // elements is merged
+            if (mergedOptions.sanitize) {
+                const sanitized = sanitizeNodes(nodes, mergedOptions.sanitize);
+                nodes = sanitized.nodes;
+                sanitizeReport = sanitized.report;
+                stylesheets = sanitizeStylesheets(stylesheets, mergedOptions.sanitize, sanitizeReport);
+            }
+
+            // Post-process to clean up whitespace
+            if (mergedOptions.normalizeWhitespace) {
+                nodes = postProcess(nodes, rawTextTags);
+            }
+
+            // Trailing text may still grow
+            if (!ended) {
+                markTrailingText(nodes);
+            }
+        } catch (error) {
+            errors.push(toParseError(error));
+            // Never return unsanitized content
+            if (mergedOptions.sanitize && !sanitizeReport) {
+                nodes = [];
+                stylesheets = [];
+            }
+        }
+
+        // Keys are assigned to the final tree, so identical content gets
+        // identical keys on every parse
+        assignNodeKeys(nodes);
+
+        // Warnings follow errors, in source order
+        errors.push(...[...diagnostics.warnings].sort((a, b) => (a.position ?? 0) - (b.position ?? 0)));
+
+        return {
+            nodes,
+            errors,
+            stylesheets,
+            ...(context.doctype !== undefined && { doctype: context.doctype }),
+            metadata,
+            ...(sanitizeReport && { sanitizeReport }),
+        };
+    }
+
+    return {
+        write: chunk => run(() => parser.write(chunk)),
+        end: () => {
+            ended = true;
+            run(() => parser.end());
+        },
+        snapshot,
+    };
+}
+
 /**
  * Parse HTML string into an AST
  * 
  * @param html - The HTML string to parse
  * @param options - Parser options
- * @returns ParseResult containing nodes and any errors
+ * @returns ParseResult containing nodes, errors and warnings, and embedded stylesheets
  * 
  * @example
  * ```typescript
  * const { nodes, errors } = parseHtml('<div><p>Hello World</p></div>');
- * if (errors.length === 0) {
+ * if (!hasFatalParseError(errors)) {
  *   // Process nodes
  * }
+ * 
+ * // Warnings carry codes and source locations
+ * errors.filter(e => e.severity === 'warning')
+ *   .forEach(e => console.log(e.code, e.location?.start.line, e.location?.start.column));
  * ```
  */
 export function parseHtml(
     html: string,
     options: Partial<ParserOptions> = {}
 ): ParseResult {
-    const mergedOptions = { ...DEFAULT_OPTIONS, ...options };
-    const errors: ParseError[] = [];
-    let nodes: HtmlNode[] = [];
-
-    try {
-        // Use DomHandler to build a DOM tree
-        const handler = new DomHandler((error, dom) => {
-            if (error) {
-                errors.push({
-                    message: error.message,
-                });
-                return;
-            }
-
-            // Convert DOM to our AST format
-            for (const node of dom) {
-                const converted = convertNode(node, undefined, mergedOptions);
-                if (converted) {
-                    nodes.push(converted);
-                }
-            }
-        }, {
-            withStartIndices: false,
-            withEndIndices: false,
-        });
-
-        // Create parser with options
-        const parser = new Parser(handler, {
-            decodeEntities: mergedOptions.decodeEntities,
-            lowerCaseTags: true,
-            lowerCaseAttributeNames: true,
-        });
-
-        // Parse the HTML
-        parser.write(html);
-        parser.end();
-
-        // Post-process to clean up whitespace
-        if (mergedOptions.normalizeWhitespace) {
-            nodes = postProcess(nodes);
-        }
-
-    } catch (error) {
-        errors.push({
-            message: error instanceof Error ? error.message : 'Unknown parsing error',
-        });
-    }
-
-    return { nodes, errors };
+    const session = createParseSession(options);
+    session.write(html);
+    session.end();
+    return session.snapshot();
 }
 
 /**
@@ -275,8 +525,9 @@ export function parseHtml(
  */
 export function parseHtmlStrict(html: string): HtmlNode[] {
     const { nodes, errors } = parseHtml(html);
-    if (errors.length > 0) {
-        throw new Error(`HTML parsing failed: ${errors.map(e => e.message).join(', ')}`);
+    if (hasFatalParseError(errors)) {
+        const messages = errors.filter(e => e.severity === 'error').map(e => e.message);
+        throw new Error(`HTML parsing failed: ${messages.join(', ')}`);
     }
     return nodes;
 }
@@ -314,6 +565,86 @@ export function walkAst(
     walk(nodes);
 }
 
+/**
+ * Check whether every node in a subtree points at its actual parent
+ */
+function isLinked(nodes: HtmlNode[], parent: ElementNode | undefined): boolean {
+    return nodes.every(node =>
+        node.parent === parent && (node.type !== NodeType.Element || isLinked(node.children, node))
+    );
+}
+
+/**
+ * Point every node's `parent` at the element that contains it
+ * 
+ * Nodes whose subtree is already linked are kept; other nodes are copied,
+ * so the input nodes are not modified.
+ * 
+ * @param nodes - Root nodes (or the children of `parent`)
+ * @param parent - Element containing the nodes
+ * @returns Linked nodes
+ */
+export function linkParents(nodes: HtmlNode[], parent?: ElementNode): HtmlNode[] {
+    if (isLinked(nodes, parent)) {
+        return nodes;
+    }
+    return nodes.map((node) => {
+        if (isLinked([node], parent)) {
+            return node;
+        }
+        if (node.type !== NodeType.Element) {
+            return { ...node, parent };
+        }
+        const linked: ElementNode = { ...node, parent };
+        linked.children = linkParents(node.children, linked);
+        return linked;
+    });
+}
+
+/**
+ * Rebuild the AST, replacing each node with the visitor's result
+ * 
+ * Children are mapped before their parent, so the visitor sees an element
+ * with its mapped children. Returning an array inserts, splits or wraps
+ * nodes, returning null removes the node, and returning the node keeps it.
+ * Input nodes are not modified; the result's `parent` references point at
+ * the mapped (or inserted) parents.
+ * 
+ * @param nodes - Root nodes to map
+ * @param visitor - Returns the replacement for a node, given its original parent and siblings
+ * @returns Mapped root nodes
+ * 
+ * @example
+ * ```typescript
+ * // Wrap every table in a scroll container
+ * mapAst(nodes, (node) =>
+ *   node.type === NodeType.Element && node.tagName === 'table'
+ *     ? { type: NodeType.Element, tagName: 'div', attributes: { class: 'scroll' }, children: [node], key: '' }
+ *     : node
+ * );
+ * ```
+ */
+export function mapAst(
+    nodes: HtmlNode[],
+    visitor: (node: HtmlNode, parent: ElementNode | undefined, siblings: HtmlNode[]) => HtmlNode | HtmlNode[] | null
+): HtmlNode[] {
+    function map(nodeList: HtmlNode[], parent?: ElementNode): HtmlNode[] {
+        return nodeList.flatMap((node) => {
+            let current = node;
+            if (node.type === NodeType.Element) {
+                const children = map(node.children, node);
+                const changed = children.length !== node.children.length ||
+                    children.some((child, index) => child !== node.children[index]);
+                if (changed) {
+                    current = { ...node, children };
+                }
+            }
+            return visitor(current, parent, nodeList) ?? [];
+        });
+    }
+    return linkParents(map(nodes));
+}
+
 /**
  * Find all nodes matching a predicate
  * 
@@ -348,22 +679,44 @@ export function findByTag(nodes: HtmlNode[], tagName: string): ElementNode[] {
     ) as ElementNode[];
 }
 
+/**
+ * Find the first node matching a predicate
+ * 
+ * Stops walking at the first match (in document order).
+ * 
+ * @param nodes - Root nodes to search
+ * @param predicate - Function to test each node
+ * @returns Matching node or undefined
+ */
+export function findNode(
+    nodes: HtmlNode[],
+    predicate: (node: HtmlNode) => boolean
+): HtmlNode | undefined {
+    for (const node of nodes) {
+        if (predicate(node)) {
+            return node;
+        }
+        if (node.type === NodeType.Element) {
+            const found = findNode(node.children, predicate);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return undefined;
+}
+
 /**
  * Find element by ID
  * 
  * @param nodes - Root nodes to search
  * @param id - ID to find
- * @returns Matching element or undefined
+ * @returns First matching element or undefined
  */
 export function findById(nodes: HtmlNode[], id: string): ElementNode | undefined {
-    let result: ElementNode | undefined;
-    walkAst(nodes, (node) => {
-        if (node.type === NodeType.Element && node.attributes.id === id) {
-            result = node;
-            return false; // Stop walking
-        }
-    });
-    return result;
+    return findNode(nodes, (node) =>
+        node.type === NodeType.Element && node.attributes.id === id
+    ) as ElementNode | undefined;
 }
 
 /**
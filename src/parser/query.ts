@@ -0,0 +1,117 @@
+/**
+ * AST Queries
+ * DOM-style selector queries (`querySelector`, `closest`, ...) over parsed
+ * nodes, built on the CSS selector engine
+ * @module parser/query
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType } from './types';
+import { findNode, findNodes } from './parser';
+import { parseSelector, matchesComplexSelector, type ComplexSelector, type SelectorMatchOptions } from './selectors';
+
+/**
+ * Parse a selector once for repeated matching
+ */
+function toSelectors(selector: string | ComplexSelector[]): ComplexSelector[] {
+    return typeof selector === 'string' ? parseSelector(selector) : selector;
+}
+
+/**
+ * Check whether a node is an element matching a selector
+ *
+ * @param node - Node to test
+ * @param selector - Selector text or parsed selectors
+ * @param options - Match options (`roots` for structural pseudo-classes of
+ * parentless nodes)
+ * @returns True if any selector in the list matches
+ * @throws Error if the selector is invalid
+ */
+export function matches(
+    node: HtmlNode,
+    selector: string | ComplexSelector[],
+    options: SelectorMatchOptions = {}
+): node is ElementNode {
+    if (node.type !== NodeType.Element) return false;
+    return toSelectors(selector).some(s => matchesComplexSelector(node, s, options));
+}
+
+/**
+ * Find the first element matching a selector
+ *
+ * Ancestors outside `nodes` still count for combinators, as with
+ * `element.querySelector` in the DOM.
+ *
+ * @param nodes - Nodes to search (and their descendants)
+ * @param selector - Selector text or parsed selectors
+ * @returns First matching element in document order, or undefined
+ * @throws Error if the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = parseHtml(html);
+ * const lead = querySelector(nodes, 'article > p:first-of-type');
+ * ```
+ */
+export function querySelector(
+    nodes: HtmlNode | HtmlNode[],
+    selector: string | ComplexSelector[]
+): ElementNode | undefined {
+    const roots = Array.isArray(nodes) ? nodes : [nodes];
+    const selectors = toSelectors(selector);
+    return findNode(roots, node => matches(node, selectors, { roots })) as ElementNode | undefined;
+}
+
+/**
+ * Find all elements matching a selector
+ *
+ * @param nodes - Nodes to search (and their descendants)
+ * @param selector - Selector text or parsed selectors
+ * @returns Matching elements in document order
+ * @throws Error if the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * querySelectorAll(nodes, 'a[href^="http"]:not(.internal), img[alt=""]');
+ * ```
+ */
+export function querySelectorAll(
+    nodes: HtmlNode | HtmlNode[],
+    selector: string | ComplexSelector[]
+): ElementNode[] {
+    const roots = Array.isArray(nodes) ? nodes : [nodes];
+    const selectors = toSelectors(selector);
+    return findNodes(roots, node => matches(node, selectors, { roots })) as ElementNode[];
+}
+
+/**
+ * Find the closest element, starting at the node itself, that matches a
+ * selector
+ *
+ * @param node - Starting node (text nodes start at their parent)
+ * @param selector - Selector text or parsed selectors
+ * @param options - Match options
+ * @returns The node or its nearest matching ancestor, or undefined
+ * @throws Error if the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * // In a node transform: is this link inside a navigation list?
+ * const list = closest(node, 'nav ul');
+ * ```
+ */
+export function closest(
+    node: HtmlNode,
+    selector: string | ComplexSelector[],
+    options: SelectorMatchOptions = {}
+): ElementNode | undefined {
+    const selectors = toSelectors(selector);
+    let current: ElementNode | undefined = node.type === NodeType.Element ? node : node.parent;
+
+    while (current) {
+        const element: ElementNode = current;
+        if (selectors.some(s => matchesComplexSelector(element, s, options))) return element;
+        current = element.parent;
+    }
+    return undefined;
+}
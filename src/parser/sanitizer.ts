@@ -0,0 +1,443 @@
+/**
+ * HTML Sanitizer
+ * Filters parsed nodes against an allowlist policy of tags, attributes,
+ * URL schemes and CSS properties
+ * @module parser/sanitizer
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType, SUPPORTED_TAGS } from './types';
+import { splitCssBlocks } from '../styles/stylesheet';
+
+/**
+ * Allowlist policy for sanitizing HTML
+ */
+export interface SanitizePolicy {
+    /** Tags to keep; other elements are unwrapped (their children are kept) */
+    allowedTags: string[];
+    /** Allowed attributes per tag; the `'*'` entry applies to every tag */
+    allowedAttributes: Record<string, string[]>;
+    /** Allowed URL schemes per attribute (e.g., `{ href: ['https', 'mailto'] }`) */
+    allowedSchemes: Record<string, string[]>;
+    /**
+     * Allowed CSS properties in `style` attributes and allowed `<style>`
+     * blocks; `'font-*'` matches a prefix. When omitted, every declaration
+     * is kept.
+     */
+    allowedStyles?: string[];
+    /** Whether URLs without a scheme (relative URLs, fragments) are allowed (default: true) */
+    allowRelativeUrls?: boolean;
+    /** Disallowed tags that are removed together with their content */
+    removeContentTags?: string[];
+}
+
+/**
+ * Names of the built-in policies
+ */
+export type SanitizePreset = 'strict' | 'basic-formatting' | 'email';
+
+/**
+ * Something the sanitizer stripped
+ */
+export type StrippedContent =
+    | { kind: 'element'; tagName: string; action: 'removed' | 'unwrapped' }
+    | { kind: 'attribute'; tagName: string; name: string; value: string }
+    | { kind: 'url'; tagName: string; attribute: string; value: string }
+    | { kind: 'style'; tagName: string; property: string; value: string }
+    | { kind: 'stylesheet'; value: string };
+
+/**
+ * Report of what a sanitizer pass stripped
+ */
+export interface SanitizeReport {
+    /** Stripped elements, attributes, URLs, style declarations and stylesheets */
+    stripped: StrippedContent[];
+}
+
+/**
+ * Result of sanitizing nodes
+ */
+export interface SanitizeResult {
+    /** Sanitized nodes */
+    nodes: HtmlNode[];
+    /** What was stripped */
+    report: SanitizeReport;
+}
+
+/**
+ * URL schemes that are never opened, whatever the policy
+ */
+const DANGEROUS_SCHEMES = new Set(['javascript', 'vbscript']);
+
+/**
+ * Attributes holding URLs; dangerous schemes are removed from them even
+ * when a policy has no scheme list for the attribute
+ */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'cite', 'poster', 'background', 'xlink:href']);
+
+/**
+ * Tags whose content is removed with them unless a policy says otherwise
+ */
+const DEFAULT_REMOVE_CONTENT_TAGS = [
+    'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'select', 'head', 'title',
+];
+
+/**
+ * Link and image schemes shared by the presets
+ */
+const WEB_SCHEMES = ['http', 'https'];
+const LINK_SCHEMES = [...WEB_SCHEMES, 'mailto', 'tel'];
+
+/**
+ * Built-in sanitize policies
+ *
+ * - `strict`: inline emphasis and paragraphs only, no attributes or links
+ * - `basic-formatting`: text formatting, headings, lists, quotes, code and links
+ * - `email`: every supported tag, tables with presentational attributes,
+ *   images and a safe subset of inline CSS
+ */
+export const SANITIZE_PRESETS: Readonly<Record<SanitizePreset, SanitizePolicy>> = {
+    strict: {
+        allowedTags: ['p', 'br', 'b', 'strong', 'i', 'em', 'u', 's', 'del', 'code'],
+        allowedAttributes: {},
+        allowedSchemes: {},
+        allowRelativeUrls: false,
+    },
+    'basic-formatting': {
+        allowedTags: [
+            'p', 'br', 'hr', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'mark',
+            'small', 'sub', 'sup', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li',
+            'a', 'code', 'pre',
+        ],
+        allowedAttributes: {
+            a: ['href', 'title'],
+            ol: ['start'],
+        },
+        allowedSchemes: {
+            href: LINK_SCHEMES,
+        },
+        allowRelativeUrls: true,
+    },
+    email: {
+        allowedTags: [...SUPPORTED_TAGS, 'style', 'center', 'font'],
+        allowedAttributes: {
+            '*': ['style', 'class', 'id', 'title', 'dir', 'lang', 'align'],
+            a: ['href', 'name', 'target'],
+            img: ['src', 'alt', 'width', 'height'],
+            table: ['width', 'border', 'cellpadding', 'cellspacing', 'bgcolor'],
+            td: ['width', 'height', 'colspan', 'rowspan', 'valign', 'bgcolor'],
+            th: ['width', 'height', 'colspan', 'rowspan', 'valign', 'bgcolor'],
+            tr: ['valign', 'bgcolor'],
+            font: ['color', 'face', 'size'],
+        },
+        allowedSchemes: {
+            href: LINK_SCHEMES,
+            src: [...WEB_SCHEMES, 'cid', 'data'],
+        },
+        allowedStyles: [
+            'color', 'background', 'background-color', 'font', 'font-*', 'text-*', 'line-height',
+            'letter-spacing', 'margin', 'margin-*', 'padding', 'padding-*', 'border', 'border-*',
+            'width', 'height', 'max-width', 'min-width', 'vertical-align', 'white-space', 'direction',
+        ],
+        allowRelativeUrls: true,
+    },
+};
+
+/**
+ * Get a policy by preset name, or return a custom policy as-is
+ *
+ * @param policy - Preset name or custom policy
+ * @returns Sanitize policy
+ */
+export function getSanitizePolicy(policy: SanitizePreset | SanitizePolicy): SanitizePolicy {
+    return typeof policy === 'string' ? SANITIZE_PRESETS[policy] : policy;
+}
+
+/**
+ * Extract the scheme of a URL, ignoring characters browsers strip
+ * (whitespace and control characters, e.g. `java\tscript:`)
+ *
+ * @param url - URL to inspect
+ * @returns Lowercase scheme, or undefined for relative URLs
+ */
+export function getUrlScheme(url: string): string | undefined {
+    const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+    const match = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+    return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Check if a URL uses a scheme that executes script (`javascript:`, `vbscript:`)
+ *
+ * @param url - URL to check
+ * @returns Whether the URL must never be opened
+ */
+export function isDangerousUrl(url: string): boolean {
+    const scheme = getUrlScheme(url);
+    return scheme !== undefined && DANGEROUS_SCHEMES.has(scheme);
+}
+
+/**
+ * Check if a URL is allowed by a scheme list
+ *
+ * @param url - URL to check
+ * @param schemes - Allowed schemes
+ * @param allowRelative - Whether URLs without a scheme are allowed
+ * @returns Whether the URL is allowed
+ */
+export function isAllowedUrl(url: string, schemes: string[], allowRelative: boolean = true): boolean {
+    const scheme = getUrlScheme(url);
+    if (scheme === undefined) return allowRelative;
+    return !DANGEROUS_SCHEMES.has(scheme) && schemes.includes(scheme);
+}
+
+/**
+ * Check if a CSS property matches an allowlist (with `prefix-*` patterns)
+ */
+function isAllowedStyleProperty(property: string, allowed: string[]): boolean {
+    return allowed.some(pattern =>
+        pattern.endsWith('*')
+            ? property.startsWith(pattern.slice(0, -1))
+            : property === pattern
+    );
+}
+
+/**
+ * Split a style attribute into declarations, ignoring `;` inside
+ * parentheses and quotes
+ */
+function splitDeclarations(css: string): string[] {
+    const declarations: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+
+    for (let i = 0; i < css.length; i++) {
+        const char = css[i];
+        if (quote) {
+            if (char === quote) quote = undefined;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if (char === ';' && depth === 0) {
+            declarations.push(css.slice(start, i));
+            start = i + 1;
+        }
+    }
+    declarations.push(css.slice(start));
+
+    return declarations.map(declaration => declaration.trim()).filter(Boolean);
+}
+
+/**
+ * Keep the allowed declarations of a declaration list
+ */
+function filterDeclarations(
+    css: string,
+    allowedStyles: string[],
+    onStripped: (property: string, value: string) => void
+): string {
+    const kept: string[] = [];
+
+    for (const declaration of splitDeclarations(css)) {
+        const colon = declaration.indexOf(':');
+        const property = (colon === -1 ? declaration : declaration.slice(0, colon)).trim().toLowerCase();
+        const value = colon === -1 ? '' : declaration.slice(colon + 1).trim();
+
+        // url() could load remote resources and expression() executes script in old engines
+        if (isAllowedStyleProperty(property, allowedStyles) && !/\b(?:url|expression)\s*\(/i.test(value)) {
+            kept.push(`${property}: ${value}`);
+        } else {
+            onStripped(property, value);
+        }
+    }
+
+    return kept.join('; ');
+}
+
+/**
+ * Filter a stylesheet's declarations against an allowlist; `@media` and
+ * `@supports` blocks are filtered recursively, other at-rules (`@import`,
+ * `@font-face`, ...) are removed
+ */
+function sanitizeStylesheet(css: string, allowedStyles: string[], stripped: StrippedContent[]): string {
+    const rules: string[] = [];
+
+    for (const { prelude, body } of splitCssBlocks(css)) {
+        if (body === null) {
+            if (prelude) stripped.push({ kind: 'stylesheet', value: `${prelude};` });
+            continue;
+        }
+        if (prelude.startsWith('@')) {
+            if (/^@(?:media|supports)\b/i.test(prelude)) {
+                const inner = sanitizeStylesheet(body, allowedStyles, stripped);
+                if (inner) rules.push(`${prelude} { ${inner} }`);
+            } else {
+                stripped.push({ kind: 'stylesheet', value: `${prelude} { ${body.trim()} }` });
+            }
+            continue;
+        }
+
+        const declarations = filterDeclarations(body, allowedStyles, (property, value) => {
+            stripped.push({ kind: 'style', tagName: 'style', property, value });
+        });
+        if (declarations) rules.push(`${prelude} { ${declarations} }`);
+    }
+
+    return rules.join('\n');
+}
+
+/**
+ * Sanitizer state for a single pass
+ */
+class Sanitizer {
+    readonly stripped: StrippedContent[] = [];
+
+    private readonly allowedTags: Set<string>;
+    private readonly removeContentTags: Set<string>;
+
+    constructor(private readonly policy: SanitizePolicy) {
+        this.allowedTags = new Set(policy.allowedTags);
+        this.removeContentTags = new Set(policy.removeContentTags ?? DEFAULT_REMOVE_CONTENT_TAGS);
+    }
+
+    isTagAllowed(tagName: string): boolean {
+        return this.allowedTags.has(tagName);
+    }
+
+    sanitizeNodes(nodes: HtmlNode[], parent: ElementNode | undefined): HtmlNode[] {
+        const result: HtmlNode[] = [];
+
+        for (const node of nodes) {
+            if (node.type !== NodeType.Element) {
+                node.parent = parent;
+                result.push(node);
+                continue;
+            }
+
+            if (this.isTagAllowed(node.tagName)) {
+                node.parent = parent;
+                this.sanitizeAttributes(node);
+                node.children = this.sanitizeNodes(node.children, node);
+                result.push(node);
+                continue;
+            }
+
+            if (this.removeContentTags.has(node.tagName)) {
+                this.stripped.push({ kind: 'element', tagName: node.tagName, action: 'removed' });
+                continue;
+            }
+
+            // Keep the content of other disallowed elements
+            this.stripped.push({ kind: 'element', tagName: node.tagName, action: 'unwrapped' });
+            result.push(...this.sanitizeNodes(node.children, parent));
+        }
+
+        return result;
+    }
+
+    private sanitizeAttributes(node: ElementNode): void {
+        const { allowedAttributes, allowedSchemes, allowRelativeUrls = true } = this.policy;
+        const allowed = [...(allowedAttributes['*'] ?? []), ...(allowedAttributes[node.tagName] ?? [])];
+
+        for (const [name, value] of Object.entries(node.attributes)) {
+            if (value === undefined) continue;
+
+            if (!allowed.includes(name)) {
+                this.stripped.push({ kind: 'attribute', tagName: node.tagName, name, value });
+                delete node.attributes[name];
+                continue;
+            }
+
+            const schemes = allowedSchemes[name];
+            const isBlockedUrl = schemes
+                ? !isAllowedUrl(value, schemes, allowRelativeUrls)
+                : URL_ATTRIBUTES.has(name) && isDangerousUrl(value);
+            if (isBlockedUrl) {
+                this.stripped.push({ kind: 'url', tagName: node.tagName, attribute: name, value });
+                delete node.attributes[name];
+                continue;
+            }
+
+            if (name === 'style' && this.policy.allowedStyles) {
+                const style = this.sanitizeStyle(node.tagName, value, this.policy.allowedStyles);
+                if (style) {
+                    node.attributes.style = style;
+                } else {
+                    delete node.attributes.style;
+                }
+            }
+        }
+
+        // Keep the derived class list in sync with the attribute
+        if (node.attributes.class === undefined) {
+            delete node.classNames;
+        }
+    }
+
+    private sanitizeStyle(tagName: string, css: string, allowedStyles: string[]): string {
+        return filterDeclarations(css, allowedStyles, (property, value) => {
+            this.stripped.push({ kind: 'style', tagName, property, value });
+        });
+    }
+}
+
+/**
+ * Sanitize parsed nodes against a policy
+ *
+ * Disallowed elements are unwrapped (their allowed content is kept), except
+ * `removeContentTags` which are dropped with their content. Disallowed
+ * attributes, URLs with disallowed schemes and disallowed style declarations
+ * are removed. `javascript:` and `vbscript:` URLs are always removed.
+ * The nodes are modified in place.
+ *
+ * @param nodes - Parsed nodes
+ * @param policy - Preset name or custom policy
+ * @returns Sanitized nodes and a report of what was stripped
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = parseHtml(comment);
+ * const { nodes: safeNodes, report } = sanitizeNodes(nodes, 'basic-formatting');
+ * ```
+ */
+export function sanitizeNodes(
+    nodes: HtmlNode[],
+    policy: SanitizePreset | SanitizePolicy
+): SanitizeResult {
+    const sanitizer = new Sanitizer(getSanitizePolicy(policy));
+    const sanitized = sanitizer.sanitizeNodes(nodes, undefined);
+    return { nodes: sanitized, report: { stripped: sanitizer.stripped } };
+}
+
+/**
+ * Sanitize embedded stylesheets: they are kept only if the policy allows
+ * the `style` tag, with declarations filtered by `allowedStyles`
+ *
+ * @param stylesheets - Contents of `<style>` blocks
+ * @param policy - Preset name or custom policy
+ * @param report - Report to record removed stylesheets and declarations in
+ * @returns Allowed stylesheets
+ */
+export function sanitizeStylesheets(
+    stylesheets: string[],
+    policy: SanitizePreset | SanitizePolicy,
+    report: SanitizeReport
+): string[] {
+    const { allowedTags, allowedStyles } = getSanitizePolicy(policy);
+    if (!allowedTags.includes('style')) {
+        for (const value of stylesheets) {
+            report.stripped.push({ kind: 'stylesheet', value });
+        }
+        return [];
+    }
+    if (!allowedStyles) {
+        return stylesheets;
+    }
+    return stylesheets
+        .map(css => sanitizeStylesheet(css, allowedStyles, report.stripped))
+        .filter(Boolean);
+}
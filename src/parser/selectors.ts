@@ -0,0 +1,746 @@
+/**
+ * CSS Selector Engine
+ * Parses CSS selectors and matches them against AST element nodes
+ * @module parser/selectors
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType } from './types';
+
+/**
+ * Selector specificity as [ids, classes/attributes/pseudo-classes, types]
+ */
+export type Specificity = [number, number, number];
+
+/**
+ * Combinator joining two compound selectors
+ * - `' '` descendant, `'>'` child, `'+'` adjacent sibling, `'~'` general sibling
+ */
+export type Combinator = ' ' | '>' | '+' | '~';
+
+/**
+ * Attribute selector operators
+ */
+export type AttributeOperator = '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+
+/**
+ * Attribute selector (e.g., `[href^="https:"]`)
+ */
+export interface AttributeSelector {
+    /** Attribute name (lowercase) */
+    name: string;
+    /** Comparison operator (omitted for presence checks) */
+    operator?: AttributeOperator;
+    /** Value to compare against */
+    value?: string;
+    /** Whether the comparison is case-insensitive (`i` flag) */
+    caseInsensitive: boolean;
+}
+
+/**
+ * Pseudo-class selector (e.g., `:first-child`, `:nth-child(2n+1)`)
+ */
+export interface PseudoClassSelector {
+    /** Pseudo-class name (lowercase, without colon) */
+    name: string;
+    /** Parsed `an+b` formula for nth-* pseudo-classes */
+    nth?: { a: number; b: number };
+    /** Selector list argument for `:not()`, `:is()` and `:where()` */
+    selectors?: ComplexSelector[];
+}
+
+/**
+ * Compound selector (e.g., `p.note#intro[data-x]:first-child`)
+ */
+export interface CompoundSelector {
+    /** Type selector (lowercase), undefined for universal */
+    tagName?: string;
+    /** ID selectors */
+    ids: string[];
+    /** Class selectors */
+    classes: string[];
+    /** Attribute selectors */
+    attributes: AttributeSelector[];
+    /** Pseudo-class selectors */
+    pseudoClasses: PseudoClassSelector[];
+    /** Pseudo-element (never matches an AST node) */
+    pseudoElement?: string;
+}
+
+/**
+ * Complex selector (compound selectors joined by combinators)
+ */
+export interface ComplexSelector {
+    /** Original selector text */
+    text: string;
+    /** Compound selectors, left to right */
+    compounds: CompoundSelector[];
+    /** Combinators, `combinators[i]` joins `compounds[i]` and `compounds[i + 1]` */
+    combinators: Combinator[];
+    /** Computed specificity */
+    specificity: Specificity;
+}
+
+/**
+ * Options for selector matching
+ */
+export interface SelectorMatchOptions {
+    /**
+     * Root-level nodes, used as the sibling list for nodes without a parent.
+     * Without it, a parentless node is treated as an only child.
+     */
+    roots?: HtmlNode[];
+}
+
+/**
+ * Legacy pseudo-elements that may be written with a single colon
+ */
+const LEGACY_PSEUDO_ELEMENTS = new Set(['before', 'after', 'first-line', 'first-letter']);
+
+/**
+ * Selector parse error
+ */
+function invalidSelector(text: string, reason: string): Error {
+    return new Error(`Invalid selector "${text}": ${reason}`);
+}
+
+/**
+ * Split text on a delimiter at nesting depth zero (ignoring parens, brackets and quotes)
+ */
+export function splitTopLevel(text: string, delimiter: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (char === '\\') {
+            i++;
+            continue;
+        }
+        if (quote) {
+            if (char === quote) quote = null;
+            continue;
+        }
+        if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (char === delimiter && depth === 0) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+
+    parts.push(text.slice(start));
+    return parts;
+}
+
+/**
+ * Parse an `an+b` expression (also accepts `odd` and `even`)
+ */
+function parseNth(expression: string): { a: number; b: number } | null {
+    const value = expression.trim().toLowerCase().replace(/\s+/g, '');
+
+    if (value === 'odd') return { a: 2, b: 1 };
+    if (value === 'even') return { a: 2, b: 0 };
+
+    const match = value.match(/^([+-]?\d*)n([+-]\d+)?$/);
+    if (match) {
+        const coefficient = match[1];
+        const a = coefficient === '' || coefficient === '+'
+            ? 1
+            : coefficient === '-'
+                ? -1
+                : parseInt(coefficient, 10);
+        return { a, b: match[2] ? parseInt(match[2], 10) : 0 };
+    }
+
+    if (/^[+-]?\d+$/.test(value)) {
+        return { a: 0, b: parseInt(value, 10) };
+    }
+
+    return null;
+}
+
+/**
+ * Character-level scanner for a single complex selector
+ */
+class SelectorScanner {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    get done(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    peek(): string {
+        return this.text[this.pos];
+    }
+
+    next(): string {
+        return this.text[this.pos++];
+    }
+
+    skipWhitespace(): boolean {
+        const start = this.pos;
+        while (!this.done && /\s/.test(this.peek())) {
+            this.pos++;
+        }
+        return this.pos > start;
+    }
+
+    readIdentifier(): string {
+        let result = '';
+        while (!this.done) {
+            const char = this.peek();
+            if (char === '\\') {
+                this.pos++;
+                const hex = this.text.slice(this.pos).match(/^[0-9a-fA-F]{1,6}\s?/);
+                if (hex) {
+                    result += String.fromCodePoint(parseInt(hex[0], 16));
+                    this.pos += hex[0].length;
+                } else if (!this.done) {
+                    result += this.next();
+                }
+            } else if (/[-\w\u00A0-\uFFFF]/.test(char)) {
+                result += this.next();
+            } else {
+                break;
+            }
+        }
+        return result;
+    }
+
+    readUntilClosingParen(): string {
+        let depth = 1;
+        let quote: string | null = null;
+        const start = this.pos;
+
+        while (!this.done) {
+            const char = this.next();
+            if (char === '\\') {
+                this.pos++;
+            } else if (quote) {
+                if (char === quote) quote = null;
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if (char === '(') {
+                depth++;
+            } else if (char === ')') {
+                depth--;
+                if (depth === 0) {
+                    return this.text.slice(start, this.pos - 1);
+                }
+            }
+        }
+
+        throw invalidSelector(this.text, 'unclosed parenthesis');
+    }
+
+    readAttributeValue(): string {
+        const char = this.peek();
+        if (char === '"' || char === '\'') {
+            this.pos++;
+            let result = '';
+            while (!this.done && this.peek() !== char) {
+                const c = this.next();
+                result += c === '\\' && !this.done ? this.next() : c;
+            }
+            if (this.done) {
+                throw invalidSelector(this.text, 'unclosed string');
+            }
+            this.pos++;
+            return result;
+        }
+        return this.readIdentifier();
+    }
+}
+
+/**
+ * Parse an attribute selector body (after `[`)
+ */
+function parseAttribute(scanner: SelectorScanner, text: string): AttributeSelector {
+    scanner.skipWhitespace();
+    const name = scanner.readIdentifier().toLowerCase();
+    if (!name) {
+        throw invalidSelector(text, 'missing attribute name');
+    }
+    scanner.skipWhitespace();
+
+    const attribute: AttributeSelector = { name, caseInsensitive: false };
+
+    if (scanner.peek() !== ']') {
+        let operator = scanner.next();
+        if (operator !== '=') {
+            if (scanner.peek() !== '=') {
+                throw invalidSelector(text, `unexpected "${operator}" in attribute selector`);
+            }
+            operator += scanner.next();
+        }
+        attribute.operator = operator as AttributeOperator;
+        scanner.skipWhitespace();
+        attribute.value = scanner.readAttributeValue();
+        scanner.skipWhitespace();
+
+        if (/[is]/i.test(scanner.peek() ?? '')) {
+            attribute.caseInsensitive = scanner.next().toLowerCase() === 'i';
+            scanner.skipWhitespace();
+        }
+    }
+
+    if (scanner.next() !== ']') {
+        throw invalidSelector(text, 'unclosed attribute selector');
+    }
+
+    return attribute;
+}
+
+/**
+ * Pseudo-classes that take an `an+b` argument
+ */
+const NTH_PSEUDO_CLASSES = new Set(['nth-child', 'nth-last-child', 'nth-of-type', 'nth-last-of-type']);
+
+/**
+ * Parse a pseudo-class or pseudo-element (after `:`)
+ */
+function parsePseudo(scanner: SelectorScanner, compound: CompoundSelector, text: string): void {
+    const isElement = scanner.peek() === ':';
+    if (isElement) scanner.next();
+
+    const name = scanner.readIdentifier().toLowerCase();
+    if (!name) {
+        throw invalidSelector(text, 'missing pseudo-class name');
+    }
+
+    if (isElement || LEGACY_PSEUDO_ELEMENTS.has(name)) {
+        compound.pseudoElement = name;
+        return;
+    }
+
+    const pseudo: PseudoClassSelector = { name };
+
+    if (scanner.peek() === '(') {
+        scanner.next();
+        const argument = scanner.readUntilClosingParen();
+
+        if (name.startsWith('nth-')) {
+            // Ignore the `of S` clause, which is rarely used in authored HTML
+            const nth = parseNth(argument.replace(/\s+of\s+.*$/i, ''));
+            if (!nth) {
+                throw invalidSelector(text, `invalid :${name}() argument "${argument}"`);
+            }
+            pseudo.nth = nth;
+        } else if (name === 'not' || name === 'is' || name === 'where' || name === 'matches') {
+            pseudo.selectors = parseSelector(argument);
+        }
+    } else if (NTH_PSEUDO_CLASSES.has(name)) {
+        throw invalidSelector(text, `missing :${name}() argument`);
+    }
+
+    compound.pseudoClasses.push(pseudo);
+}
+
+/**
+ * Parse a single complex selector (no commas)
+ */
+function parseComplexSelector(text: string): ComplexSelector {
+    const scanner = new SelectorScanner(text.trim());
+    const compounds: CompoundSelector[] = [];
+    const combinators: Combinator[] = [];
+    let pendingCombinator: Combinator | null = null;
+
+    scanner.skipWhitespace();
+
+    while (!scanner.done) {
+        const compound: CompoundSelector = {
+            ids: [],
+            classes: [],
+            attributes: [],
+            pseudoClasses: [],
+        };
+        let hasParts = false;
+
+        if (scanner.peek() === '*') {
+            scanner.next();
+            hasParts = true;
+        } else {
+            const tagName = scanner.readIdentifier();
+            if (tagName) {
+                compound.tagName = tagName.toLowerCase();
+                hasParts = true;
+            }
+        }
+
+        while (!scanner.done) {
+            const char = scanner.peek();
+            if (char === '#') {
+                scanner.next();
+                const id = scanner.readIdentifier();
+                if (!id) throw invalidSelector(text, 'empty id selector');
+                compound.ids.push(id);
+            } else if (char === '.') {
+                scanner.next();
+                const className = scanner.readIdentifier();
+                if (!className) throw invalidSelector(text, 'empty class selector');
+                compound.classes.push(className);
+            } else if (char === '[') {
+                scanner.next();
+                compound.attributes.push(parseAttribute(scanner, text));
+            } else if (char === ':') {
+                scanner.next();
+                parsePseudo(scanner, compound, text);
+            } else {
+                break;
+            }
+            hasParts = true;
+        }
+
+        if (!hasParts) {
+            throw invalidSelector(text, `unexpected "${scanner.peek()}"`);
+        }
+
+        if (pendingCombinator) {
+            combinators.push(pendingCombinator);
+            pendingCombinator = null;
+        }
+        compounds.push(compound);
+
+        const hadWhitespace = scanner.skipWhitespace();
+        if (scanner.done) break;
+
+        const char = scanner.peek();
+        if (char === '>' || char === '+' || char === '~') {
+            pendingCombinator = scanner.next() as Combinator;
+            scanner.skipWhitespace();
+        } else if (hadWhitespace) {
+            pendingCombinator = ' ';
+        } else {
+            throw invalidSelector(text, `unexpected "${char}"`);
+        }
+    }
+
+    if (compounds.length === 0 || pendingCombinator) {
+        throw invalidSelector(text, 'incomplete selector');
+    }
+
+    return {
+        text: text.trim(),
+        compounds,
+        combinators,
+        specificity: calculateSpecificity(compounds),
+    };
+}
+
+/**
+ * Parse a CSS selector list into complex selectors
+ *
+ * @param selector - Selector text (e.g., `".note p > strong, #intro"`)
+ * @returns Parsed complex selectors, one per comma-separated entry
+ * @throws Error if the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * const [selector] = parseSelector('ul > li:first-child');
+ * selector.specificity; // [0, 1, 2]
+ * ```
+ */
+export function parseSelector(selector: string): ComplexSelector[] {
+    const parts = splitTopLevel(selector, ',');
+    if (parts.some(part => part.trim() === '')) {
+        throw invalidSelector(selector, 'empty selector');
+    }
+    return parts.map(parseComplexSelector);
+}
+
+/**
+ * Compute specificity for a list of compound selectors
+ */
+function calculateSpecificity(compounds: CompoundSelector[]): Specificity {
+    const result: Specificity = [0, 0, 0];
+
+    for (const compound of compounds) {
+        result[0] += compound.ids.length;
+        result[1] += compound.classes.length + compound.attributes.length;
+        if (compound.tagName) result[2]++;
+        if (compound.pseudoElement) result[2]++;
+
+        for (const pseudo of compound.pseudoClasses) {
+            if (pseudo.name === 'where') continue;
+            if (pseudo.selectors) {
+                // :not() and :is() take the specificity of their most specific argument
+                const max = pseudo.selectors
+                    .map(s => s.specificity)
+                    .reduce((a, b) => (compareSpecificity(a, b) >= 0 ? a : b), [0, 0, 0] as Specificity);
+                result[0] += max[0];
+                result[1] += max[1];
+                result[2] += max[2];
+            } else {
+                result[1]++;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Compare two specificities
+ *
+ * @returns Negative if `a` is less specific, positive if more, 0 if equal
+ */
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Pseudo-classes that depend on an element's siblings
+ */
+const STRUCTURAL_PSEUDO_CLASSES = new Set([
+    'first-child', 'last-child', 'only-child', 'nth-child', 'nth-last-child',
+    'first-of-type', 'last-of-type', 'only-of-type', 'nth-of-type', 'nth-last-of-type',
+]);
+
+/**
+ * Check whether a selector's match can depend on an element's siblings or
+ * its ancestors' siblings (sibling combinators and structural pseudo-classes)
+ *
+ * @param selector - Parsed selector
+ * @returns True if the selector reads sibling structure
+ */
+export function isSiblingDependent(selector: ComplexSelector): boolean {
+    if (selector.combinators.some(combinator => combinator === '+' || combinator === '~')) {
+        return true;
+    }
+    return selector.compounds.some(compound =>
+        compound.pseudoClasses.some(pseudo =>
+            STRUCTURAL_PSEUDO_CLASSES.has(pseudo.name) || (pseudo.selectors ?? []).some(isSiblingDependent)
+        )
+    );
+}
+
+/**
+ * Get the element siblings of a node (including the node itself)
+ */
+function getElementSiblings(node: ElementNode, options: SelectorMatchOptions): ElementNode[] {
+    const siblings = node.parent ? node.parent.children : options.roots ?? [node];
+    return siblings.filter((sibling): sibling is ElementNode => sibling.type === NodeType.Element);
+}
+
+/**
+ * Check whether a 1-based position satisfies an `an+b` formula
+ */
+function matchesNth(position: number, { a, b }: { a: number; b: number }): boolean {
+    if (a === 0) return position === b;
+    const n = (position - b) / a;
+    return Number.isInteger(n) && n >= 0;
+}
+
+/**
+ * Match an attribute selector against a node
+ */
+function matchesAttribute(node: ElementNode, attribute: AttributeSelector): boolean {
+    const raw = node.attributes[attribute.name];
+    if (raw === undefined) return false;
+    if (!attribute.operator) return true;
+
+    const actual = attribute.caseInsensitive ? raw.toLowerCase() : raw;
+    const expected = attribute.caseInsensitive
+        ? (attribute.value ?? '').toLowerCase()
+        : attribute.value ?? '';
+
+    switch (attribute.operator) {
+        case '=':
+            return actual === expected;
+        case '~=':
+            return expected !== '' && actual.split(/\s+/).includes(expected);
+        case '|=':
+            return actual === expected || actual.startsWith(`${expected}-`);
+        case '^=':
+            return expected !== '' && actual.startsWith(expected);
+        case '$=':
+            return expected !== '' && actual.endsWith(expected);
+        case '*=':
+            return expected !== '' && actual.includes(expected);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Match a pseudo-class against a node
+ */
+function matchesPseudoClass(
+    node: ElementNode,
+    pseudo: PseudoClassSelector,
+    options: SelectorMatchOptions
+): boolean {
+    switch (pseudo.name) {
+        case 'first-child':
+        case 'last-child':
+        case 'only-child':
+        case 'nth-child':
+        case 'nth-last-child': {
+            const siblings = getElementSiblings(node, options);
+            const index = siblings.indexOf(node);
+            if (pseudo.name === 'first-child') return index === 0;
+            if (pseudo.name === 'last-child') return index === siblings.length - 1;
+            if (pseudo.name === 'only-child') return siblings.length === 1;
+            const position = pseudo.name === 'nth-child' ? index + 1 : siblings.length - index;
+            return pseudo.nth !== undefined && matchesNth(position, pseudo.nth);
+        }
+
+        case 'first-of-type':
+        case 'last-of-type':
+        case 'only-of-type':
+        case 'nth-of-type':
+        case 'nth-last-of-type': {
+            const siblings = getElementSiblings(node, options)
+                .filter(sibling => sibling.tagName === node.tagName);
+            const index = siblings.indexOf(node);
+            if (pseudo.name === 'first-of-type') return index === 0;
+            if (pseudo.name === 'last-of-type') return index === siblings.length - 1;
+            if (pseudo.name === 'only-of-type') return siblings.length === 1;
+            const position = pseudo.name === 'nth-of-type' ? index + 1 : siblings.length - index;
+            return pseudo.nth !== undefined && matchesNth(position, pseudo.nth);
+        }
+
+        case 'root':
+            return !node.parent;
+
+        case 'empty':
+            return node.children.every(
+                child => child.type === NodeType.Comment || (child.type === NodeType.Text && child.content === '')
+            );
+
+        case 'link':
+        case 'any-link':
+            return node.tagName === 'a' && node.attributes.href !== undefined;
+
+        case 'not':
+            return !(pseudo.selectors ?? []).some(s => matchesComplexSelector(node, s, options));
+
+        case 'is':
+        case 'where':
+        case 'matches':
+            return (pseudo.selectors ?? []).some(s => matchesComplexSelector(node, s, options));
+
+        default:
+            // Dynamic (:hover, :focus) and unknown pseudo-classes never match static content
+            return false;
+    }
+}
+
+/**
+ * Match a compound selector against a single node
+ */
+function matchesCompound(
+    node: ElementNode,
+    compound: CompoundSelector,
+    options: SelectorMatchOptions
+): boolean {
+    if (compound.pseudoElement) return false;
+    if (compound.tagName && compound.tagName !== node.tagName) return false;
+
+    for (const id of compound.ids) {
+        if (node.attributes.id !== id) return false;
+    }
+
+    if (compound.classes.length > 0) {
+        const classNames = node.classNames ?? [];
+        for (const className of compound.classes) {
+            if (!classNames.includes(className)) return false;
+        }
+    }
+
+    for (const attribute of compound.attributes) {
+        if (!matchesAttribute(node, attribute)) return false;
+    }
+
+    for (const pseudo of compound.pseudoClasses) {
+        if (!matchesPseudoClass(node, pseudo, options)) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Match compounds right-to-left, backtracking over ancestors and siblings
+ */
+function matchesFrom(
+    node: ElementNode,
+    selector: ComplexSelector,
+    index: number,
+    options: SelectorMatchOptions
+): boolean {
+    if (!matchesCompound(node, selector.compounds[index], options)) return false;
+    if (index === 0) return true;
+
+    const combinator = selector.combinators[index - 1];
+
+    switch (combinator) {
+        case '>':
+            return !!node.parent && matchesFrom(node.parent, selector, index - 1, options);
+
+        case ' ':
+            for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+                if (matchesFrom(ancestor, selector, index - 1, options)) return true;
+            }
+            return false;
+
+        case '+':
+        case '~': {
+            const siblings = getElementSiblings(node, options);
+            const position = siblings.indexOf(node);
+            if (combinator === '+') {
+                return position > 0 && matchesFrom(siblings[position - 1], selector, index - 1, options);
+            }
+            for (let i = position - 1; i >= 0; i--) {
+                if (matchesFrom(siblings[i], selector, index - 1, options)) return true;
+            }
+            return false;
+        }
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check whether a node matches a parsed complex selector
+ */
+export function matchesComplexSelector(
+    node: ElementNode,
+    selector: ComplexSelector,
+    options: SelectorMatchOptions = {}
+): boolean {
+    return matchesFrom(node, selector, selector.compounds.length - 1, options);
+}
+
+/**
+ * Check whether a node matches a selector
+ *
+ * @param node - Node to test
+ * @param selector - Selector text or parsed selectors
+ * @param options - Match options
+ * @returns True if any selector in the list matches
+ *
+ * @example
+ * ```typescript
+ * matchesSelector(node, '.note p > strong');
+ * ```
+ */
+export function matchesSelector(
+    node: HtmlNode,
+    selector: string | ComplexSelector[],
+    options: SelectorMatchOptions = {}
+): boolean {
+    if (node.type !== NodeType.Element) return false;
+    const selectors = typeof selector === 'string' ? parseSelector(selector) : selector;
+    return selectors.some(s => matchesComplexSelector(node, s, options));
+}
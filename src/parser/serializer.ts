@@ -0,0 +1,228 @@
+/**
+ * HTML Serializer
+ * Converts AST nodes back into an HTML string
+ * @module parser/serializer
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType, SELF_CLOSING_TAGS, isBlockTag } from './types';
+
+/**
+ * Options for serializeHtml
+ */
+export interface SerializeOptions {
+    /**
+     * Put block elements on their own indented lines when they have no
+     * inline siblings (default: false)
+     */
+    pretty?: boolean;
+    /** Indentation unit for pretty output (default: two spaces) */
+    indent?: string;
+    /**
+     * Style resolver (e.g., from `createStyleResolver`); when set, each
+     * element's `style` attribute is replaced by its resolved style
+     */
+    resolveStyle?: (node: ElementNode) => { style: object };
+    /** Tags serialized without an end tag, in addition to HTML void elements */
+    selfClosingTags?: string[];
+    /** Tags whose text content is written unescaped, in addition to `script`, `style` and `template` */
+    rawTextTags?: string[];
+}
+
+/**
+ * Elements whose content is never escaped
+ */
+const RAW_TEXT_TAGS = ['script', 'style', 'template'];
+
+/**
+ * Elements whose whitespace is significant
+ */
+const PREFORMATTED_TAGS = new Set(['pre', 'textarea']);
+
+/**
+ * Style properties whose numbers have no unit
+ */
+const UNITLESS_PROPERTIES = new Set([
+    'opacity', 'flex', 'flexGrow', 'flexShrink', 'zIndex', 'fontWeight', 'aspectRatio', 'elevation',
+]);
+
+/**
+ * React Native axis shorthands and the CSS properties they set
+ */
+const AXIS_PROPERTIES: Record<string, string[]> = {
+    paddingHorizontal: ['paddingLeft', 'paddingRight'],
+    paddingVertical: ['paddingTop', 'paddingBottom'],
+    marginHorizontal: ['marginLeft', 'marginRight'],
+    marginVertical: ['marginTop', 'marginBottom'],
+};
+
+/**
+ * Escape text content
+ *
+ * @param text - Text to escape
+ * @returns Text with `&`, `<` and `>` escaped
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape a double-quoted attribute value
+ */
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a camelCase style property to CSS
+ */
+function toCssProperty(name: string): string {
+    return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Convert a React Native transform array to CSS
+ */
+function toCssTransform(transforms: Array<Record<string, unknown>>): string {
+    return transforms
+        .flatMap(transform => Object.entries(transform))
+        .map(([fn, arg]) => {
+            const value = typeof arg === 'number' && fn.startsWith('translate') ? `${arg}px` : String(arg);
+            return `${fn}(${value})`;
+        })
+        .join(' ');
+}
+
+/**
+ * Convert a React Native style object to CSS declarations
+ *
+ * @param style - Style object (e.g., a resolved style)
+ * @returns CSS declarations, e.g. `color: red; font-size: 16px`
+ */
+export function styleToCss(style: object): string {
+    const declarations: string[] = [];
+
+    for (const [name, value] of Object.entries(style)) {
+        if (value === undefined || value === null) continue;
+
+        if (name === 'transform' && Array.isArray(value)) {
+            declarations.push(`transform: ${toCssTransform(value)}`);
+            continue;
+        }
+        if (typeof value !== 'string' && typeof value !== 'number') continue;
+
+        const cssValue = typeof value === 'number' && !UNITLESS_PROPERTIES.has(name) ? `${value}px` : String(value);
+        for (const property of AXIS_PROPERTIES[name] ?? [name]) {
+            declarations.push(`${toCssProperty(property)}: ${cssValue}`);
+        }
+    }
+
+    return declarations.join('; ');
+}
+
+/**
+ * Serializes nodes with one set of options
+ */
+class Serializer {
+    private readonly pretty: boolean;
+    private readonly indent: string;
+    private readonly voidTags: Set<string>;
+    private readonly rawTextTags: Set<string>;
+
+    constructor(private readonly options: SerializeOptions) {
+        this.pretty = options.pretty ?? false;
+        this.indent = options.indent ?? '  ';
+        this.voidTags = new Set([...SELF_CLOSING_TAGS, ...(options.selfClosingTags ?? [])]);
+        this.rawTextTags = new Set([...RAW_TEXT_TAGS, ...(options.rawTextTags ?? [])]);
+    }
+
+    serializeRoots(nodes: HtmlNode[]): string {
+        if (!this.pretty || !this.isBlockOnly(nodes)) {
+            return nodes.map(node => this.serializeNode(node, 0, false)).join('');
+        }
+        return nodes.map(node => this.serializeNode(node, 0, false)).join('\n');
+    }
+
+    /**
+     * Whether nodes can go on separate lines without changing the content
+     * (whitespace between block elements is insignificant)
+     */
+    private isBlockOnly(nodes: HtmlNode[]): boolean {
+        return nodes.every(node =>
+            node.type === NodeType.Comment || (node.type === NodeType.Element && isBlockTag(node.tagName))
+        );
+    }
+
+    private serializeChildren(node: ElementNode, depth: number, preformatted: boolean): string {
+        if (this.rawTextTags.has(node.tagName)) {
+            return node.children
+                .map(child => (child.type === NodeType.Element ? this.serializeNode(child, depth, true) : child.content))
+                .join('');
+        }
+
+        const children = node.children.map(child => this.serializeNode(child, depth + 1, preformatted));
+        if (!this.pretty || preformatted || children.length === 0 || !this.isBlockOnly(node.children)) {
+            return children.join('');
+        }
+
+        const childIndent = this.indent.repeat(depth + 1);
+        return children.map(child => `\n${childIndent}${child}`).join('') + `\n${this.indent.repeat(depth)}`;
+    }
+
+    private serializeAttributes(node: ElementNode): string {
+        const attributes: Record<string, string | undefined> = { ...node.attributes };
+
+        if (this.options.resolveStyle) {
+            const css = styleToCss(this.options.resolveStyle(node).style);
+            attributes.style = css || undefined;
+        }
+
+        return Object.entries(attributes)
+            .filter((entry): entry is [string, string] => entry[1] !== undefined)
+            .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+            .join('');
+    }
+
+    private serializeNode(node: HtmlNode, depth: number, preformatted: boolean): string {
+        if (node.type === NodeType.Text) {
+            return escapeHtml(node.content);
+        }
+        if (node.type === NodeType.Comment) {
+            return `<!--${node.content}-->`;
+        }
+
+        const { tagName } = node;
+        const start = `<${tagName}${this.serializeAttributes(node)}>`;
+        if (this.voidTags.has(tagName)) {
+            return start;
+        }
+
+        const children = this.serializeChildren(node, depth, preformatted || PREFORMATTED_TAGS.has(tagName));
+        return `${start}${children}</${tagName}>`;
+    }
+}
+
+/**
+ * Serialize AST nodes to HTML
+ *
+ * Text and attribute values are escaped, attributes are double-quoted
+ * (empty ones are written bare), void elements have no end tag, and raw text
+ * elements (`script`, `style`, `template`) are written unescaped. Parsing
+ * the output yields the same tree.
+ *
+ * @param nodes - Nodes to serialize
+ * @param options - Serialization options
+ * @returns HTML string
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = parseHtml('<p>Fish &amp; chips<br></p>', { sanitize: 'strict' });
+ * serializeHtml(nodes); // '<p>Fish &amp; chips<br></p>'
+ *
+ * // With computed styles inlined
+ * serializeHtml(nodes, { pretty: true, resolveStyle: createStyleResolver({ tagsStyles }) });
+ * ```
+ */
+export function serializeHtml(nodes: HtmlNode | HtmlNode[], options: SerializeOptions = {}): string {
+    return new Serializer(options).serializeRoots(Array.isArray(nodes) ? nodes : [nodes]);
+}
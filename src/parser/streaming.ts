@@ -0,0 +1,90 @@
+/**
+ * Streaming Parser
+ * Parses HTML that arrives in chunks (e.g., LLM output), keeping the
+ * underlying parser alive between writes
+ * @module parser/streaming
+ */
+
+import type { ParseResult, ParserOptions } from './types';
+import { createParseSession } from './parser';
+
+/**
+ * Result of a streaming parse
+ */
+export interface StreamingParseResult extends ParseResult {
+    /** Whether the stream has ended (no nodes are open) */
+    complete: boolean;
+}
+
+/**
+ * Incremental HTML parser
+ */
+export interface StreamingParser {
+    /** HTML written so far */
+    readonly source: string;
+    /** Whether `end()` has been called */
+    readonly complete: boolean;
+    /**
+     * Parse the next chunk
+     * @returns Nodes parsed so far; the trailing open element chain and
+     * text are marked `open`
+     */
+    write(chunk: string): StreamingParseResult;
+    /**
+     * Finish the stream, closing all open elements
+     * @returns Final nodes (the same as `parseHtml(source)`)
+     */
+    end(chunk?: string): StreamingParseResult;
+}
+
+/**
+ * Create a parser for HTML that arrives in chunks
+ *
+ * Each write only tokenizes the new chunk. Nodes before the open trailing
+ * element chain are complete, and keep their keys and content hashes on
+ * later writes; open nodes keep their keys as they grow. Pass consecutive
+ * results through `reconcileNodes` to also keep their objects.
+ *
+ * @param options - Parser options
+ * @returns Streaming parser
+ *
+ * @example
+ * ```typescript
+ * const stream = createStreamingParser();
+ * stream.write('<p>Hello <strong>wor');
+ * // nodes[0].open === true, the <strong> and its text are open too
+ * const { nodes } = stream.end('ld</strong></p>');
+ * ```
+ */
+export function createStreamingParser(options: Partial<ParserOptions> = {}): StreamingParser {
+    const session = createParseSession(options);
+    let source = '';
+    let complete = false;
+
+    function write(chunk: string): StreamingParseResult {
+        if (complete) {
+            throw new Error('Cannot write to a streaming parser after end()');
+        }
+        if (chunk) {
+            source += chunk;
+            session.write(chunk);
+        }
+        return { ...session.snapshot(), complete };
+    }
+
+    return {
+        get source() {
+            return source;
+        },
+        get complete() {
+            return complete;
+        },
+        write,
+        end(chunk = '') {
+            write(chunk);
+            complete = true;
+            session.end();
+            return { ...session.snapshot(), complete };
+        },
+    };
+}
@@ -0,0 +1,325 @@
+/**
+ * Plain Text Conversion
+ * Converts AST nodes into readable plain text (notifications, sharing,
+ * clipboard)
+ * @module parser/text
+ */
+
+import type { HtmlNode, ElementNode } from './types';
+import { NodeType, isBlockTag } from './types';
+
+/**
+ * Options for htmlToText
+ */
+export interface HtmlToTextOptions {
+    /** Wrap lines longer than this many characters (default: no wrapping) */
+    lineWidth?: number;
+    /** Append link URLs in brackets after the link text (default: true) */
+    linkUrls?: boolean;
+}
+
+/**
+ * A block of output lines
+ */
+type Block = string[];
+
+/**
+ * Elements without text output
+ */
+const HIDDEN_TAGS = new Set(['script', 'style', 'template']);
+
+/**
+ * Get bullet character based on depth
+ */
+export function getBullet(depth: number): string {
+    const bullets = ['•', '◦', '▪', '▫', '–'];
+    return bullets[depth % bullets.length];
+}
+
+/**
+ * Get ordered list marker
+ */
+export function getOrderedMarker(index: number, depth: number): string {
+    // Different numbering styles based on depth
+    switch (depth % 3) {
+        case 0: // 1, 2, 3...
+            return `${index + 1}.`;
+        case 1: // a, b, c...
+            return `${String.fromCharCode(97 + (index % 26))}.`;
+        case 2: // i, ii, iii...
+            return toRoman(index + 1).toLowerCase() + '.';
+        default:
+            return `${index + 1}.`;
+    }
+}
+
+/**
+ * Convert number to Roman numerals
+ */
+function toRoman(num: number): string {
+    if (num <= 0 || num > 3999) return String(num);
+
+    const romanNumerals: [number, string][] = [
+        [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
+        [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
+        [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+    ];
+
+    let result = '';
+    for (const [value, symbol] of romanNumerals) {
+        while (num >= value) {
+            result += symbol;
+            num -= value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Wrap a line at word boundaries (long words are kept whole)
+ */
+function wrapLine(line: string, width: number): string[] {
+    if (width <= 0 || line.length <= width) {
+        return [line];
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    for (const word of line.split(' ')) {
+        if (current && current.length + 1 + word.length > width) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    lines.push(current);
+    return lines;
+}
+
+/**
+ * Remove leading and trailing empty lines
+ */
+function trimLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start] === '') start++;
+    while (end > start && lines[end - 1] === '') end--;
+    return lines.slice(start, end);
+}
+
+/**
+ * Prefix the first line and indent the rest to match
+ */
+function prefixLines(lines: string[], prefix: string): string[] {
+    const indent = ' '.repeat(prefix.length);
+    return lines.map((line, index) => {
+        if (index === 0) return `${prefix}${line}`;
+        return line ? `${indent}${line}` : line;
+    });
+}
+
+/**
+ * Get an element's child elements with the given tags
+ */
+function childElements(node: ElementNode, tags: string[]): ElementNode[] {
+    return node.children.filter(
+        (child): child is ElementNode => child.type === NodeType.Element && tags.includes(child.tagName)
+    );
+}
+
+/**
+ * Converts nodes with one set of options
+ */
+class TextConverter {
+    private readonly linkUrls: boolean;
+
+    constructor(options: HtmlToTextOptions) {
+        this.linkUrls = options.linkUrls ?? true;
+    }
+
+    /**
+     * Convert sibling nodes; runs of inline content between block elements
+     * become paragraphs
+     */
+    blocks(nodes: HtmlNode[], width: number, listDepth: number): Block[] {
+        const blocks: Block[] = [];
+        let inline = '';
+
+        const flush = () => {
+            const lines = this.toLines(inline, width);
+            if (lines.length > 0) blocks.push(lines);
+            inline = '';
+        };
+
+        for (const node of nodes) {
+            if (node.type === NodeType.Element && isBlockTag(node.tagName)) {
+                flush();
+                blocks.push(...this.blockElement(node, width, listDepth));
+            } else {
+                inline += this.inline(node);
+            }
+        }
+        flush();
+
+        return blocks;
+    }
+
+    /**
+     * Split inline text at line breaks, collapse spaces and wrap
+     */
+    private toLines(text: string, width: number): string[] {
+        const lines = text.split('\n').map(line => line.replace(/ +/g, ' ').trim());
+        return trimLines(lines).flatMap(line => wrapLine(line, width));
+    }
+
+    private inline(node: HtmlNode): string {
+        if (node.type === NodeType.Text) {
+            return node.content.replace(/\s+/g, ' ');
+        }
+        if (node.type !== NodeType.Element || HIDDEN_TAGS.has(node.tagName)) {
+            return '';
+        }
+
+        switch (node.tagName) {
+            case 'br':
+                return '\n';
+            case 'img':
+                return (node.attributes.alt ?? '').replace(/\s+/g, ' ');
+            case 'a': {
+                const text = this.inlineChildren(node);
+                const href = node.attributes.href?.trim();
+                // Fragment links only make sense within the document
+                if (!this.linkUrls || !href || href.startsWith('#') || href === text.trim()) {
+                    return text;
+                }
+                return `${text} [${href}]`;
+            }
+            default:
+                return this.inlineChildren(node);
+        }
+    }
+
+    private inlineChildren(node: ElementNode): string {
+        return node.children.map(child => this.inline(child)).join('');
+    }
+
+    private blockElement(node: ElementNode, width: number, listDepth: number): Block[] {
+        switch (node.tagName) {
+            case 'ul':
+            case 'ol':
+                return this.nonEmpty(this.list(node, width, listDepth));
+            case 'table':
+                return this.nonEmpty(this.table(node));
+            case 'pre':
+                return this.nonEmpty(trimLines(this.preformatted(node).split('\n')));
+            case 'hr':
+                return [['---']];
+            case 'blockquote': {
+                const inner = this.blocks(node.children, Math.max(width - 2, 0), listDepth);
+                const lines = inner.flatMap((block, index) => (index > 0 ? ['', ...block] : block));
+                return this.nonEmpty(lines.map(line => (line ? `> ${line}` : '>')));
+            }
+            default:
+                return this.blocks(node.children, width, listDepth);
+        }
+    }
+
+    private nonEmpty(lines: string[]): Block[] {
+        return lines.length > 0 ? [lines] : [];
+    }
+
+    /**
+     * Text with whitespace kept
+     */
+    private preformatted(node: HtmlNode): string {
+        if (node.type === NodeType.Text) return node.content;
+        if (node.type !== NodeType.Element) return '';
+        if (node.tagName === 'br') return '\n';
+        return node.children.map(child => this.preformatted(child)).join('');
+    }
+
+    /**
+     * List items with markers; continuation lines are indented under the
+     * item text and nested lists use the next depth's markers
+     */
+    private list(node: ElementNode, width: number, depth: number): string[] {
+        const ordered = node.tagName === 'ol';
+        let index = ordered ? (parseInt(node.attributes.start ?? '1', 10) || 1) - 1 : 0;
+
+        return childElements(node, ['li', 'ul', 'ol']).flatMap(child => {
+            // Lists nested directly in a list (without an <li>)
+            if (child.tagName !== 'li') {
+                return this.list(child, Math.max(width - 2, 0), depth + 1).map(line => (line ? `  ${line}` : line));
+            }
+
+            const marker = ordered ? getOrderedMarker(index++, depth) : getBullet(depth);
+            const prefix = `${marker} `;
+            const contentWidth = width > 0 ? Math.max(width - prefix.length, 1) : 0;
+            const lines = this.blocks(child.children, contentWidth, depth + 1).flat();
+
+            return lines.length > 0 ? prefixLines(lines, prefix) : [marker];
+        });
+    }
+
+    /**
+     * Table rows with cells padded to aligned columns
+     */
+    private table(node: ElementNode): string[] {
+        const rows = childElements(node, ['thead', 'tbody', 'tfoot', 'tr']).flatMap(child =>
+            child.tagName === 'tr' ? [child] : childElements(child, ['tr'])
+        );
+
+        const cells = rows.map(row =>
+            childElements(row, ['th', 'td']).flatMap(cell => {
+                const text = this.toLines(this.inlineChildren(cell), 0).join(' ');
+                const span = parseInt(cell.attributes.colspan ?? '1', 10) || 1;
+                return [text, ...Array<string>(Math.max(span - 1, 0)).fill('')];
+            })
+        );
+
+        const columns = Math.max(0, ...cells.map(row => row.length));
+        const widths = Array.from({ length: columns }, (_, column) =>
+            Math.max(...cells.map(row => (row[column] ?? '').length))
+        );
+        const formatRow = (row: string[]) =>
+            widths.map((columnWidth, column) => (row[column] ?? '').padEnd(columnWidth)).join(' | ').trimEnd();
+
+        const lines = cells.map(formatRow);
+
+        // Underline a header row
+        const isHeader = rows.length > 1 && childElements(rows[0], ['td']).length === 0;
+        if (isHeader) {
+            lines.splice(1, 0, widths.map(columnWidth => '-'.repeat(columnWidth)).join('-+-'));
+        }
+
+        const caption = childElements(node, ['caption'])[0];
+        const captionText = caption ? this.toLines(this.inlineChildren(caption), 0).join(' ') : '';
+        return captionText ? [captionText, ...lines] : lines;
+    }
+}
+
+/**
+ * Convert AST nodes to readable plain text
+ *
+ * Blocks are separated by blank lines, list items get the same bullets and
+ * numbers as the rendered lists, table columns are aligned, links are
+ * followed by their URL in brackets, and images are replaced by their alt
+ * text. Unlike `getTextContent`, whitespace is collapsed as in rendering.
+ *
+ * @param nodes - Nodes to convert
+ * @param options - Conversion options
+ * @returns Plain text
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = parseHtml('<p>See <a href="https://x.dev">docs</a></p><ul><li>One</li><li>Two</li></ul>');
+ * htmlToText(nodes);
+ * // 'See docs [https://x.dev]\n\n• One\n• Two'
+ * ```
+ */
+export function htmlToText(nodes: HtmlNode | HtmlNode[], options: HtmlToTextOptions = {}): string {
+    const converter = new TextConverter(options);
+    const blocks = converter.blocks(Array.isArray(nodes) ? nodes : [nodes], options.lineWidth ?? 0, 0);
+    return blocks.map(block => block.join('\n')).join('\n\n');
+}
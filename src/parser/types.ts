@@ -4,6 +4,7 @@
  */
 
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
+import type { SanitizePolicy, SanitizePreset, SanitizeReport } from './sanitizer';
 
 /**
  * Enumeration of node types in the AST
@@ -17,16 +18,45 @@ export enum NodeType {
     Comment = 'comment',
 }
 
+/**
+ * A position in the HTML source
+ */
+export interface SourceLocation {
+    /** Zero-based character offset */
+    offset: number;
+    /** One-based line number */
+    line: number;
+    /** One-based column number */
+    column: number;
+}
+
+/**
+ * A range in the HTML source (`end` is exclusive)
+ */
+export interface SourceRange {
+    start: SourceLocation;
+    end: SourceLocation;
+}
+
 /**
  * Base interface for all AST nodes
  */
 export interface BaseNode {
     /** Type of the node */
     type: NodeType;
-    /** Unique identifier for the node (used for React keys) */
+    /** Identifier derived from the node's tree path and tag (used for React keys) */
     key: string;
+    /**
+     * Hash of the node's content and its ancestors' tags and attributes;
+     * changes when anything that can affect the node's rendering changes
+     */
+    hash?: string;
     /** Parent node reference (null for root nodes) */
     parent?: ElementNode;
+    /** Source range the node was parsed from (from the start tag to the end tag for elements) */
+    position?: SourceRange;
+    /** Whether the node is still open and may grow (streaming parses only) */
+    open?: boolean;
 }
 
 /**
@@ -93,6 +123,32 @@ export interface CommentNode extends BaseNode {
  */
 export type HtmlNode = ElementNode | TextNode | CommentNode;
 
+/**
+ * Metadata from a full document's `<html>` and `<head>`
+ */
+export interface DocumentMetadata {
+    /** `<title>` text */
+    title?: string;
+    /** `<meta name="description">` */
+    description?: string;
+    /** `<html lang>` */
+    lang?: string;
+    /** `<html dir>` (`ltr`, `rtl` or `auto`) */
+    dir?: string;
+    /** `<meta charset>` (or the charset of `http-equiv="Content-Type"`) */
+    charset?: string;
+    /** `<base href>` */
+    baseHref?: string;
+    /** `<link rel="canonical">` href */
+    canonical?: string;
+    /** Open Graph properties without the `og:` prefix (e.g., `title`, `image`) */
+    openGraph: Record<string, string>;
+    /** Twitter card properties without the `twitter:` prefix (e.g., `card`) */
+    twitter: Record<string, string>;
+    /** Other named `<meta>` elements (e.g., `author`, `keywords`) */
+    meta: Record<string, string>;
+}
+
 /**
  * Result of parsing HTML
  */
@@ -101,16 +157,50 @@ export interface ParseResult {
     nodes: HtmlNode[];
     /** Any errors encountered during parsing */
     errors: ParseError[];
+    /** Contents of embedded `<style>` blocks, in document order */
+    stylesheets: string[];
+    /** The `<!DOCTYPE>` declaration's content (e.g., `html`), when present */
+    doctype?: string;
+    /** Metadata from `<head>`; head elements are not part of `nodes` */
+    metadata: DocumentMetadata;
+    /** What the sanitizer stripped (only when the `sanitize` option is set) */
+    sanitizeReport?: SanitizeReport;
 }
 
 /**
- * Parse error information
+ * Diagnostic codes reported in `ParseResult.errors`
+ *
+ * - `parse-error`: parsing failed (the only `error` severity code)
+ * - `unclosed-tag`: an element without an optional end tag is never closed
+ * - `stray-end-tag`: an end tag without a matching open element
+ * - `misnested-tag`: a formatting element is closed by an ancestor's end tag
+ * - `unknown-entity`: a named character reference that could not be decoded
+ * - `unsupported-tag`: an element the renderer has no built-in component for
+ */
+export type ParseErrorCode =
+    | 'parse-error'
+    | 'unclosed-tag'
+    | 'stray-end-tag'
+    | 'misnested-tag'
+    | 'unknown-entity'
+    | 'unsupported-tag';
+
+/**
+ * Parse error or warning information
  */
 export interface ParseError {
     /** Error message */
     message: string;
+    /** Diagnostic code */
+    code: ParseErrorCode;
+    /** Errors make parsing fail; warnings describe recoverable problems */
+    severity: 'error' | 'warning';
     /** Position in the HTML string where error occurred */
     position?: number;
+    /** Source range of the problem */
+    location?: SourceRange;
+    /** Tag name the diagnostic refers to */
+    tagName?: string;
 }
 
 /**
@@ -121,10 +211,33 @@ export interface ParserOptions {
     decodeEntities?: boolean;
     /** Whether to normalize whitespace */
     normalizeWhitespace?: boolean;
-    /** Tags to treat as self-closing */
+    /** Tags to treat as self-closing (never take children), in addition to HTML void elements */
     selfClosingTags?: string[];
-    /** Tags whose content should be treated as raw text */
+    /**
+     * Tags whose content is kept as a single unparsed text child
+     * (`<style>` content is collected into `stylesheets`)
+     */
     rawTextTags?: string[];
+    /** Keep comments as `CommentNode`s (they are not rendered) */
+    preserveComments?: boolean;
+    /**
+     * Keep `<script type="application/ld+json">` and `<template>` elements,
+     * with their source as a single text child, for plugins (they are not
+     * rendered); otherwise they are dropped
+     */
+    preserveRawContent?: boolean;
+    /** Sanitize the output with a built-in preset or a custom allowlist policy */
+    sanitize?: SanitizePreset | SanitizePolicy;
+}
+
+/**
+ * Check if parse errors contain a fatal error (warnings are ignored)
+ *
+ * @param errors - Errors from a ParseResult
+ * @returns Whether parsing failed
+ */
+export function hasFatalParseError(errors: ParseError[]): boolean {
+    return errors.some(error => error.severity === 'error');
 }
 
 /**
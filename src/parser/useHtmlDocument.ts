@@ -0,0 +1,61 @@
+/**
+ * React hook for parsing full HTML documents
+ * @module parser/useHtmlDocument
+ */
+
+import { useMemo } from 'react';
+import { useHtmlParser, type UseHtmlParserOptions } from './useHtmlParser';
+import type { HtmlNode, ParseResult, DocumentMetadata } from './types';
+
+/**
+ * Return type for useHtmlDocument hook
+ */
+export interface UseHtmlDocumentResult {
+    /** Body content nodes */
+    nodes: HtmlNode[];
+    /** Metadata from `<html>` and `<head>` */
+    metadata: DocumentMetadata;
+    /** The `<!DOCTYPE>` declaration's content, when present */
+    doctype?: string;
+    /** Parsing errors and warnings */
+    errors: ParseResult['errors'];
+    /** Contents of embedded `<style>` blocks (including those in `<head>`) */
+    stylesheets: string[];
+    /** Whether parsing was successful (no errors; warnings are allowed) */
+    isSuccess: boolean;
+}
+
+/**
+ * Hook for parsing a full HTML page into body content and metadata
+ *
+ * @param html - The HTML document to parse
+ * @param options - Parser options
+ * @returns Body nodes and document metadata
+ *
+ * @example
+ * ```tsx
+ * function Article({ page }: { page: string }) {
+ *   const { nodes, metadata } = useHtmlDocument(page);
+ *
+ *   return (
+ *     <>
+ *       <Text>{metadata.openGraph.title ?? metadata.title}</Text>
+ *       <NodesRenderer nodes={nodes} />
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useHtmlDocument(
+    html: string | undefined | null,
+    options: UseHtmlParserOptions = {}
+): UseHtmlDocumentResult {
+    const { nodes, metadata, doctype, errors, stylesheets, isSuccess } = useHtmlParser(html, options);
+
+    return useMemo(
+        () => ({ nodes, metadata, doctype, errors, stylesheets, isSuccess }),
+        [nodes, metadata, doctype, errors, stylesheets, isSuccess]
+    );
+}
+
+export default useHtmlDocument;
@@ -3,9 +3,13 @@
  * @module parser/useHtmlParser
  */
 
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useRef } from 'react';
 import { parseHtml } from './parser';
-import type { HtmlNode, ParseResult, ParserOptions } from './types';
+import { createStreamingParser, type StreamingParser } from './streaming';
+import { createEmptyMetadata } from './metadata';
+import type { HtmlNode, ParseResult, ParserOptions, DocumentMetadata } from './types';
+import { hasFatalParseError } from './types';
+import { reconcileNodes } from '../performance/reconcile';
 
 /**
  * Options for the useHtmlParser hook
@@ -13,6 +17,23 @@ import type { HtmlNode, ParseResult, ParserOptions } from './types';
 export interface UseHtmlParserOptions extends Partial<ParserOptions> {
     /** Skip parsing if html is empty or undefined */
     skipEmpty?: boolean;
+    /**
+     * Reuse unchanged nodes from the previous parse, so only changed
+     * subtrees re-render (default: true)
+     */
+    incremental?: boolean;
+    /**
+     * Parse `html` incrementally while it grows (e.g., streamed LLM output):
+     * only appended text is parsed, and the trailing open nodes are marked
+     * `open` until streaming is turned off
+     */
+    streaming?: boolean;
+    /**
+     * Transform the parsed document once per parse (e.g., a plugin
+     * registry's `transformDocument`); the result is cached and reconciled
+     * like parsed nodes
+     */
+    transformDocument?: (nodes: HtmlNode[], metadata: DocumentMetadata) => HtmlNode[];
 }
 
 /**
@@ -21,19 +42,35 @@ export interface UseHtmlParserOptions extends Partial<ParserOptions> {
 export interface UseHtmlParserResult {
     /** Parsed AST nodes */
     nodes: HtmlNode[];
-    /** Any parsing errors */
+    /** Parsing errors and warnings */
     errors: ParseResult['errors'];
-    /** Whether parsing was successful (no errors) */
+    /** Contents of embedded `<style>` blocks */
+    stylesheets: ParseResult['stylesheets'];
+    /** Metadata from `<head>` (title, description, Open Graph, ...) */
+    metadata: ParseResult['metadata'];
+    /** The `<!DOCTYPE>` declaration's content, when present */
+    doctype: ParseResult['doctype'];
+    /** What the sanitizer stripped (when the `sanitize` option is set) */
+    sanitizeReport: ParseResult['sanitizeReport'];
+    /** Whether parsing was successful (no errors; warnings are allowed) */
     isSuccess: boolean;
     /** Re-parse function for imperative updates */
     reparse: (newHtml: string) => ParseResult;
 }
 
+/**
+ * Compare two string arrays
+ */
+function areStringsEqual(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
 /**
  * Hook for parsing HTML into an AST with memoization
  * 
  * Automatically memoizes the parsing result based on the HTML string
- * and parser options, preventing unnecessary re-parses.
+ * and parser options, preventing unnecessary re-parses. When the HTML
+ * changes, unchanged nodes from the previous result are reused.
  * 
  * @param html - The HTML string to parse
  * @param options - Parser options
@@ -56,7 +93,15 @@ export function useHtmlParser(
     html: string | undefined | null,
     options: UseHtmlParserOptions = {}
 ): UseHtmlParserResult {
-    const { skipEmpty = true, ...parserOptions } = options;
+    const {
+        skipEmpty = true,
+        incremental = true,
+        streaming = false,
+        transformDocument,
+        ...parserOptions
+    } = options;
+    const previousRef = useRef<ParseResult | null>(null);
+    const streamRef = useRef<{ parser: StreamingParser; optionsKey: string } | null>(null);
 
     // Memoize parser options to prevent unnecessary re-parses
     const optionsKey = useMemo(
@@ -68,11 +113,47 @@ export function useHtmlParser(
     const parseResult = useMemo<ParseResult>(() => {
         // Handle empty/null HTML
         if (!html || (skipEmpty && html.trim() === '')) {
-            return { nodes: [], errors: [] };
+            return { nodes: [], errors: [], stylesheets: [], metadata: createEmptyMetadata() };
         }
 
-        return parseHtml(html, parserOptions);
-    }, [html, optionsKey, skipEmpty]);
+        // A stream continues while the HTML only grows
+        let stream = streamRef.current;
+        if (stream && (stream.optionsKey !== optionsKey || !html.startsWith(stream.parser.source))) {
+            stream = null;
+        }
+
+        let result: ParseResult;
+        if (streaming) {
+            if (!stream) {
+                stream = { parser: createStreamingParser(parserOptions), optionsKey };
+            }
+            result = stream.parser.write(html.slice(stream.parser.source.length));
+            streamRef.current = stream;
+        } else {
+            result = stream
+                ? stream.parser.end(html.slice(stream.parser.source.length))
+                : parseHtml(html, parserOptions);
+            streamRef.current = null;
+        }
+
+        if (transformDocument) {
+            result = { ...result, nodes: transformDocument(result.nodes, result.metadata) };
+        }
+
+        const previous = previousRef.current;
+        previousRef.current = result;
+        if (!incremental || !previous) {
+            return result;
+        }
+
+        result.nodes = reconcileNodes(previous.nodes, result.nodes);
+        // Unchanged stylesheets keep their identity, so style resolvers
+        // built from them are kept
+        if (areStringsEqual(previous.stylesheets, result.stylesheets)) {
+            result.stylesheets = previous.stylesheets;
+        }
+        return result;
+    }, [html, optionsKey, skipEmpty, incremental, streaming, transformDocument]);
 
     // Imperative re-parse function
     const reparse = useCallback((newHtml: string): ParseResult => {
@@ -82,7 +163,11 @@ export function useHtmlParser(
     return {
         nodes: parseResult.nodes,
         errors: parseResult.errors,
-        isSuccess: parseResult.errors.length === 0,
+        stylesheets: parseResult.stylesheets,
+        metadata: parseResult.metadata,
+        doctype: parseResult.doctype,
+        sanitizeReport: parseResult.sanitizeReport,
+        isSuccess: !hasFatalParseError(parseResult.errors),
         reparse,
     };
 }
@@ -135,7 +220,7 @@ export function useLazyHtmlParser(options: Partial<ParserOptions> = {}) {
         clear,
         nodes: result?.nodes ?? [],
         errors: result?.errors ?? [],
-        isSuccess: result ? result.errors.length === 0 : false,
+        isSuccess: result ? !hasFatalParseError(result.errors) : false,
     };
 }
 
@@ -39,6 +39,8 @@ export interface VirtualizedContentProps {
   maxToRenderPerBatch?: number;
   /** Window size multiplier */
   windowSize?: number;
+  /** Rendered after the last chunk (e.g., a streaming cursor) */
+  footer?: ReactNode;
   /** Enable debug mode */
   debug?: boolean;
 }
@@ -140,6 +142,7 @@ function VirtualizedContentComponent({
   initialNumToRender = 5,
   maxToRenderPerBatch = 5,
   windowSize = 5,
+  footer,
   debug = false,
 }: VirtualizedContentProps): React.ReactElement {
   // Create chunks
@@ -194,6 +197,7 @@ function VirtualizedContentComponent({
       initialNumToRender={initialNumToRender}
       maxToRenderPerBatch={maxToRenderPerBatch}
       windowSize={windowSize}
+      ListFooterComponent={footer ? <>{footer}</> : null}
       removeClippedSubviews
       style={[styles.container, style]}
       showsVerticalScrollIndicator={false}
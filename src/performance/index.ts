@@ -23,3 +23,4 @@ export {
     globalParseCache,
 } from './memoization';
 
+export { reconcileNodes, diffNodes, type NodeChange } from './reconcile';
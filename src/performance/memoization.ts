@@ -5,12 +5,14 @@
  */
 
 import { useMemo, useRef, useCallback } from 'react';
-import type { HtmlNode, ElementNode } from '../parser/types';
+import type { HtmlNode, HtmlAttributes } from '../parser/types';
 import { NodeType } from '../parser/types';
+import { hashNodeContent, isSameNodeContent } from '../parser/keys';
 
 /**
  * Create a stable key generator for nodes
- * Uses content hashing for better cache hits
+ * Returns the parser's content-derived key, falling back to a counter for
+ * nodes built without one
  */
 export function createNodeKeyGenerator() {
     let counter = 0;
@@ -19,7 +21,7 @@ export function createNodeKeyGenerator() {
     return function getKey(node: HtmlNode): string {
         let key = keyMap.get(node);
         if (!key) {
-            key = `node-${++counter}`;
+            key = node.key || `node-${++counter}`;
             keyMap.set(node, key);
         }
         return key;
@@ -31,22 +33,7 @@ export function createNodeKeyGenerator() {
  * Useful for determining if content has changed
  */
 export function hashNodeTree(nodes: HtmlNode[]): string {
-    const parts: string[] = [];
-
-    function hashNode(node: HtmlNode): void {
-        if (node.type === NodeType.Text) {
-            parts.push(`t:${node.content.slice(0, 20)}`);
-        } else if (node.type === NodeType.Element) {
-            const el = node as ElementNode;
-            parts.push(`e:${el.tagName}`);
-            if (el.attributes.class) parts.push(`c:${el.attributes.class}`);
-            if (el.attributes.id) parts.push(`i:${el.attributes.id}`);
-            el.children.forEach(hashNode);
-        }
-    }
-
-    nodes.forEach(hashNode);
-    return parts.join('|');
+    return nodes.map(node => hashNodeContent(node).toString(36)).join('|');
 }
 
 /**
@@ -75,20 +62,30 @@ export function useMemoizedNodes<T>(
 
 /**
  * Compare two node arrays for equality
- * Shallow comparison based on keys
+ * Shallow comparison based on keys and content hashes
  */
 export function areNodesEqual(a: HtmlNode[], b: HtmlNode[]): boolean {
     if (a.length !== b.length) return false;
 
     for (let i = 0; i < a.length; i++) {
-        if (a[i].key !== b[i].key) return false;
+        if (!isSameNodeContent(a[i], b[i])) return false;
     }
 
     return true;
 }
 
+/**
+ * Compare two attribute maps
+ */
+function areAttributesEqual(a: HtmlAttributes, b: HtmlAttributes): boolean {
+    const names = Object.keys(a);
+    if (names.length !== Object.keys(b).length) return false;
+    return names.every(name => a[name] === b[name]);
+}
+
 /**
  * Deep compare two node trees
+ * Compares types, text, tags, attributes, open state and children (not keys)
  */
 export function areNodesDeepEqual(a: HtmlNode[], b: HtmlNode[]): boolean {
     if (a.length !== b.length) return false;
@@ -98,13 +95,15 @@ export function areNodesDeepEqual(a: HtmlNode[], b: HtmlNode[]): boolean {
         const nodeB = b[i];
 
         if (nodeA.type !== nodeB.type) return false;
+        if (Boolean(nodeA.open) !== Boolean(nodeB.open)) return false;
 
-        if (nodeA.type === NodeType.Text && nodeB.type === NodeType.Text) {
+        if (nodeA.type !== NodeType.Element && nodeB.type !== NodeType.Element) {
             if (nodeA.content !== nodeB.content) return false;
         }
 
         if (nodeA.type === NodeType.Element && nodeB.type === NodeType.Element) {
             if (nodeA.tagName !== nodeB.tagName) return false;
+            if (!areAttributesEqual(nodeA.attributes, nodeB.attributes)) return false;
             if (!areNodesDeepEqual(nodeA.children, nodeB.children)) return false;
         }
     }
@@ -0,0 +1,153 @@
+/**
+ * Incremental Reconciliation
+ * Diffs a freshly parsed AST against the previous one and reuses unchanged
+ * nodes, so only changed subtrees re-render
+ * @module performance/reconcile
+ */
+
+import type { HtmlNode, ElementNode } from '../parser/types';
+import { NodeType } from '../parser/types';
+import { areNodesDeepEqual } from './memoization';
+
+/**
+ * A difference between two node trees
+ */
+export interface NodeChange {
+    /** Kind of change */
+    type: 'added' | 'removed' | 'updated';
+    /** Index path of the node (e.g., `[0, 2]` is the third child of the first root) */
+    path: number[];
+    /** Node in the next tree (the previous node for removals) */
+    node: HtmlNode;
+    /** Node in the previous tree (updates only) */
+    previous?: HtmlNode;
+}
+
+/**
+ * Whether a previous node can stand in for a new one
+ */
+function isUnchanged(previous: HtmlNode, next: HtmlNode): boolean {
+    // Keys cover position and tag, hashes cover content and ancestors; the
+    // deep compare guards against hash collisions
+    return previous.key === next.key && previous.hash === next.hash && areNodesDeepEqual([previous], [next]);
+}
+
+/**
+ * Copy source positions from a new subtree onto the equal previous one
+ * (positions shift when content before the subtree changes)
+ */
+function adoptPositions(previous: HtmlNode, next: HtmlNode): void {
+    previous.position = next.position;
+    if (previous.type === NodeType.Element && next.type === NodeType.Element) {
+        previous.children.forEach((child, index) => adoptPositions(child, next.children[index]));
+    }
+}
+
+function reconcileChildren(
+    previous: HtmlNode[],
+    next: HtmlNode[],
+    parent: ElementNode | undefined
+): HtmlNode[] {
+    let reusedAll = previous.length === next.length;
+
+    const nodes = next.map((node, index) => {
+        const reconciled = index < previous.length
+            ? reconcileNode(previous[index], node, parent)
+            : node;
+        if (reconciled !== previous[index]) reusedAll = false;
+        return reconciled;
+    });
+
+    return reusedAll ? previous : nodes;
+}
+
+function reconcileNode(previous: HtmlNode, next: HtmlNode, parent: ElementNode | undefined): HtmlNode {
+    if (isUnchanged(previous, next)) {
+        previous.parent = parent;
+        adoptPositions(previous, next);
+        return previous;
+    }
+
+    // Same element with changed content: keep the unchanged children
+    if (
+        previous.type === NodeType.Element &&
+        next.type === NodeType.Element &&
+        previous.tagName === next.tagName
+    ) {
+        next.children = reconcileChildren(previous.children, next.children, next);
+    }
+
+    return next;
+}
+
+/**
+ * Reconcile a newly parsed AST with the previous one
+ *
+ * Subtrees that did not change are replaced by the previous node objects
+ * (with their keys), so memoized renderers and style caches keyed on them
+ * are hit; only changed subtrees are new. Previous nodes are moved into the
+ * returned tree, so the previous tree should no longer be used.
+ *
+ * @param previous - Nodes from the previous parse
+ * @param next - Nodes from the new parse (modified in place)
+ * @returns Reconciled nodes (`previous` itself when nothing changed)
+ *
+ * @example
+ * ```typescript
+ * let nodes = parseHtml(html).nodes;
+ * // ...later, after more content arrives
+ * nodes = reconcileNodes(nodes, parseHtml(html + chunk).nodes);
+ * ```
+ */
+export function reconcileNodes(previous: HtmlNode[], next: HtmlNode[]): HtmlNode[] {
+    return reconcileChildren(previous, next, undefined);
+}
+
+/**
+ * List the differences between two node trees
+ *
+ * Unchanged subtrees are skipped; changed elements with the same tag are
+ * descended into, so changes are reported at the deepest level possible.
+ *
+ * @param previous - Previous nodes
+ * @param next - Next nodes
+ * @returns Changes in document order
+ *
+ * @example
+ * ```typescript
+ * diffNodes(parseHtml('<p>a</p>').nodes, parseHtml('<p>b</p><hr>').nodes);
+ * // [{ type: 'updated', path: [0, 0], ... }, { type: 'added', path: [1], ... }]
+ * ```
+ */
+export function diffNodes(previous: HtmlNode[], next: HtmlNode[]): NodeChange[] {
+    const changes: NodeChange[] = [];
+
+    function diff(prevNodes: HtmlNode[], nextNodes: HtmlNode[], path: number[]): void {
+        const length = Math.max(prevNodes.length, nextNodes.length);
+
+        for (let index = 0; index < length; index++) {
+            const prevNode = prevNodes[index];
+            const nextNode = nextNodes[index];
+            const nodePath = [...path, index];
+
+            if (!prevNode) {
+                changes.push({ type: 'added', path: nodePath, node: nextNode });
+            } else if (!nextNode) {
+                changes.push({ type: 'removed', path: nodePath, node: prevNode });
+            } else if (prevNode === nextNode || areNodesDeepEqual([prevNode], [nextNode])) {
+                continue;
+            } else if (
+                prevNode.type === NodeType.Element &&
+                nextNode.type === NodeType.Element &&
+                areNodesDeepEqual([{ ...prevNode, children: [] }], [{ ...nextNode, children: [] }])
+            ) {
+                diff(prevNode.children, nextNode.children, nodePath);
+            } else {
+                changes.push({ type: 'updated', path: nodePath, node: nextNode, previous: prevNode });
+            }
+        }
+    }
+
+    diff(previous, next, []);
+    return changes;
+}
@@ -16,6 +16,12 @@ export type {
     TagRenderer,
     RenderersMap,
     NodeTransform,
+    DocumentTransform,
+    DocumentTransformContext,
+    StyleModifier,
+    StyleHook,
+    LinkPressHook,
+    SelectorRule,
     HtmlPlugin,
     PluginRegistryState,
     RegisterPluginOptions,
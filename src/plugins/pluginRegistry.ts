@@ -4,16 +4,93 @@
  * @module plugins/pluginRegistry
  */
 
-import type { TextStyle, ViewStyle } from 'react-native';
-import type { HtmlNode, ElementNode } from '../parser/types';
+import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
+import type { HtmlNode, ElementNode, DocumentMetadata } from '../parser/types';
+import { NodeType } from '../parser/types';
+import { assignNodeKeys, assignReplacementKeys } from '../parser/keys';
+import { linkParents } from '../parser/parser';
+import {
+    parseSelector,
+    matchesComplexSelector,
+    compareSpecificity,
+    isSiblingDependent,
+    type ComplexSelector,
+    type SelectorMatchOptions,
+    type Specificity,
+} from '../parser/selectors';
 import type {
     HtmlPlugin,
     PluginRegistryState,
     RenderersMap,
+    TagRenderer,
     NodeTransform,
+    DocumentTransform,
+    StyleModifier,
+    SelectorRule,
     RegisterPluginOptions,
     TransformResult,
 } from './pluginTypes';
+import type { RenderContextValue } from '../renderer/RenderContext';
+
+/**
+ * Type selector for a tag-keyed renderer or modifier
+ */
+function tagSelector(tagName: string): ComplexSelector[] {
+    return [{
+        text: tagName,
+        compounds: [{ tagName: tagName.toLowerCase(), ids: [], classes: [], attributes: [], pseudoClasses: [] }],
+        combinators: [],
+        specificity: [0, 0, 1],
+    }];
+}
+
+/**
+ * Get the specificity of the most specific selector matching a node
+ */
+function getMatchSpecificity(
+    node: ElementNode,
+    selectors: ComplexSelector[],
+    options: SelectorMatchOptions
+): Specificity | null {
+    let best: Specificity | null = null;
+    for (const selector of selectors) {
+        if ((!best || compareSpecificity(selector.specificity, best) > 0) && matchesComplexSelector(node, selector, options)) {
+            best = selector.specificity;
+        }
+    }
+    return best;
+}
+
+/**
+ * Get the rules matching a node, from least to most specific
+ * (ties in registration order)
+ */
+function matchRules<T>(
+    rules: SelectorRule<T>[],
+    node: ElementNode,
+    options: SelectorMatchOptions
+): SelectorRule<T>[] {
+    const matched: Array<{ rule: SelectorRule<T>; specificity: Specificity }> = [];
+    for (const rule of rules) {
+        const specificity = getMatchSpecificity(node, rule.selectors, options);
+        if (specificity) matched.push({ rule, specificity });
+    }
+    return matched
+        .sort((a, b) => compareSpecificity(a.specificity, b.specificity) || a.rule.order - b.rule.order)
+        .map(match => match.rule);
+}
+
+/**
+ * Restrict a transform to elements matching selectors
+ */
+function scopeTransform(selectors: ComplexSelector[], transform: NodeTransform): NodeTransform {
+    return (node, parent, options = {}) => {
+        if (node.type !== NodeType.Element || !selectors.some(s => matchesComplexSelector(node, s, options))) {
+            return node;
+        }
+        return transform(node, parent, options);
+    };
+}
 
 /**
  * Create a new plugin registry
@@ -30,14 +107,30 @@ import type {
  *     video: (ctx) => <CustomVideo src={ctx.node.attributes.src} />,
  *   },
  * });
+ * 
+ * // Scoped to CMS widgets by selector
+ * registry.register({
+ *   name: 'callouts',
+ *   selectorRenderers: {
+ *     'div.callout.warning': (ctx) => <Warning>{ctx.renderChildren()}</Warning>,
+ *   },
+ *   selectorStyleModifiers: {
+ *     'a[href^="mailto:"]': (style) => ({ ...style, textDecorationLine: 'none' }),
+ *   },
+ * });
  * ```
  */
 export function createPluginRegistry() {
     const state: PluginRegistryState = {
         plugins: new Map(),
+        sortedPlugins: [],
         renderers: {},
         transforms: [],
+        documentTransforms: [],
         styleModifiers: {},
+        rendererRules: [],
+        styleModifierRules: [],
+        siblingDependent: false,
     };
 
     /**
@@ -47,6 +140,7 @@ export function createPluginRegistry() {
         // Sort plugins by priority
         const sortedPlugins = Array.from(state.plugins.values())
             .sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100));
+        state.sortedPlugins = sortedPlugins;
 
         // Merge renderers
         state.renderers = {};
@@ -58,10 +152,24 @@ export function createPluginRegistry() {
 
         // Collect transforms
         state.transforms = [];
+        const transformSelectors: ComplexSelector[] = [];
         for (const plugin of sortedPlugins) {
             if (plugin.nodeTransforms) {
                 state.transforms.push(...plugin.nodeTransforms);
             }
+            for (const [selector, transform] of Object.entries(plugin.selectorTransforms ?? {})) {
+                const selectors = parseSelector(selector);
+                transformSelectors.push(...selectors);
+                state.transforms.push(scopeTransform(selectors, transform));
+            }
+        }
+
+        // Collect document transforms
+        state.documentTransforms = [];
+        for (const plugin of sortedPlugins) {
+            if (plugin.documentTransforms) {
+                state.documentTransforms.push(...plugin.documentTransforms);
+            }
         }
 
         // Merge style modifiers
@@ -71,6 +179,52 @@ export function createPluginRegistry() {
                 Object.assign(state.styleModifiers, plugin.styleModifiers);
             }
         }
+
+        // Tag and selector entries compete by specificity, then order
+        let order = 0;
+        const tagModifierRules = new Map<string, SelectorRule<StyleModifier>>();
+        state.rendererRules = [];
+        state.styleModifierRules = [];
+        for (const plugin of sortedPlugins) {
+            for (const [tagName, renderer] of Object.entries(plugin.tagRenderers ?? {})) {
+                state.rendererRules.push({ selector: tagName, selectors: tagSelector(tagName), value: renderer, order: order++ });
+            }
+            for (const [selector, renderer] of Object.entries(plugin.selectorRenderers ?? {})) {
+                state.rendererRules.push({ selector, selectors: parseSelector(selector), value: renderer, order: order++ });
+            }
+            // A later plugin's tag modifier replaces an earlier one, as in `styleModifiers`
+            for (const [tagName, modifier] of Object.entries(plugin.styleModifiers ?? {})) {
+                tagModifierRules.set(tagName, { selector: tagName, selectors: tagSelector(tagName), value: modifier, order: order++ });
+            }
+            for (const [selector, modifier] of Object.entries(plugin.selectorStyleModifiers ?? {})) {
+                state.styleModifierRules.push({ selector, selectors: parseSelector(selector), value: modifier, order: order++ });
+            }
+        }
+        state.styleModifierRules.push(...tagModifierRules.values());
+
+        state.siblingDependent = [...state.rendererRules, ...state.styleModifierRules]
+            .flatMap(rule => rule.selectors)
+            .concat(transformSelectors)
+            .some(isSiblingDependent);
+    }
+
+    /**
+     * Check a plugin's selectors before registering it
+     * @throws Error if a selector is invalid
+     */
+    function validateSelectors(plugin: HtmlPlugin): void {
+        const selectors = [
+            ...Object.keys(plugin.selectorRenderers ?? {}),
+            ...Object.keys(plugin.selectorTransforms ?? {}),
+            ...Object.keys(plugin.selectorStyleModifiers ?? {}),
+        ];
+        for (const selector of selectors) {
+            try {
+                parseSelector(selector);
+            } catch (error) {
+                throw new Error(`Plugin "${plugin.name}": ${(error as Error).message}`);
+            }
+        }
     }
 
     return {
@@ -81,6 +235,7 @@ export function createPluginRegistry() {
             if (state.plugins.has(plugin.name) && !options.replace) {
                 throw new Error(`Plugin "${plugin.name}" is already registered`);
             }
+            validateSelectors(plugin);
 
             // Call setup if provided
             plugin.setup?.();
@@ -139,6 +294,25 @@ export function createPluginRegistry() {
             return state.renderers[tagName];
         },
 
+        /**
+         * Get the renderer for a node: the most specific matching tag or
+         * selector renderer (ties go to the later plugin)
+         * Pass `options.roots` so selectors match top-level siblings.
+         */
+        findRenderer(node: ElementNode, options: SelectorMatchOptions = {}): TagRenderer | undefined {
+            if (state.rendererRules.length === 0) return undefined;
+            const rules = matchRules(state.rendererRules, node, options);
+            return rules[rules.length - 1]?.value;
+        },
+
+        /**
+         * Check whether any selector renderer, modifier or transform can
+         * depend on an element's siblings
+         */
+        isSiblingDependent(): boolean {
+            return state.siblingDependent;
+        },
+
         /**
          * Check if a custom renderer exists for a tag
          */
@@ -155,28 +329,74 @@ export function createPluginRegistry() {
 
         /**
          * Apply all transforms to a node
+         * A transformed result is linked to the parent and keyed under the
+         * node's path, so nodes created by the transforms get keys
          */
-        applyTransforms(node: HtmlNode, parent?: ElementNode): TransformResult {
+        applyTransforms(node: HtmlNode, parent?: ElementNode, options: SelectorMatchOptions = {}): TransformResult {
             let current: HtmlNode | null = node;
             let transformed = false;
 
             for (const transform of state.transforms) {
                 if (!current) break;
 
-                const result = transform(current, parent);
+                const result = transform(current, parent, options);
                 if (result !== current) {
                     transformed = true;
                     current = result;
                 }
             }
 
+            if (transformed && current) {
+                const [linked] = linkParents([current], parent);
+                current = assignReplacementKeys(linked, node);
+            }
+
             return { node: current, transformed };
         },
 
+        /**
+         * Run `beforeParse` hooks on an HTML string
+         */
+        beforeParse(html: string): string {
+            let current = html;
+            for (const plugin of state.sortedPlugins) {
+                if (plugin.beforeParse) {
+                    current = plugin.beforeParse(current);
+                }
+            }
+            return current;
+        },
+
+        /**
+         * Apply all document transforms to parsed nodes
+         * A transformed result is re-linked and re-keyed, so inserted and
+         * moved nodes get parents and keys
+         */
+        transformDocument(nodes: HtmlNode[], metadata: DocumentMetadata): HtmlNode[] {
+            let current = nodes;
+            if (state.documentTransforms.length > 0) {
+                for (const transform of state.documentTransforms) {
+                    current = transform(current, { metadata });
+                }
+                current = linkParents(current);
+                assignNodeKeys(current);
+            }
+            return current;
+        },
+
+        /**
+         * Run `afterParse` hooks with the transformed nodes
+         */
+        afterParse(nodes: HtmlNode[], metadata: DocumentMetadata): void {
+            for (const plugin of state.sortedPlugins) {
+                plugin.afterParse?.(nodes, metadata);
+            }
+        },
+
         /**
          * Get style modifier for a tag
          */
-        getStyleModifier(tagName: string): ((style: ViewStyle | TextStyle) => ViewStyle | TextStyle) | undefined {
+        getStyleModifier(tagName: string): StyleModifier | undefined {
             return state.styleModifiers[tagName];
         },
 
@@ -188,6 +408,53 @@ export function createPluginRegistry() {
             return modifier ? modifier(style) : style;
         },
 
+        /**
+         * Apply all tag and selector style modifiers matching a node, from
+         * least to most specific
+         */
+        applyStyleModifiers(
+            node: ElementNode,
+            style: ViewStyle | TextStyle,
+            options: SelectorMatchOptions = {}
+        ): ViewStyle | TextStyle {
+            if (state.styleModifierRules.length === 0) return style;
+            return matchRules(state.styleModifierRules, node, options).reduce((current, rule) => rule.value(current), style);
+        },
+
+        /**
+         * Run `resolveStyle` hooks on an element's computed style
+         */
+        resolveStyle(
+            style: ViewStyle | TextStyle | ImageStyle,
+            node: ElementNode,
+            computedParent?: ViewStyle | TextStyle | ImageStyle
+        ): ViewStyle | TextStyle | ImageStyle {
+            let current = style;
+            for (const plugin of state.sortedPlugins) {
+                if (plugin.resolveStyle) {
+                    current = plugin.resolveStyle(current, node, computedParent);
+                }
+            }
+            return current;
+        },
+
+        /**
+         * Offer a link press to `onLinkPress` hooks
+         * @returns Whether a plugin consumed the press
+         */
+        handleLinkPress(url: string, node: ElementNode, context: RenderContextValue): boolean {
+            return state.sortedPlugins.some(plugin => plugin.onLinkPress?.(url, node, context) === true);
+        },
+
+        /**
+         * Run `onRenderComplete` hooks
+         */
+        notifyRenderComplete(nodeCount: number): void {
+            for (const plugin of state.sortedPlugins) {
+                plugin.onRenderComplete?.(nodeCount);
+            }
+        },
+
         /**
          * Clear all plugins
          */
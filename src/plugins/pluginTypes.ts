@@ -6,7 +6,9 @@
 
 import type { ReactNode } from 'react';
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
-import type { ElementNode, HtmlNode } from '../parser/types';
+import type { ElementNode, HtmlNode, DocumentMetadata } from '../parser/types';
+import type { ComplexSelector, SelectorMatchOptions } from '../parser/selectors';
+import type { RenderContextValue } from '../renderer/RenderContext';
 
 /**
  * Context passed to custom renderers
@@ -34,6 +36,8 @@ export interface RenderContext {
     textScale: number;
     /** Default renderer for fallback */
     defaultRenderer: (node: ElementNode) => ReactNode;
+    /** The full render context (style resolver, registry, handlers, theme, ...) */
+    renderContext: RenderContextValue;
 }
 
 /**
@@ -48,9 +52,67 @@ export type RenderersMap = Record<string, TagRenderer>;
 
 /**
  * Node transform function
- * Can modify nodes before rendering
+ * Can modify nodes before rendering; `options.roots` holds the document's
+ * top-level nodes, for selector matching
  */
-export type NodeTransform = (node: HtmlNode, parent?: ElementNode) => HtmlNode | null;
+export type NodeTransform = (
+    node: HtmlNode,
+    parent?: ElementNode,
+    options?: SelectorMatchOptions
+) => HtmlNode | null;
+
+/**
+ * Style hook
+ * Adjusts an element's computed style inside the cascade, so children
+ * inherit the result
+ */
+export type StyleHook = (
+    style: ViewStyle | TextStyle | ImageStyle,
+    node: ElementNode,
+    computedParent: ViewStyle | TextStyle | ImageStyle | undefined
+) => ViewStyle | TextStyle | ImageStyle;
+
+/**
+ * Link press hook
+ * Returning true consumes the press: later plugins, the `onLinkPress` prop
+ * and the default URL handling are skipped
+ */
+export type LinkPressHook = (url: string, node: ElementNode, context: RenderContextValue) => boolean | void;
+
+/**
+ * Context passed to document transforms
+ */
+export interface DocumentTransformContext {
+    /** Metadata from `<head>` (title, description, Open Graph, ...) */
+    metadata: DocumentMetadata;
+}
+
+/**
+ * Document transform function
+ * Runs once per parse with the whole tree and returns the new root nodes;
+ * nodes may be inserted, wrapped, split, reordered or removed (see `mapAst`)
+ */
+export type DocumentTransform = (nodes: HtmlNode[], context: DocumentTransformContext) => HtmlNode[];
+
+/**
+ * Style modifier function
+ * Adjusts a resolved style
+ */
+export type StyleModifier = (style: ViewStyle | TextStyle) => ViewStyle | TextStyle;
+
+/**
+ * A renderer or style modifier registered for a tag or CSS selector
+ */
+export interface SelectorRule<T> {
+    /** Tag name or selector text */
+    selector: string;
+    /** Parsed selectors (a tag name is a type selector) */
+    selectors: ComplexSelector[];
+    /** Registered renderer or modifier */
+    value: T;
+    /** Registration order, which breaks specificity ties (later wins) */
+    order: number;
+}
 
 /**
  * Plugin interface for extending the renderer
@@ -68,8 +130,48 @@ export interface HtmlPlugin {
     /** Node transforms applied before rendering */
     nodeTransforms?: NodeTransform[];
 
+    /**
+     * Transforms applied once to the parsed document, before rendering;
+     * the result is cached with the parse result
+     */
+    documentTransforms?: DocumentTransform[];
+
     /** Style modifiers applied to resolved styles */
-    styleModifiers?: Record<string, (style: ViewStyle | TextStyle) => ViewStyle | TextStyle>;
+    styleModifiers?: Record<string, StyleModifier>;
+
+    /**
+     * Renderers keyed by CSS selector (e.g., `div.callout.warning`,
+     * `a[href^="mailto:"]`). Tag and selector renderers compete by
+     * specificity; ties go to the later plugin.
+     */
+    selectorRenderers?: RenderersMap;
+
+    /** Node transforms keyed by CSS selector, applied only to matching elements */
+    selectorTransforms?: Record<string, NodeTransform>;
+
+    /**
+     * Style modifiers keyed by CSS selector; all matching tag and selector
+     * modifiers apply, from least to most specific
+     */
+    selectorStyleModifiers?: Record<string, StyleModifier>;
+
+    /** Rewrites the HTML string before parsing */
+    beforeParse?: (html: string) => string;
+
+    /**
+     * Called once per parse with the final (transformed) nodes; runs after
+     * the render is committed, so it may have side effects
+     */
+    afterParse?: (nodes: HtmlNode[], metadata: DocumentMetadata) => void;
+
+    /** Adjusts computed styles, given the parent's computed style */
+    resolveStyle?: StyleHook;
+
+    /** Intercepts link presses */
+    onLinkPress?: LinkPressHook;
+
+    /** Called after the content has rendered, with the root node count */
+    onRenderComplete?: (nodeCount: number) => void;
 
     /** Setup function called when plugin is registered */
     setup?: () => void;
@@ -84,12 +186,22 @@ export interface HtmlPlugin {
 export interface PluginRegistryState {
     /** Registered plugins by name */
     plugins: Map<string, HtmlPlugin>;
+    /** Registered plugins in execution (priority) order */
+    sortedPlugins: HtmlPlugin[];
     /** Merged tag renderers from all plugins */
     renderers: RenderersMap;
     /** All node transforms in order */
     transforms: NodeTransform[];
+    /** All document transforms in order */
+    documentTransforms: DocumentTransform[];
     /** All style modifiers */
-    styleModifiers: Record<string, (style: ViewStyle | TextStyle) => ViewStyle | TextStyle>;
+    styleModifiers: Record<string, StyleModifier>;
+    /** Tag and selector renderers in registration order */
+    rendererRules: SelectorRule<TagRenderer>[];
+    /** Tag and selector style modifiers (a later tag modifier replaces an earlier one) */
+    styleModifierRules: SelectorRule<StyleModifier>[];
+    /** Whether any selector depends on siblings (sibling combinators, structural pseudo-classes) */
+    siblingDependent: boolean;
 }
 
 /**
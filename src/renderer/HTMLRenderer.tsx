@@ -4,24 +4,50 @@
  * @module renderer/HTMLRenderer
  */
 
-import React, { useMemo, useCallback, useEffect, memo, type ReactNode } from 'react';
+import React, { useMemo, useCallback, useEffect, useState, memo, type ReactNode } from 'react';
 import { View, StyleSheet, Text } from 'react-native';
 import type { ViewStyle } from 'react-native';
 
 import { useHtmlParser } from '../parser/useHtmlParser';
-import { createStyleResolver, type StyleResolverConfig } from '../styles/styleResolver';
+import { markdownToHtml } from '../parser/markdownParser';
+import { createStyleResolver, getRootTextStyle, type StyleResolverConfig } from '../styles/styleResolver';
+import { resolveTheme, createThemedStyles, type HtmlTheme } from '../styles/theme';
+import { useMediaEnvironment } from '../hooks/useMediaEnvironment';
 import { createPluginRegistry, type PluginRegistry, type HtmlPlugin, type RenderersMap } from '../plugins';
 import { RenderContextProvider } from './RenderContext';
 import { NodesRenderer } from './NodeRenderer';
+import { VirtualizedContent, shouldVirtualize } from '../performance/VirtualizedContent';
+import type { HtmlNode } from '../parser/types';
+import { isElementNode } from '../parser/types';
 import type { HTMLRendererProps, FallbackProps } from './types';
 
+/**
+ * Shared defaults for object props, so omitted props keep their identity
+ * across renders and memoized resolvers and registries are kept
+ */
+const NO_STYLES = Object.freeze({});
+const NO_RENDERERS: RenderersMap = Object.freeze({});
+const NO_PLUGINS: HtmlPlugin[] = [];
+const NO_PARSER_OPTIONS = Object.freeze({});
+
+/**
+ * Whether the last root node is an open element, which places the
+ * streaming cursor itself
+ */
+function hasOpenRoot(nodes: HtmlNode[]): boolean {
+  const last = nodes[nodes.length - 1];
+  return last !== undefined && isElementNode(last) && Boolean(last.open);
+}
+
 /**
  * Error boundary fallback component
  */
-function DefaultErrorFallback(): React.ReactElement {
+function DefaultErrorFallback({ theme }: { theme: HtmlTheme }): React.ReactElement {
+  const themed = themedStyles(theme);
+  
   return (
-    <View style={styles.errorContainer}>
-      <Text style={styles.errorText}>Failed to render HTML</Text>
+    <View style={[styles.errorContainer, themed.errorContainer]}>
+      <Text style={[styles.errorText, themed.errorText]}>Failed to render HTML</Text>
     </View>
   );
 }
@@ -63,6 +89,37 @@ function EmptyContent(): React.ReactElement {
  * ```
  * 
  * @example
+ * With a stylesheet:
+ * ```tsx
+ * <HTMLRenderer
+ *   html='<div class="note"><p>Read <strong>this</strong></p></div>'
+ *   stylesheet=".note p > strong { color: #c62828; }"
+ * />
+ * ```
+ * 
+ * @example
+ * With a dark theme:
+ * ```tsx
+ * <HTMLRenderer html={htmlContent} theme="dark" />
+ * ```
+ * 
+ * @example
+ * Streaming an LLM reply:
+ * ```tsx
+ * <HTMLRenderer
+ *   html={partialReply}
+ *   streaming={!replyDone}
+ *   streamingCursor={<Text>▍</Text>}
+ * />
+ * ```
+ * 
+ * @example
+ * Rendering Markdown:
+ * ```tsx
+ * <HTMLRenderer markdown={releaseNotes} tagsStyles={{ h2: { fontSize: 20 } }} />
+ * ```
+ * 
+ * @example
  * With link handling:
  * ```tsx
  * <HTMLRenderer
@@ -75,16 +132,22 @@ function EmptyContent(): React.ReactElement {
  */
 function HTMLRendererComponent({
   html,
-  tagsStyles = {},
-  classesStyles = {},
-  renderers = {},
+  markdown,
+  tagsStyles = NO_STYLES,
+  classesStyles = NO_STYLES,
+  stylesheet,
+  cssVariables,
+  theme: themeSetting = 'auto',
+  renderers = NO_RENDERERS,
   baseTextStyle,
   containerStyle,
   onLinkPress,
   onImagePress,
-  plugins = [],
+  plugins = NO_PLUGINS,
   pluginRegistry: customRegistry,
-  parserOptions = {},
+  parserOptions = NO_PARSER_OPTIONS,
+  streaming = false,
+  streamingCursor,
   textScale = 1,
   textSelectable = false,
   customFonts,
@@ -92,28 +155,12 @@ function HTMLRendererComponent({
   debug = false,
   contentKey,
   enableVirtualization = false,
+  estimatedRowHeight,
   virtualizationThreshold = 500,
   errorBoundaryFallback,
   onRenderComplete,
   onError,
 }: HTMLRendererProps): React.ReactElement {
-  // Parse HTML
-  const { nodes, errors, isSuccess } = useHtmlParser(html, parserOptions);
-  
-  // Handle parse errors
-  useEffect(() => {
-    if (errors.length > 0 && onError) {
-      onError(new Error(errors.map(e => e.message).join(', ')));
-    }
-  }, [errors, onError]);
-  
-  // Report render completion
-  useEffect(() => {
-    if (isSuccess && onRenderComplete) {
-      onRenderComplete(nodes.length);
-    }
-  }, [isSuccess, nodes.length, onRenderComplete]);
-  
   // Create plugin registry
   const registry = useMemo<PluginRegistry>(() => {
     if (customRegistry) return customRegistry;
@@ -134,27 +181,114 @@ function HTMLRendererComponent({
     return reg;
   }, [customRegistry, plugins, debug]);
   
-  // Create style resolver
+  // Markdown is converted to HTML and shares the HTML pipeline; plugins may
+  // rewrite the HTML before parsing
+  const source = useMemo(() => {
+    const input = markdown !== undefined ? markdownToHtml(markdown) : html;
+    return input ? registry.beforeParse(input) : input;
+  }, [markdown, html, registry]);
+  
+  // Parse HTML (incrementally while streaming); plugin document transforms
+  // run once per parse
+  const parseOptions = useMemo(
+    () => ({ ...parserOptions, streaming, transformDocument: registry.transformDocument }),
+    [parserOptions, streaming, registry]
+  );
+  const { nodes, errors, stylesheets, metadata, isSuccess } = useHtmlParser(source, parseOptions);
+  
+  // Plugin hooks see each parse after it is committed, not during render
+  useEffect(() => {
+    registry.afterParse(nodes, metadata);
+  }, [nodes, metadata, registry]);
+  
+  // Handle parse errors (warnings don't fail rendering)
+  useEffect(() => {
+    const fatalErrors = errors.filter(e => e.severity === 'error');
+    if (fatalErrors.length > 0 && onError) {
+      onError(new Error(fatalErrors.map(e => e.message).join(', ')));
+    }
+  }, [errors, onError]);
+  
+  // Report render completion
+  useEffect(() => {
+    if (isSuccess) {
+      registry.notifyRenderComplete(nodes.length);
+      onRenderComplete?.(nodes.length);
+    }
+  }, [isSuccess, nodes.length, onRenderComplete, registry]);
+  
+  // Viewport units and media queries are re-resolved when the window size,
+  // color scheme or reduced motion setting changes
+  const media = useMediaEnvironment();
+  
+  // 'auto' follows the system color scheme
+  const theme = useMemo(
+    () => resolveTheme(themeSetting, media.colorScheme),
+    [themeSetting, media.colorScheme]
+  );
+  
+  // Create style resolver; renderers pass the top-level nodes to match
+  // selectors against, so it is not recreated on every parse
   const resolveStyle = useMemo(() => {
     const config: StyleResolverConfig = {
       tagsStyles,
       classesStyles,
+      stylesheets: [stylesheet, ...stylesheets],
       baseTextStyle,
       useDefaultStyles: true,
+      viewport: { width: media.width, height: media.height },
+      colorScheme: media.colorScheme,
+      reducedMotion: media.reducedMotion,
+      variables: cssVariables,
+      theme,
+      styleTransformer: registry.resolveStyle,
+      debug,
     };
     return createStyleResolver(config);
-  }, [tagsStyles, classesStyles, baseTextStyle]);
+  }, [
+    tagsStyles,
+    classesStyles,
+    stylesheet,
+    stylesheets,
+    cssVariables,
+    theme,
+    baseTextStyle,
+    media,
+    registry,
+    debug,
+  ]);
   
-  // Merge custom renderers with plugin renderers
-  const mergedRenderers = useMemo<RenderersMap>(() => {
-    return {
-      ...registry.getRenderers(),
-      ...renderers,
-    };
-  }, [registry, renderers]);
+  // Top-level text inherits the same root style as top-level elements
+  const rootTextStyle = useMemo(() => getRootTextStyle(theme, baseTextStyle), [theme, baseTextStyle]);
+  
+  // Virtualize only when enabled and the tree is large enough to benefit
+  const shouldVirtualizeNodes = useMemo(
+    () => enableVirtualization && shouldVirtualize(nodes, virtualizationThreshold),
+    [enableVirtualization, nodes, virtualizationThreshold]
+  );
+  
+  // Switching between the list and the plain view remounts the content, so
+  // the choice made when a stream starts is kept until it ends
+  const [streamingVirtualized, setStreamingVirtualized] = useState<boolean | null>(null);
+  if (streaming && streamingVirtualized === null) {
+    setStreamingVirtualized(shouldVirtualizeNodes);
+  } else if (!streaming && streamingVirtualized !== null) {
+    setStreamingVirtualized(null);
+  }
+  const isVirtualized = streaming ? streamingVirtualized ?? shouldVirtualizeNodes : shouldVirtualizeNodes;
+  
+  // Without an open element to hold it, the cursor follows the content
+  const trailingCursor = streaming && !hasOpenRoot(nodes) ? streamingCursor : null;
+  
+  // Render a chunk of nodes (used by VirtualizedContent); selectors still
+  // match against all top-level nodes
+  const renderChunk = useCallback(
+    (chunk: HtmlNode[]) => <NodesRenderer nodes={chunk} roots={nodes} />,
+    [nodes]
+  );
   
   // Handle empty or failed HTML
-  if (!html || html.trim() === '') {
+  if (!source || source.trim() === '') {
     return <EmptyContent />;
   }
   
@@ -162,13 +296,13 @@ function HTMLRendererComponent({
     if (errorBoundaryFallback) {
       return <>{errorBoundaryFallback}</>;
     }
-    return <DefaultErrorFallback />;
+    return <DefaultErrorFallback theme={theme} />;
   }
   
   return (
     <RenderContextProvider
       resolveStyle={resolveStyle}
-      renderers={mergedRenderers}
+      renderers={renderers}
       pluginRegistry={registry}
       onLinkPress={onLinkPress}
       onImagePress={onImagePress}
@@ -176,14 +310,31 @@ function HTMLRendererComponent({
       textSelectable={textSelectable}
       customFonts={customFonts}
       FallbackComponent={fallbackComponent}
+      theme={theme}
+      rootTextStyle={rootTextStyle}
+      siblingDependent={resolveStyle.siblingDependent || registry.isSiblingDependent()}
+      streamingCursor={streamingCursor}
       debug={debug}
     >
-      <View
-        key={contentKey}
-        style={[styles.container, containerStyle]}
-      >
-        <NodesRenderer nodes={nodes} />
-      </View>
+      {isVirtualized ? (
+        <VirtualizedContent
+          key={contentKey}
+          nodes={nodes}
+          renderNodes={renderChunk}
+          estimatedRowHeight={estimatedRowHeight}
+          style={containerStyle}
+          footer={trailingCursor}
+          debug={debug}
+        />
+      ) : (
+        <View
+          key={contentKey}
+          style={[styles.container, containerStyle]}
+        >
+          <NodesRenderer nodes={nodes} />
+          {trailingCursor}
+        </View>
+      )}
     </RenderContextProvider>
   );
 }
@@ -201,14 +352,21 @@ const styles = StyleSheet.create({
   },
   errorContainer: {
     padding: 16,
-    backgroundColor: '#ffebee',
     borderRadius: 8,
   },
   errorText: {
-    color: '#c62828',
     fontSize: 14,
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  errorContainer: {
+    backgroundColor: colors.errorBackground,
+  },
+  errorText: {
+    color: colors.error,
+  },
+}));
+
 export default HTMLRenderer;
 
@@ -10,6 +10,9 @@ import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
 import type { HtmlNode, ElementNode } from '../parser/types';
 import { NodeType, isElementNode, isTextNode, isBlockTag } from '../parser/types';
 import { useRenderContext } from './RenderContext';
+import { getInheritableStyle, getRootTextStyle } from '../styles/styleResolver';
+import { hashString, isSameNodeContent } from '../parser/keys';
+import { createThemedStyles } from '../styles/theme';
 import type { FallbackProps } from './types';
 
 // Import tag-specific components
@@ -27,14 +30,22 @@ import { HorizontalRule } from '../components/HorizontalRule';
  * Default fallback component for unsupported tags
  */
 function DefaultFallback({ tagName, children }: FallbackProps): React.ReactElement {
+  const { theme } = useRenderContext();
+  const themed = themedStyles(theme);
+  
   return (
-    <View style={styles.fallback}>
-      <Text style={styles.fallbackText}>[{tagName}]</Text>
+    <View style={[styles.fallback, themed.fallback]}>
+      <Text style={[styles.fallbackText, themed.fallbackText]}>[{tagName}]</Text>
       {children}
     </View>
   );
 }
 
+/**
+ * Elements that are kept in the AST but only rendered by custom renderers
+ */
+const RAW_CONTENT_TAGS = new Set(['script', 'template']);
+
 /**
  * Props for NodeRenderer
  */
@@ -43,6 +54,10 @@ interface NodeRendererProps {
   parent?: ElementNode;
   depth?: number;
   index?: number;
+  /** Sibling structure of the node and its ancestors, when styles depend on it */
+  structureKey?: string;
+  /** Top-level nodes of the document, for selector matching */
+  roots?: HtmlNode[];
 }
 
 /**
@@ -146,11 +161,94 @@ function getTagComponent(tagName: string) {
   }
 }
 
+/**
+ * Whether the streaming cursor follows an element's children
+ * (the element is the deepest one still open)
+ */
+function isCursorTarget(node: ElementNode): boolean {
+  if (!node.open) {
+    return false;
+  }
+  const last = node.children[node.children.length - 1];
+  return !(last && isElementNode(last) && last.open);
+}
+
+/**
+ * Get the signature of a sibling list's elements (tags and attributes),
+ * appended to the parent list's signature
+ * Node keys don't cover siblings, so memoized nodes compare this when
+ * sibling combinators or structural pseudo-classes can change their style.
+ */
+function getStructureKey(siblings: HtmlNode[], parentKey: string = ''): string {
+  let hash = hashString('');
+  for (const sibling of siblings) {
+    if (!isElementNode(sibling)) continue;
+    hash = hashString(sibling.tagName, hash);
+    for (const [name, value] of Object.entries(sibling.attributes)) {
+      hash = hashString(`${name}=${value ?? ''}`, hash);
+    }
+  }
+  return `${parentKey}/${hash.toString(36)}`;
+}
+
+/**
+ * Render an element's children, followed by the streaming cursor when the
+ * element is the deepest open one
+ */
+function renderChildNodes(
+  node: ElementNode,
+  depth: number,
+  cursor: ReactNode,
+  structureKey: string | undefined,
+  roots: HtmlNode[] | undefined
+): ReactNode[] {
+  const childStructureKey = structureKey !== undefined ? getStructureKey(node.children, structureKey) : undefined;
+  const rendered: ReactNode[] = node.children.map((child, idx) => (
+    <NodeRenderer
+      key={child.key}
+      node={child}
+      parent={node}
+      depth={depth + 1}
+      index={idx}
+      structureKey={childStructureKey}
+      roots={roots}
+    />
+  ));
+  
+  if (cursor != null && isCursorTarget(node)) {
+    rendered.push(<React.Fragment key="streaming-cursor">{cursor}</React.Fragment>);
+  }
+  
+  return rendered;
+}
+
 /**
  * Render text content
+ * Text inherits font and color properties from its parent's computed style,
+ * so they survive View-based containers such as div, li and td.
+ * Top-level text inherits the root text style.
  */
-function TextNodeRenderer({ content, style }: { content: string; style?: TextStyle }) {
-  const { textSelectable } = useRenderContext();
+function TextNodeRenderer({
+  content,
+  parent,
+  structureKey,
+  roots,
+}: {
+  content: string;
+  parent?: ElementNode;
+  structureKey?: string;
+  roots?: HtmlNode[];
+}) {
+  const { textSelectable, resolveStyle, rootTextStyle, theme } = useRenderContext();
+  
+  // Top-level text inherits the root style, like top-level elements
+  const style = useMemo<TextStyle>(
+    () => (parent
+      ? getInheritableStyle(resolveStyle(parent, roots).style)
+      : rootTextStyle ?? getRootTextStyle(theme)),
+    // The parent's style can change with its siblings
+    [parent, resolveStyle, rootTextStyle, theme, structureKey, roots]
+  );
   
   if (!content.trim()) {
     return null;
@@ -171,12 +269,17 @@ function ElementNodeRenderer({
   parent,
   depth = 0,
   index = 0,
+  structureKey,
+  roots,
 }: {
   node: ElementNode;
   parent?: ElementNode;
   depth?: number;
   index?: number;
+  structureKey?: string;
+  roots?: HtmlNode[];
 }): React.ReactElement | null {
+  const renderContext = useRenderContext();
   const {
     resolveStyle,
     renderers,
@@ -185,11 +288,15 @@ function ElementNodeRenderer({
     onImagePress,
     textScale,
     FallbackComponent,
+    streamingCursor,
     debug,
-  } = useRenderContext();
+  } = renderContext;
+  
+  // Plugin selectors match top-level siblings, like stylesheet selectors
+  const matchOptions = { roots };
   
   // Apply plugin transforms
-  const { node: transformedNode } = pluginRegistry.applyTransforms(node, parent);
+  const { node: transformedNode } = pluginRegistry.applyTransforms(node, parent, matchOptions);
   if (!transformedNode || !isElementNode(transformedNode)) {
     return null;
   }
@@ -197,26 +304,16 @@ function ElementNodeRenderer({
   const { tagName, children } = transformedNode;
   
   // Resolve styles
-  const { style } = resolveStyle(transformedNode);
+  const { style } = resolveStyle(transformedNode, roots);
   
-  // Apply plugin style modifiers
-  const modifiedStyle = pluginRegistry.applyStyleModifier(tagName, style as ViewStyle);
+  // Apply plugin style modifiers (tag and selector)
+  const modifiedStyle = pluginRegistry.applyStyleModifiers(transformedNode, style as ViewStyle, matchOptions);
   
   // Check for custom renderer from props
   const customRenderer = renderers[tagName];
   if (customRenderer) {
     const renderChildren = () => (
-      <>
-        {children.map((child, idx) => (
-          <NodeRenderer
-            key={child.key}
-            node={child}
-            parent={transformedNode}
-            depth={depth + 1}
-            index={idx}
-          />
-        ))}
-      </>
+      <>{renderChildNodes(transformedNode, depth, streamingCursor, structureKey, roots)}</>
     );
     
     return (
@@ -233,28 +330,19 @@ function ElementNodeRenderer({
           onImagePress,
           textScale,
           defaultRenderer: (n) => (
-            <ElementNodeRenderer node={n} parent={parent} depth={depth} index={index} />
+            <ElementNodeRenderer node={n} parent={parent} depth={depth} index={index} roots={roots} />
           ),
+          renderContext,
         })}
       </>
     );
   }
   
-  // Check for plugin renderer
-  const pluginRenderer = pluginRegistry.getRenderer(tagName);
+  // Check for plugin renderer (most specific tag or selector match)
+  const pluginRenderer = pluginRegistry.findRenderer(transformedNode, matchOptions);
   if (pluginRenderer) {
     const renderChildren = () => (
-      <>
-        {children.map((child, idx) => (
-          <NodeRenderer
-            key={child.key}
-            node={child}
-            parent={transformedNode}
-            depth={depth + 1}
-            index={idx}
-          />
-        ))}
-      </>
+      <>{renderChildNodes(transformedNode, depth, streamingCursor, structureKey, roots)}</>
     );
     
     return (
@@ -271,13 +359,19 @@ function ElementNodeRenderer({
           onImagePress,
           textScale,
           defaultRenderer: (n) => (
-            <ElementNodeRenderer node={n} parent={parent} depth={depth} index={index} />
+            <ElementNodeRenderer node={n} parent={parent} depth={depth} index={index} roots={roots} />
           ),
+          renderContext,
         })}
       </>
     );
   }
   
+  // Raw content kept for plugins (JSON-LD, templates) is never rendered
+  if (RAW_CONTENT_TAGS.has(tagName)) {
+    return null;
+  }
+  
   // Get built-in component
   const Component = getTagComponent(tagName);
   
@@ -290,15 +384,7 @@ function ElementNodeRenderer({
         depth={depth}
         index={index}
       >
-        {children.map((child, idx) => (
-          <NodeRenderer
-            key={child.key}
-            node={child}
-            parent={transformedNode}
-            depth={depth + 1}
-            index={idx}
-          />
-        ))}
+        {renderChildNodes(transformedNode, depth, streamingCursor, structureKey, roots)}
       </Component>
     );
   }
@@ -312,15 +398,7 @@ function ElementNodeRenderer({
   
   return (
     <Fallback tagName={tagName} node={transformedNode}>
-      {children.map((child, idx) => (
-        <NodeRenderer
-          key={child.key}
-          node={child}
-          parent={transformedNode}
-          depth={depth + 1}
-          index={idx}
-        />
-      ))}
+      {renderChildNodes(transformedNode, depth, streamingCursor, structureKey, roots)}
     </Fallback>
   );
 }
@@ -334,9 +412,11 @@ function NodeRendererComponent({
   parent,
   depth = 0,
   index = 0,
+  structureKey,
+  roots,
 }: NodeRendererProps): React.ReactElement | null {
   if (isTextNode(node)) {
-    return <TextNodeRenderer content={node.content} />;
+    return <TextNodeRenderer content={node.content} parent={parent} structureKey={structureKey} roots={roots} />;
   }
   
   if (isElementNode(node)) {
@@ -346,6 +426,8 @@ function NodeRendererComponent({
         parent={parent}
         depth={depth}
         index={index}
+        structureKey={structureKey}
+        roots={roots}
       />
     );
   }
@@ -356,13 +438,16 @@ function NodeRendererComponent({
 
 /**
  * Memoized NodeRenderer
- * Only re-renders when node changes
+ * Only re-renders when node content changes (or, when styles depend on
+ * siblings, when the sibling structure changes); new top-level nodes with
+ * the same structure don't change how the node matches selectors
  */
 export const NodeRenderer = memo(NodeRendererComponent, (prev, next) => {
   return (
-    prev.node.key === next.node.key &&
+    isSameNodeContent(prev.node, next.node) &&
     prev.depth === next.depth &&
-    prev.index === next.index
+    prev.index === next.index &&
+    prev.structureKey === next.structureKey
   );
 });
 
@@ -375,11 +460,17 @@ export function NodesRenderer({
   nodes,
   parent,
   depth = 0,
+  roots = parent ? undefined : nodes,
 }: {
   nodes: HtmlNode[];
   parent?: ElementNode;
   depth?: number;
+  /** Top-level nodes of the document (default: `nodes`, when they have no parent) */
+  roots?: HtmlNode[];
 }): React.ReactElement {
+  const { siblingDependent } = useRenderContext();
+  const structureKey = siblingDependent ? getStructureKey(nodes) : undefined;
+  
   return (
     <>
       {nodes.map((node, index) => (
@@ -389,6 +480,8 @@ export function NodesRenderer({
           parent={parent}
           depth={depth}
           index={index}
+          structureKey={structureKey}
+          roots={roots}
         />
       ))}
     </>
@@ -398,7 +491,6 @@ export function NodesRenderer({
 const styles = StyleSheet.create({
   fallback: {
     borderWidth: 1,
-    borderColor: '#ff9800',
     borderStyle: 'dashed',
     padding: 4,
     borderRadius: 4,
@@ -406,10 +498,18 @@ const styles = StyleSheet.create({
   },
   fallbackText: {
     fontSize: 10,
-    color: '#ff9800',
     fontFamily: 'monospace',
   },
 });
 
+const themedStyles = createThemedStyles(colors => ({
+  fallback: {
+    borderColor: colors.warning,
+  },
+  fallbackText: {
+    color: colors.warning,
+  },
+}));
+
 export { DefaultFallback };
 
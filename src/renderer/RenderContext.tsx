@@ -6,18 +6,19 @@
 
 import React, { createContext, useContext, useMemo, type ReactNode } from 'react';
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
-import type { ElementNode } from '../parser/types';
+import type { HtmlNode, ElementNode } from '../parser/types';
 import type { RenderersMap, PluginRegistry } from '../plugins';
 import { createPluginRegistry } from '../plugins';
+import { lightTheme, type HtmlTheme } from '../styles/theme';
 import type { LinkPressHandler, ImagePressHandler, FallbackProps } from './types';
 
 /**
  * Render context value
  */
 export interface RenderContextValue {
-  /** Style resolver function */
-  resolveStyle: (node: ElementNode) => { style: ViewStyle | TextStyle | ImageStyle };
-  /** Custom renderers */
+  /** Style resolver function, given the top-level nodes for selector matching */
+  resolveStyle: (node: ElementNode, roots?: HtmlNode[]) => { style: ViewStyle | TextStyle | ImageStyle };
+  /** Custom renderers from props (plugin renderers are resolved by the registry) */
   renderers: RenderersMap;
   /** Plugin registry */
   pluginRegistry: PluginRegistry;
@@ -33,6 +34,14 @@ export interface RenderContextValue {
   customFonts?: Record<string, string>;
   /** Fallback component */
   FallbackComponent?: React.ComponentType<FallbackProps>;
+  /** Active theme */
+  theme: HtmlTheme;
+  /** Style inherited by top-level text (theme text color and base text style) */
+  rootTextStyle?: TextStyle;
+  /** Whether styles can depend on siblings (sibling combinators, structural pseudo-classes) */
+  siblingDependent: boolean;
+  /** Element shown after the deepest open node while streaming */
+  streamingCursor?: ReactNode;
   /** Debug mode */
   debug: boolean;
 }
@@ -46,6 +55,8 @@ const defaultContext: RenderContextValue = {
   pluginRegistry: createPluginRegistry(),
   textScale: 1,
   textSelectable: false,
+  theme: lightTheme,
+  siblingDependent: false,
   debug: false,
 };
 
@@ -83,6 +94,10 @@ export function RenderContextProvider({
       props.textSelectable,
       props.customFonts,
       props.FallbackComponent,
+      props.theme,
+      props.rootTextStyle,
+      props.siblingDependent,
+      props.streamingCursor,
       props.debug,
     ]
   );
@@ -129,6 +144,14 @@ export function useTextConfig() {
   return { textScale, textSelectable, customFonts };
 }
 
+/**
+ * Hook to get the active theme
+ */
+export function useTheme(): HtmlTheme {
+  const { theme } = useRenderContext();
+  return theme;
+}
+
 export function useDebugMode(): boolean {
   const { debug } = useRenderContext();
   return debug;
@@ -15,6 +15,7 @@ export {
     useImageHandler,
     useTextConfig,
     useDebugMode,
+    useTheme,
     type RenderContextValue,
     type RenderContextProviderProps,
 } from './RenderContext';
@@ -8,6 +8,7 @@ import type { ReactNode } from 'react';
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
 import type { ElementNode, HtmlNode, ParserOptions } from '../parser/types';
 import type { TagsStyles, ClassesStyles, StyleResolverConfig } from '../styles/styleResolver';
+import type { ThemeSetting } from '../styles/theme';
 import type { HtmlPlugin, RenderersMap, PluginRegistry } from '../plugins';
 
 /**
@@ -25,7 +26,14 @@ export type ImagePressHandler = (src: string, node: ElementNode) => void;
  */
 export interface HTMLRendererProps {
     /** HTML string to render */
-    html: string;
+    html?: string;
+
+    /**
+     * Markdown (CommonMark with GFM tables, strikethrough and task lists)
+     * to render instead of `html`. It is parsed into the same AST, so
+     * styles, renderers and plugins apply unchanged; inline HTML is kept.
+     */
+    markdown?: string;
 
     /** Custom styles for specific HTML tags */
     tagsStyles?: TagsStyles;
@@ -33,6 +41,25 @@ export interface HTMLRendererProps {
     /** Custom styles for CSS classes */
     classesStyles?: ClassesStyles;
 
+    /**
+     * CSS stylesheet applied with selector matching and specificity.
+     * Embedded `<style>` blocks are applied after it.
+     */
+    stylesheet?: string;
+
+    /**
+     * Root CSS custom properties available to `var()`, e.g. theme tokens
+     * (`{ 'brand-primary': '#6200ee' }`; the `--` prefix is optional and
+     * numbers are treated as pixels)
+     */
+    cssVariables?: Record<string, string | number>;
+
+    /**
+     * Theme for default colors: `'light'`, `'dark'`, a custom theme, or
+     * `'auto'` (default) to follow the system color scheme
+     */
+    theme?: ThemeSetting;
+
     /** Custom renderers for specific tags (override defaults) */
     renderers?: RenderersMap;
 
@@ -57,6 +84,17 @@ export interface HTMLRendererProps {
     /** Parser options */
     parserOptions?: Partial<ParserOptions>;
 
+    /**
+     * Whether `html` is still streaming in (e.g., an LLM reply). While
+     * enabled, each update parses only the appended HTML and
+     * `streamingCursor` follows the trailing open content; turn it off when
+     * the stream ends.
+     */
+    streaming?: boolean;
+
+    /** Element shown at the end of streaming content (e.g., a typing cursor) */
+    streamingCursor?: ReactNode;
+
     /** Text accessibility scale factor */
     textScale?: number;
 
@@ -75,13 +113,18 @@ export interface HTMLRendererProps {
     /** Key for the renderer (forces re-render when changed) */
     contentKey?: string;
 
-    /** Enable virtualization for large content */
+    /**
+     * Enable virtualization for large content.
+     * When enabled, content switches to a FlatList-backed renderer once the
+     * node count exceeds `virtualizationThreshold`. While `streaming`, the
+     * choice made when the stream started is kept, so content isn't remounted.
+     */
     enableVirtualization?: boolean;
 
     /** Estimated row height for virtualization */
     estimatedRowHeight?: number;
 
-    /** Maximum number of nodes before virtualization is auto-enabled */
+    /** Maximum number of nodes before virtualization kicks in (default: 500) */
     virtualizationThreshold?: number;
 
     /** Error boundary fallback */
@@ -5,9 +5,12 @@
  */
 
 import React, { useMemo, useCallback, type ReactNode, type ReactElement } from 'react';
+import { useColorScheme } from 'react-native';
 import { parseHtml } from '../parser/parser';
 import type { HtmlNode, ParserOptions } from '../parser/types';
+import { hasFatalParseError } from '../parser/types';
 import { createStyleResolver, type StyleResolverConfig, type TagsStyles, type ClassesStyles } from '../styles/styleResolver';
+import { resolveTheme, type ThemeSetting } from '../styles/theme';
 import { createPluginRegistry, type PluginRegistry, type HtmlPlugin, type RenderersMap } from '../plugins';
 import { RenderContextProvider } from './RenderContext';
 import { NodesRenderer, NodeRenderer } from './NodeRenderer';
@@ -27,6 +30,7 @@ export interface UseHtmlRendererOptions {
     textSelectable?: boolean;
     customFonts?: Record<string, string>;
     fallbackComponent?: React.ComponentType<FallbackProps>;
+    theme?: ThemeSetting;
     debug?: boolean;
 }
 
@@ -59,9 +63,16 @@ export function useHtmlRenderer(
         textSelectable = false,
         customFonts,
         fallbackComponent,
+        theme: themeSetting = 'auto',
         debug = false,
     } = options;
 
+    const colorScheme = useColorScheme();
+    const theme = useMemo(
+        () => resolveTheme(themeSetting, colorScheme === 'dark' ? 'dark' : 'light'),
+        [themeSetting, colorScheme]
+    );
+
     const registry = useMemo<PluginRegistry>(() => {
         if (customRegistry) return customRegistry;
 
@@ -83,16 +94,12 @@ export function useHtmlRenderer(
             tagsStyles,
             classesStyles,
             useDefaultStyles: true,
+            theme,
+            styleTransformer: registry.resolveStyle,
+            debug,
         };
         return createStyleResolver(config);
-    }, [tagsStyles, classesStyles]);
-
-    const mergedRenderers = useMemo<RenderersMap>(() => {
-        return {
-            ...registry.getRenderers(),
-            ...renderers,
-        };
-    }, [registry, renderers]);
+    }, [tagsStyles, classesStyles, theme, registry, debug]);
 
     const renderNodes = useCallback((nodes: HtmlNode[]): ReactElement => {
         const nodesElement = React.createElement(NodesRenderer, { nodes });
@@ -100,17 +107,18 @@ export function useHtmlRenderer(
             RenderContextProvider,
             {
                 resolveStyle,
-                renderers: mergedRenderers,
+                renderers,
                 pluginRegistry: registry,
                 textScale,
                 textSelectable,
                 customFonts,
                 FallbackComponent: fallbackComponent,
+                theme,
                 debug,
                 children: nodesElement,
             }
         );
-    }, [resolveStyle, mergedRenderers, registry, textScale, textSelectable, customFonts, fallbackComponent, debug]);
+    }, [resolveStyle, renderers, registry, textScale, textSelectable, customFonts, fallbackComponent, theme, debug]);
 
     const renderNode = useCallback((node: HtmlNode, index: number = 0): ReactElement => {
         const nodeElement = React.createElement(NodeRenderer, { node, index });
@@ -118,25 +126,31 @@ export function useHtmlRenderer(
             RenderContextProvider,
             {
                 resolveStyle,
-                renderers: mergedRenderers,
+                renderers,
                 pluginRegistry: registry,
                 textScale,
                 textSelectable,
                 customFonts,
                 FallbackComponent: fallbackComponent,
+                theme,
                 debug,
                 children: nodeElement,
             }
         );
-    }, [resolveStyle, mergedRenderers, registry, textScale, textSelectable, customFonts, fallbackComponent, debug]);
+    }, [resolveStyle, renderers, registry, textScale, textSelectable, customFonts, fallbackComponent, theme, debug]);
 
     const parseAndRender = useCallback((html: string): ReactNode => {
-        const { nodes, errors } = parseHtml(html, parserOptions);
-        if (errors.length > 0 || nodes.length === 0) {
+        const { nodes: parsedNodes, errors, metadata } = parseHtml(registry.beforeParse(html), parserOptions);
+        if (hasFatalParseError(errors)) {
+            return null;
+        }
+        const nodes = registry.transformDocument(parsedNodes, metadata);
+        registry.afterParse(nodes, metadata);
+        if (nodes.length === 0) {
             return null;
         }
         return renderNodes(nodes);
-    }, [parserOptions, renderNodes]);
+    }, [parserOptions, registry, renderNodes]);
 
     const render = useCallback((html: string): ReactNode => {
         return parseAndRender(html);
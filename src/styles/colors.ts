@@ -0,0 +1,503 @@
+/**
+ * CSS Color Parsing
+ * Validates and normalizes CSS Color Level 4 syntax into color strings
+ * React Native accepts, and resolves `currentColor`
+ * @module styles/colors
+ */
+
+import { splitTopLevel } from '../parser/selectors';
+import { splitValueTokens } from './valueTokens';
+import type { RNStyle } from './styleParser';
+
+/**
+ * Sentinel for `currentColor`, resolved once the element's color is known
+ */
+export const CURRENT_COLOR = 'currentcolor';
+
+/**
+ * Color with 0-255 channels and 0-1 alpha
+ */
+interface RGBA {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+/**
+ * CSS named colors (as RRGGBB)
+ */
+const NAMED_COLORS: Record<string, string> = {
+    aliceblue: 'f0f8ff',
+    antiquewhite: 'faebd7',
+    aqua: '00ffff',
+    aquamarine: '7fffd4',
+    azure: 'f0ffff',
+    beige: 'f5f5dc',
+    bisque: 'ffe4c4',
+    black: '000000',
+    blanchedalmond: 'ffebcd',
+    blue: '0000ff',
+    blueviolet: '8a2be2',
+    brown: 'a52a2a',
+    burlywood: 'deb887',
+    cadetblue: '5f9ea0',
+    chartreuse: '7fff00',
+    chocolate: 'd2691e',
+    coral: 'ff7f50',
+    cornflowerblue: '6495ed',
+    cornsilk: 'fff8dc',
+    crimson: 'dc143c',
+    cyan: '00ffff',
+    darkblue: '00008b',
+    darkcyan: '008b8b',
+    darkgoldenrod: 'b8860b',
+    darkgray: 'a9a9a9',
+    darkgreen: '006400',
+    darkgrey: 'a9a9a9',
+    darkkhaki: 'bdb76b',
+    darkmagenta: '8b008b',
+    darkolivegreen: '556b2f',
+    darkorange: 'ff8c00',
+    darkorchid: '9932cc',
+    darkred: '8b0000',
+    darksalmon: 'e9967a',
+    darkseagreen: '8fbc8f',
+    darkslateblue: '483d8b',
+    darkslategray: '2f4f4f',
+    darkslategrey: '2f4f4f',
+    darkturquoise: '00ced1',
+    darkviolet: '9400d3',
+    deeppink: 'ff1493',
+    deepskyblue: '00bfff',
+    dimgray: '696969',
+    dimgrey: '696969',
+    dodgerblue: '1e90ff',
+    firebrick: 'b22222',
+    floralwhite: 'fffaf0',
+    forestgreen: '228b22',
+    fuchsia: 'ff00ff',
+    gainsboro: 'dcdcdc',
+    ghostwhite: 'f8f8ff',
+    gold: 'ffd700',
+    goldenrod: 'daa520',
+    gray: '808080',
+    green: '008000',
+    greenyellow: 'adff2f',
+    grey: '808080',
+    honeydew: 'f0fff0',
+    hotpink: 'ff69b4',
+    indianred: 'cd5c5c',
+    indigo: '4b0082',
+    ivory: 'fffff0',
+    khaki: 'f0e68c',
+    lavender: 'e6e6fa',
+    lavenderblush: 'fff0f5',
+    lawngreen: '7cfc00',
+    lemonchiffon: 'fffacd',
+    lightblue: 'add8e6',
+    lightcoral: 'f08080',
+    lightcyan: 'e0ffff',
+    lightgoldenrodyellow: 'fafad2',
+    lightgray: 'd3d3d3',
+    lightgreen: '90ee90',
+    lightgrey: 'd3d3d3',
+    lightpink: 'ffb6c1',
+    lightsalmon: 'ffa07a',
+    lightseagreen: '20b2aa',
+    lightskyblue: '87cefa',
+    lightslategray: '778899',
+    lightslategrey: '778899',
+    lightsteelblue: 'b0c4de',
+    lightyellow: 'ffffe0',
+    lime: '00ff00',
+    limegreen: '32cd32',
+    linen: 'faf0e6',
+    magenta: 'ff00ff',
+    maroon: '800000',
+    mediumaquamarine: '66cdaa',
+    mediumblue: '0000cd',
+    mediumorchid: 'ba55d3',
+    mediumpurple: '9370db',
+    mediumseagreen: '3cb371',
+    mediumslateblue: '7b68ee',
+    mediumspringgreen: '00fa9a',
+    mediumturquoise: '48d1cc',
+    mediumvioletred: 'c71585',
+    midnightblue: '191970',
+    mintcream: 'f5fffa',
+    mistyrose: 'ffe4e1',
+    moccasin: 'ffe4b5',
+    navajowhite: 'ffdead',
+    navy: '000080',
+    oldlace: 'fdf5e6',
+    olive: '808000',
+    olivedrab: '6b8e23',
+    orange: 'ffa500',
+    orangered: 'ff4500',
+    orchid: 'da70d6',
+    palegoldenrod: 'eee8aa',
+    palegreen: '98fb98',
+    paleturquoise: 'afeeee',
+    palevioletred: 'db7093',
+    papayawhip: 'ffefd5',
+    peachpuff: 'ffdab9',
+    peru: 'cd853f',
+    pink: 'ffc0cb',
+    plum: 'dda0dd',
+    powderblue: 'b0e0e6',
+    purple: '800080',
+    rebeccapurple: '663399',
+    red: 'ff0000',
+    rosybrown: 'bc8f8f',
+    royalblue: '4169e1',
+    saddlebrown: '8b4513',
+    salmon: 'fa8072',
+    sandybrown: 'f4a460',
+    seagreen: '2e8b57',
+    seashell: 'fff5ee',
+    sienna: 'a0522d',
+    silver: 'c0c0c0',
+    skyblue: '87ceeb',
+    slateblue: '6a5acd',
+    slategray: '708090',
+    slategrey: '708090',
+    snow: 'fffafa',
+    springgreen: '00ff7f',
+    steelblue: '4682b4',
+    tan: 'd2b48c',
+    teal: '008080',
+    thistle: 'd8bfd8',
+    tomato: 'ff6347',
+    turquoise: '40e0d0',
+    violet: 'ee82ee',
+    wheat: 'f5deb3',
+    white: 'ffffff',
+    whitesmoke: 'f5f5f5',
+    yellow: 'ffff00',
+    yellowgreen: '9acd32',
+};
+
+/**
+ * Degrees per hue angle unit
+ */
+const ANGLE_UNITS: Record<string, number> = {
+    deg: 1,
+    grad: 0.9,
+    rad: 180 / Math.PI,
+    turn: 360,
+};
+
+/**
+ * Check if a lowercase name is a CSS named color (not an Object.prototype key)
+ */
+function isNamedColor(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(NAMED_COLORS, name);
+}
+
+const HEX_PATTERN = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+
+/**
+ * Clamp a number into a range
+ */
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Parse a number or percentage component
+ *
+ * @param percentScale - Value that 100% maps to
+ */
+function parseComponent(token: string, percentScale: number): number | undefined {
+    if (token.toLowerCase() === 'none') return 0;
+    if (token.endsWith('%')) {
+        const num = token.slice(0, -1);
+        return NUMBER_PATTERN.test(num) ? (parseFloat(num) / 100) * percentScale : undefined;
+    }
+    return NUMBER_PATTERN.test(token) ? parseFloat(token) : undefined;
+}
+
+/**
+ * Parse a hue (number or angle) into degrees
+ */
+function parseHue(token: string): number | undefined {
+    if (token.toLowerCase() === 'none') return 0;
+    const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|grad|rad|turn)?$/i);
+    if (!match) return undefined;
+    const degrees = parseFloat(match[1]) * ANGLE_UNITS[match[2]?.toLowerCase() ?? 'deg'];
+    return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Split color function arguments into channels and alpha, accepting both
+ * the legacy comma syntax and the modern space syntax with `/ alpha`
+ */
+function splitColorArguments(args: string): { channels: string[]; alpha?: string } | undefined {
+    const commaParts = splitTopLevel(args, ',').map(part => part.trim());
+    if (commaParts.length > 1) {
+        if (commaParts.length < 3 || commaParts.length > 4 || commaParts.some(part => !part)) return undefined;
+        return { channels: commaParts.slice(0, 3), alpha: commaParts[3] };
+    }
+
+    const [channelText, alpha, ...rest] = splitTopLevel(args, '/');
+    if (rest.length > 0 || (alpha !== undefined && !alpha.trim())) return undefined;
+
+    const channels = splitValueTokens(channelText);
+    if (channels.length !== 3) return undefined;
+    return { channels, alpha: alpha?.trim() };
+}
+
+/**
+ * Parse an alpha value (number or percentage), defaulting to 1
+ */
+function parseAlpha(token: string | undefined): number | undefined {
+    if (token === undefined) return 1;
+    const alpha = parseComponent(token, 1);
+    return alpha === undefined ? undefined : clamp(alpha, 0, 1);
+}
+
+/**
+ * Convert HSL (degrees, 0-1, 0-1) into RGB channels
+ */
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+    const f = (n: number): number => {
+        const k = (n + hue / 30) % 12;
+        const a = saturation * Math.min(lightness, 1 - lightness);
+        return (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return [f(0), f(8), f(4)];
+}
+
+/**
+ * Convert HWB (degrees, 0-1, 0-1) into RGB channels
+ */
+function hwbToRgb(hue: number, whiteness: number, blackness: number): [number, number, number] {
+    if (whiteness + blackness >= 1) {
+        const gray = (whiteness / (whiteness + blackness)) * 255;
+        return [gray, gray, gray];
+    }
+    return hslToRgb(hue, 1, 0.5).map(
+        channel => channel * (1 - whiteness - blackness) + whiteness * 255
+    ) as [number, number, number];
+}
+
+/**
+ * Parse a hex color
+ */
+function parseHex(value: string): RGBA {
+    let hex = value.slice(1);
+    if (hex.length <= 4) {
+        hex = hex.split('').map(char => char + char).join('');
+    }
+    return {
+        r: parseInt(hex.slice(0, 2), 16),
+        g: parseInt(hex.slice(2, 4), 16),
+        b: parseInt(hex.slice(4, 6), 16),
+        a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+    };
+}
+
+/**
+ * Parse rgb()/rgba(), hsl()/hsla() and hwb() arguments
+ */
+function parseColorFunction(name: string, args: string): RGBA | undefined {
+    const parts = splitColorArguments(args);
+    if (!parts) return undefined;
+
+    const a = parseAlpha(parts.alpha);
+    if (a === undefined) return undefined;
+
+    const { channels } = parts;
+    let rgb: [number, number, number];
+
+    if (name === 'rgb' || name === 'rgba') {
+        const values = channels.map(channel => parseComponent(channel, 255));
+        if (values.some(value => value === undefined)) return undefined;
+        rgb = values as [number, number, number];
+    } else {
+        const hue = parseHue(channels[0]);
+        const x = parseComponent(channels[1], 100);
+        const y = parseComponent(channels[2], 100);
+        if (hue === undefined || x === undefined || y === undefined) return undefined;
+
+        const first = clamp(x, 0, 100) / 100;
+        const second = clamp(y, 0, 100) / 100;
+        rgb = name === 'hwb' ? hwbToRgb(hue, first, second) : hslToRgb(hue, first, second);
+    }
+
+    const [r, g, b] = rgb.map(channel => clamp(channel, 0, 255));
+    return { r, g, b, a };
+}
+
+/**
+ * Parse `color-mix(in <space>, <color> [<percentage>], <color> [<percentage>])`
+ *
+ * Colors are interpolated in sRGB with premultiplied alpha; other
+ * interpolation spaces are approximated in sRGB.
+ */
+function parseColorMix(args: string, currentColor?: string): RGBA | undefined {
+    const [space, ...colors] = splitTopLevel(args, ',').map(part => part.trim());
+    if (!/^in\s+[a-z-]+(?:\s+(?:shorter|longer|increasing|decreasing)\s+hue)?$/i.test(space ?? '')) return undefined;
+    if (colors.length !== 2) return undefined;
+
+    const stops: { color: RGBA; percentage?: number }[] = [];
+    for (const stop of colors) {
+        const tokens = splitValueTokens(stop);
+        const percentToken = tokens.find(token => token.endsWith('%'));
+        const colorToken = tokens.filter(token => token !== percentToken);
+        if (colorToken.length !== 1) return undefined;
+
+        const color = toRGBA(colorToken[0], currentColor);
+        const percentage = percentToken === undefined ? undefined : parseComponent(percentToken, 1);
+        if (!color || (percentToken !== undefined && percentage === undefined)) return undefined;
+        stops.push({ color, percentage });
+    }
+
+    let [p1, p2] = stops.map(stop => stop.percentage);
+    if (p1 === undefined && p2 === undefined) {
+        p1 = p2 = 0.5;
+    } else if (p1 === undefined) {
+        p1 = 1 - p2!;
+    } else if (p2 === undefined) {
+        p2 = 1 - p1;
+    }
+    const total = p1 + p2!;
+    if (p1 < 0 || p2! < 0 || total <= 0) return undefined;
+
+    // Percentages summing below 100% reduce the result's alpha
+    const alphaMultiplier = Math.min(total, 1);
+    const w1 = p1 / total;
+    const w2 = p2! / total;
+    const [c1, c2] = stops.map(stop => stop.color);
+
+    const a = c1.a * w1 + c2.a * w2;
+    const mix = (channel: 'r' | 'g' | 'b'): number =>
+        a === 0 ? 0 : (c1[channel] * c1.a * w1 + c2[channel] * c2.a * w2) / a;
+
+    return { r: mix('r'), g: mix('g'), b: mix('b'), a: a * alphaMultiplier };
+}
+
+/**
+ * Parse any supported color into channels
+ */
+function toRGBA(value: string, currentColor?: string): RGBA | undefined {
+    const trimmed = value.trim();
+    const lower = trimmed.toLowerCase();
+
+    if (lower === CURRENT_COLOR) {
+        return currentColor && currentColor.toLowerCase() !== CURRENT_COLOR
+            ? toRGBA(currentColor)
+            : undefined;
+    }
+    if (lower === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+    if (isNamedColor(lower)) return parseHex(`#${NAMED_COLORS[lower]}`);
+    if (HEX_PATTERN.test(trimmed)) return parseHex(trimmed);
+
+    const fn = trimmed.match(/^([a-z-]+)\(([\s\S]*)\)$/i);
+    if (!fn) return undefined;
+
+    const name = fn[1].toLowerCase();
+    if (name === 'color-mix') return parseColorMix(fn[2], currentColor);
+    if (['rgb', 'rgba', 'hsl', 'hsla', 'hwb'].includes(name)) return parseColorFunction(name, fn[2]);
+    return undefined;
+}
+
+/**
+ * Format channels as an `rgb()`/`rgba()` string
+ */
+function formatRGBA({ r, g, b, a }: RGBA): string {
+    const channels = [r, g, b].map(channel => Math.round(channel)).join(', ');
+    return a >= 1 ? `rgb(${channels})` : `rgba(${channels}, ${Math.round(a * 1000) / 1000})`;
+}
+
+/**
+ * Check if a color value references `currentColor`
+ */
+export function hasCurrentColor(value: unknown): value is string {
+    return typeof value === 'string' && value.toLowerCase().includes(CURRENT_COLOR);
+}
+
+/**
+ * Parse a CSS color into a form React Native accepts
+ *
+ * Hex colors (including `#RGBA`/`#RRGGBBAA`), named colors and `transparent`
+ * are kept; `rgb()`, `hsl()`, `hwb()` (legacy and space-separated syntax)
+ * and `color-mix()` are converted to `rgb()`/`rgba()`. Without a
+ * `currentColor` argument, values referencing `currentColor` are returned
+ * lowercased so they can be resolved later (see `resolveCurrentColor`).
+ *
+ * @param value - CSS color
+ * @param currentColor - Value of `currentColor`
+ * @returns Normalized color, or undefined if the color is invalid
+ *
+ * @example
+ * ```typescript
+ * parseColor('rgb(0 0 0 / 50%)'); // 'rgba(0, 0, 0, 0.5)'
+ * parseColor('hsl(120deg 100% 25%)'); // 'rgb(0, 128, 0)'
+ * parseColor('#0000'); // '#0000'
+ * parseColor('nope'); // undefined
+ * ```
+ */
+export function parseColor(value: string, currentColor?: string): string | undefined {
+    const trimmed = value.trim();
+    const lower = trimmed.toLowerCase();
+
+    if (currentColor === undefined && hasCurrentColor(lower)) {
+        return lower === CURRENT_COLOR || toRGBA(lower, 'black') ? lower : undefined;
+    }
+    if (lower === CURRENT_COLOR) {
+        return currentColor!.toLowerCase() === CURRENT_COLOR ? undefined : parseColor(currentColor!);
+    }
+    if (lower === 'transparent' || isNamedColor(lower)) return lower;
+    if (HEX_PATTERN.test(trimmed)) return trimmed;
+
+    const rgba = toRGBA(trimmed, currentColor);
+    return rgba ? formatRGBA(rgba) : undefined;
+}
+
+/**
+ * Check if a value is a valid CSS color
+ */
+export function isValidColor(value: string): boolean {
+    return parseColor(value) !== undefined;
+}
+
+/**
+ * Resolve `currentColor` references in a style
+ *
+ * `color: currentColor` takes the inherited color; every other property
+ * uses the element's own computed color.
+ *
+ * @param style - Style that may contain `currentColor`
+ * @param inheritedColor - Color inherited from the parent
+ * @returns Style without `currentColor` references
+ */
+export function resolveCurrentColor(style: RNStyle, inheritedColor?: unknown): RNStyle {
+    const source = style as Record<string, unknown>;
+    const needsResolution = Object.values(source).some(
+        value => hasCurrentColor(value) || (Array.isArray(value) && value.some(item => hasCurrentColor(item?.color)))
+    );
+    if (!needsResolution) return style;
+
+    const fallback = typeof inheritedColor === 'string' ? inheritedColor : 'black';
+    const result: Record<string, unknown> = { ...source };
+
+    if (hasCurrentColor(source.color)) {
+        result.color = parseColor(source.color, fallback) ?? fallback;
+    }
+    const color = typeof result.color === 'string' ? result.color : fallback;
+
+    for (const [key, value] of Object.entries(result)) {
+        if (key === 'boxShadow' && Array.isArray(value)) {
+            result.boxShadow = value.map(shadow =>
+                hasCurrentColor(shadow?.color) ? { ...shadow, color: parseColor(shadow.color, color) ?? color } : shadow
+            );
+        } else if (key !== 'color' && hasCurrentColor(value)) {
+            result[key] = parseColor(value, color) ?? color;
+        }
+    }
+
+    return result as RNStyle;
+}
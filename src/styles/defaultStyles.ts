@@ -5,6 +5,12 @@
  */
 
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
+import { lightTheme, type HtmlTheme } from './theme';
+
+/**
+ * Default styles keyed by tag name
+ */
+export type DefaultTagStyles = Record<string, ViewStyle | TextStyle | ImageStyle>;
 
 /**
  * Default text style applied to all text
@@ -12,299 +18,365 @@ import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
 export const defaultTextStyle: TextStyle = {
     fontSize: 16,
     lineHeight: 24,
-    color: '#1a1a1a',
+    color: lightTheme.colors.text,
 };
 
 /**
- * Default styles for each supported HTML tag
+ * Create the default styles for each supported HTML tag
+ *
+ * @param theme - Theme providing the colors
+ * @returns Default tag styles
  */
-export const defaultTagStyles: Record<string, ViewStyle | TextStyle | ImageStyle> = {
-    // Block elements
-    div: {
-        flexDirection: 'column',
-    },
-
-    p: {
-        marginVertical: 12,
-    },
-
-    blockquote: {
-        marginVertical: 16,
-        marginHorizontal: 0,
-        paddingLeft: 16,
-        borderLeftWidth: 4,
-        borderLeftColor: '#e0e0e0',
-        fontStyle: 'italic',
-        color: '#666666',
-    },
-
-    article: {
-        flexDirection: 'column',
-    },
-
-    section: {
-        flexDirection: 'column',
-    },
-
-    header: {
-        flexDirection: 'column',
-    },
-
-    footer: {
-        flexDirection: 'column',
-    },
-
-    main: {
-        flexDirection: 'column',
-    },
-
-    aside: {
-        flexDirection: 'column',
-    },
-
-    nav: {
-        flexDirection: 'column',
-    },
-
-    // Headings
-    h1: {
-        fontSize: 32,
-        fontWeight: 'bold',
-        marginTop: 24,
-        marginBottom: 16,
-        lineHeight: 40,
-    },
-
-    h2: {
-        fontSize: 28,
-        fontWeight: 'bold',
-        marginTop: 20,
-        marginBottom: 14,
-        lineHeight: 36,
-    },
-
-    h3: {
-        fontSize: 24,
-        fontWeight: 'bold',
-        marginTop: 18,
-        marginBottom: 12,
-        lineHeight: 32,
-    },
-
-    h4: {
-        fontSize: 20,
-        fontWeight: 'bold',
-        marginTop: 16,
-        marginBottom: 10,
-        lineHeight: 28,
-    },
-
-    h5: {
-        fontSize: 18,
-        fontWeight: 'bold',
-        marginTop: 14,
-        marginBottom: 8,
-        lineHeight: 26,
-    },
-
-    h6: {
-        fontSize: 16,
-        fontWeight: 'bold',
-        marginTop: 12,
-        marginBottom: 8,
-        lineHeight: 24,
-    },
-
-    // Text formatting
-    span: {},
-
-    strong: {
-        fontWeight: 'bold',
-    },
-
-    b: {
-        fontWeight: 'bold',
-    },
-
-    em: {
-        fontStyle: 'italic',
-    },
-
-    i: {
-        fontStyle: 'italic',
-    },
-
-    u: {
-        textDecorationLine: 'underline',
-    },
-
-    s: {
-        textDecorationLine: 'line-through',
-    },
-
-    strike: {
-        textDecorationLine: 'line-through',
-    },
-
-    del: {
-        textDecorationLine: 'line-through',
-        color: '#888888',
-    },
-
-    ins: {
-        textDecorationLine: 'underline',
-        color: '#2e7d32',
-    },
-
-    mark: {
-        backgroundColor: '#ffeb3b',
-        color: '#1a1a1a',
-    },
-
-    small: {
-        fontSize: 12,
-    },
-
-    sub: {
-        fontSize: 12,
-    },
-
-    sup: {
-        fontSize: 12,
-    },
-
-    // Lists
-    ul: {
-        marginVertical: 12,
-        paddingLeft: 20,
-    },
-
-    ol: {
-        marginVertical: 12,
-        paddingLeft: 20,
-    },
-
-    li: {
-        marginVertical: 4,
-        flexDirection: 'row',
-    },
-
-    // Links
-    a: {
-        color: '#1976d2',
-        textDecorationLine: 'underline',
-    },
-
-    // Images
-    img: {},
-
-    // Horizontal rule
-    hr: {
-        height: 1,
-        backgroundColor: '#e0e0e0',
-        marginVertical: 16,
-        borderWidth: 0,
-    },
-
-    // Tables
-    table: {
-        borderWidth: 1,
-        borderColor: '#e0e0e0',
-        marginVertical: 12,
-    },
-
-    thead: {
-        backgroundColor: '#f5f5f5',
-    },
-
-    tbody: {},
-
-    tfoot: {
-        backgroundColor: '#f5f5f5',
-    },
-
-    tr: {
-        flexDirection: 'row',
-        borderBottomWidth: 1,
-        borderBottomColor: '#e0e0e0',
-    },
-
-    th: {
-        flex: 1,
-        padding: 8,
-        fontWeight: 'bold',
-        borderRightWidth: 1,
-        borderRightColor: '#e0e0e0',
-        textAlign: 'center',
-    },
-
-    td: {
-        flex: 1,
-        padding: 8,
-        borderRightWidth: 1,
-        borderRightColor: '#e0e0e0',
-    },
-
-    caption: {
-        textAlign: 'center',
-        fontStyle: 'italic',
-        marginBottom: 8,
-    },
-
-    // Code
-    pre: {
-        backgroundColor: '#f5f5f5',
-        padding: 12,
-        borderRadius: 4,
-        marginVertical: 12,
-        overflow: 'hidden',
-    },
-
-    code: {
-        fontFamily: 'monospace',
-        fontSize: 14,
-        backgroundColor: '#f5f5f5',
-        paddingHorizontal: 4,
-        paddingVertical: 2,
-        borderRadius: 2,
-    },
-
-    // Other
-    figure: {
-        alignItems: 'center',
-        marginVertical: 16,
-    },
-
-    figcaption: {
-        fontSize: 14,
-        fontStyle: 'italic',
-        color: '#666666',
-        marginTop: 8,
-        textAlign: 'center',
-    },
-
-    details: {
-        marginVertical: 8,
-    },
-
-    summary: {
-        fontWeight: 'bold',
-    },
-
-    // Line break (rendered as empty, but can have margin)
-    br: {
-        height: 0,
-    },
-};
+export function createDefaultTagStyles(theme: HtmlTheme): DefaultTagStyles {
+    const { colors } = theme;
+
+    return {
+        // Block elements
+        div: {
+            flexDirection: 'column',
+        },
+
+        p: {
+            marginVertical: 12,
+        },
+
+        blockquote: {
+            marginVertical: 16,
+            marginHorizontal: 0,
+            paddingLeft: 16,
+            borderLeftWidth: 4,
+            borderLeftColor: colors.border,
+            fontStyle: 'italic',
+            color: colors.textSecondary,
+        },
+
+        article: {
+            flexDirection: 'column',
+        },
+
+        section: {
+            flexDirection: 'column',
+        },
+
+        header: {
+            flexDirection: 'column',
+        },
+
+        footer: {
+            flexDirection: 'column',
+        },
+
+        main: {
+            flexDirection: 'column',
+        },
+
+        aside: {
+            flexDirection: 'column',
+        },
+
+        nav: {
+            flexDirection: 'column',
+        },
+
+        // Headings
+        h1: {
+            fontSize: 32,
+            fontWeight: 'bold',
+            marginTop: 24,
+            marginBottom: 16,
+            lineHeight: 40,
+        },
+
+        h2: {
+            fontSize: 28,
+            fontWeight: 'bold',
+            marginTop: 20,
+            marginBottom: 14,
+            lineHeight: 36,
+        },
+
+        h3: {
+            fontSize: 24,
+            fontWeight: 'bold',
+            marginTop: 18,
+            marginBottom: 12,
+            lineHeight: 32,
+        },
+
+        h4: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            marginTop: 16,
+            marginBottom: 10,
+            lineHeight: 28,
+        },
+
+        h5: {
+            fontSize: 18,
+            fontWeight: 'bold',
+            marginTop: 14,
+            marginBottom: 8,
+            lineHeight: 26,
+        },
+
+        h6: {
+            fontSize: 16,
+            fontWeight: 'bold',
+            marginTop: 12,
+            marginBottom: 8,
+            lineHeight: 24,
+        },
+
+        // Text formatting
+        span: {},
+
+        strong: {
+            fontWeight: 'bold',
+        },
+
+        b: {
+            fontWeight: 'bold',
+        },
+
+        em: {
+            fontStyle: 'italic',
+        },
+
+        i: {
+            fontStyle: 'italic',
+        },
+
+        u: {
+            textDecorationLine: 'underline',
+        },
+
+        s: {
+            textDecorationLine: 'line-through',
+        },
+
+        strike: {
+            textDecorationLine: 'line-through',
+        },
+
+        del: {
+            textDecorationLine: 'line-through',
+            color: colors.deleted,
+        },
+
+        ins: {
+            textDecorationLine: 'underline',
+            color: colors.inserted,
+        },
+
+        mark: {
+            backgroundColor: colors.mark,
+            color: colors.markText,
+        },
+
+        small: {
+            fontSize: 12,
+        },
+
+        sub: {
+            fontSize: 12,
+        },
+
+        sup: {
+            fontSize: 12,
+        },
+
+        // Lists
+        ul: {
+            marginVertical: 12,
+            paddingLeft: 20,
+        },
+
+        ol: {
+            marginVertical: 12,
+            paddingLeft: 20,
+        },
+
+        li: {
+            marginVertical: 4,
+            flexDirection: 'row',
+        },
+
+        // Links
+        a: {
+            color: colors.link,
+            textDecorationLine: 'underline',
+        },
+
+        // Images
+        img: {},
+
+        // Horizontal rule
+        hr: {
+            height: 1,
+            backgroundColor: colors.border,
+            marginVertical: 16,
+            borderWidth: 0,
+        },
+
+        // Tables
+        table: {
+            borderWidth: 1,
+            borderColor: colors.border,
+            marginVertical: 12,
+        },
+
+        thead: {
+            backgroundColor: colors.surface,
+        },
+
+        tbody: {},
+
+        tfoot: {
+            backgroundColor: colors.surface,
+        },
+
+        tr: {
+            flexDirection: 'row',
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+        },
+
+        th: {
+            flex: 1,
+            padding: 8,
+            fontWeight: 'bold',
+            borderRightWidth: 1,
+            borderRightColor: colors.border,
+            textAlign: 'center',
+        },
+
+        td: {
+            flex: 1,
+            padding: 8,
+            borderRightWidth: 1,
+            borderRightColor: colors.border,
+        },
+
+        caption: {
+            textAlign: 'center',
+            fontStyle: 'italic',
+            marginBottom: 8,
+        },
+
+        // Code
+        pre: {
+            backgroundColor: colors.codeBlockBackground,
+            color: colors.codeBlock,
+            padding: 12,
+            borderRadius: 4,
+            marginVertical: 12,
+            overflow: 'hidden',
+        },
+
+        code: {
+            fontFamily: 'monospace',
+            fontSize: 14,
+            color: colors.code,
+            backgroundColor: colors.codeBackground,
+            paddingHorizontal: 4,
+            paddingVertical: 2,
+            borderRadius: 2,
+        },
+
+        // Code inside a code block takes the block colors
+        'pre code': {
+            color: colors.codeBlock,
+            backgroundColor: 'transparent',
+            paddingHorizontal: 0,
+            paddingVertical: 0,
+        },
+
+        // Other
+        figure: {
+            alignItems: 'center',
+            marginVertical: 16,
+        },
+
+        figcaption: {
+            fontSize: 14,
+            fontStyle: 'italic',
+            color: colors.textSecondary,
+            marginTop: 8,
+            textAlign: 'center',
+        },
+
+        details: {
+            marginVertical: 8,
+        },
+
+        summary: {
+            fontWeight: 'bold',
+        },
+
+        // Line break (rendered as empty, but can have margin)
+        br: {
+            height: 0,
+        },
+    };
+}
+
+/**
+ * Default styles for each supported HTML tag (light theme)
+ */
+export const defaultTagStyles: DefaultTagStyles = createDefaultTagStyles(lightTheme);
+
+/**
+ * Default tag styles per theme, created on first use
+ */
+const themedTagStyles = new WeakMap<HtmlTheme, DefaultTagStyles>([[lightTheme, defaultTagStyles]]);
+
+/**
+ * Get the default tag styles for a theme
+ *
+ * @param theme - Theme providing the colors
+ * @returns Default tag styles (cached per theme object)
+ */
+export function getDefaultTagStyles(theme: HtmlTheme = lightTheme): DefaultTagStyles {
+    let styles = themedTagStyles.get(theme);
+    if (!styles) {
+        styles = createDefaultTagStyles(theme);
+        themedTagStyles.set(theme, styles);
+    }
+    return styles;
+}
 
 /**
  * Get the default style for a tag
  * 
  * @param tagName - HTML tag name (lowercase)
+ * @param theme - Theme providing the colors (defaults to the light theme)
  * @returns Default style for the tag or empty object
  */
-export function getDefaultTagStyle(tagName: string): ViewStyle | TextStyle | ImageStyle {
-    return defaultTagStyles[tagName] || {};
+export function getDefaultTagStyle(
+    tagName: string,
+    theme: HtmlTheme = lightTheme
+): ViewStyle | TextStyle | ImageStyle {
+    return getDefaultTagStyles(theme)[tagName] || {};
+}
+
+/**
+ * Get the default style for an element, including styles that depend on
+ * its parent (e.g., `code` inside `pre`)
+ *
+ * @param tagName - HTML tag name (lowercase)
+ * @param parentTagName - Tag name of the parent element
+ * @param theme - Theme providing the colors
+ * @returns Default style for the element
+ */
+export function getDefaultElementStyle(
+    tagName: string,
+    parentTagName: string | undefined,
+    theme: HtmlTheme = lightTheme
+): ViewStyle | TextStyle | ImageStyle {
+    const styles = getDefaultTagStyles(theme);
+    const tagStyle = styles[tagName] || {};
+    const contextualStyle = parentTagName ? styles[`${parentTagName} ${tagName}`] : undefined;
+    return contextualStyle ? { ...tagStyle, ...contextualStyle } as ViewStyle | TextStyle : tagStyle;
 }
 
 /**
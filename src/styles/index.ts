@@ -5,25 +5,103 @@
 
 export {
     parseInlineStyle,
+    parseDeclarations,
     parseBoxShorthand,
     mergeStyles,
     isEmptyStyle,
     type RNStyle,
+    type StyleWarningHandler,
 } from './styleParser';
 
+export {
+    parseColor,
+    isValidColor,
+    resolveCurrentColor,
+    CURRENT_COLOR,
+} from './colors';
+
+export {
+    expandShorthand,
+    parseFontFamily,
+} from './shorthands';
+
+export {
+    parseBoxShadow,
+    parseTextShadow,
+    supportsBoxShadow,
+} from './shadows';
+
+export { parseTransform } from './transforms';
+
+export {
+    substituteVariables,
+    resolveVariables,
+    collectCustomProperties,
+    normalizeCustomProperties,
+    type CustomProperties,
+} from './variables';
+
+export {
+    splitValueTokens,
+    type ValueParser,
+} from './valueTokens';
+
+export {
+    resolveStyleUnits,
+    resolveLength,
+    isRelativeLength,
+    createUnitContext,
+    DEFAULT_ROOT_FONT_SIZE,
+    type UnitContext,
+} from './units';
+
+export {
+    lightTheme,
+    darkTheme,
+    createTheme,
+    resolveTheme,
+    createThemedStyles,
+    type HtmlTheme,
+    type HtmlThemeColors,
+    type ThemeSetting,
+} from './theme';
+
 export {
     defaultTagStyles,
     defaultTextStyle,
+    createDefaultTagStyles,
+    getDefaultTagStyles,
     getDefaultTagStyle,
+    getDefaultElementStyle,
     isTextOnlyTag,
     isHeadingTag,
     TEXT_ONLY_TAGS,
     HEADING_TAGS,
+    type DefaultTagStyles,
 } from './defaultStyles';
 
+export {
+    matchesMediaQuery,
+    resolveMediaStyle,
+    createMediaEnvironment,
+    type MediaEnvironment,
+    type MediaStyle,
+} from './mediaQueries';
+
+export {
+    parseCssRules,
+    createStylesheet,
+    getMatchingRules,
+    type CssRule,
+    type Stylesheet,
+} from './stylesheet';
+
 export {
     createStyleResolver,
     defaultStyleResolver,
+    getInheritableStyle,
+    getRootTextStyle,
+    INHERITED_STYLE_PROPERTIES,
     resolveTreeStyles,
     extractClassNames,
     createResponsiveStyle,
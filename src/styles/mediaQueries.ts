@@ -0,0 +1,327 @@
+/**
+ * Media Queries
+ * Evaluates CSS media queries against the window size, color scheme and
+ * motion preference
+ * @module styles/mediaQueries
+ */
+
+import { Appearance, Dimensions } from 'react-native';
+import type { RNStyle } from './styleParser';
+import { absoluteToPixels, DEFAULT_ROOT_FONT_SIZE } from './units';
+
+/**
+ * Environment that media queries are evaluated against
+ */
+export interface MediaEnvironment {
+    /** Viewport width */
+    width: number;
+    /** Viewport height */
+    height: number;
+    /** Active color scheme */
+    colorScheme: 'light' | 'dark';
+    /** Whether the user prefers reduced motion */
+    reducedMotion: boolean;
+}
+
+/**
+ * Style that may contain `@media` blocks, e.g. in `classesStyles`
+ *
+ * @example
+ * ```typescript
+ * const card: MediaStyle = {
+ *   padding: 8,
+ *   '@media (min-width: 600px)': { padding: 16 },
+ * };
+ * ```
+ */
+export type MediaStyle<T = RNStyle> = T & {
+    [query: `@media ${string}`]: T;
+};
+
+/**
+ * Media types that apply to a device screen
+ */
+const SCREEN_MEDIA_TYPES = new Set(['all', 'screen']);
+
+/**
+ * Create a media environment from the current window and appearance
+ *
+ * @param overrides - Values to override
+ * @returns Media environment
+ */
+export function createMediaEnvironment(overrides: Partial<MediaEnvironment> = {}): MediaEnvironment {
+    const window = Dimensions.get('window');
+    return {
+        width: window.width,
+        height: window.height,
+        colorScheme: Appearance.getColorScheme() === 'dark' ? 'dark' : 'light',
+        reducedMotion: false,
+        ...overrides,
+    };
+}
+
+/**
+ * Parse a media feature value into pixels or a ratio
+ */
+function parseFeatureNumber(value: string): number | undefined {
+    const trimmed = value.trim();
+
+    const ratio = trimmed.match(/^(\d+\.?\d*)\s*\/\s*(\d+\.?\d*)$/);
+    if (ratio) {
+        const denominator = parseFloat(ratio[2]);
+        return denominator === 0 ? undefined : parseFloat(ratio[1]) / denominator;
+    }
+
+    const length = trimmed.match(/^(-?(?:\d+\.?\d*|\.\d+))([a-z]*)$/i);
+    if (!length) return undefined;
+
+    const num = parseFloat(length[1]);
+    const unit = length[2].toLowerCase();
+    // Relative units in media queries use the initial font size
+    if (unit === 'em' || unit === 'rem') return num * DEFAULT_ROOT_FONT_SIZE;
+    if (!unit) return num;
+    return absoluteToPixels(num, unit);
+}
+
+/**
+ * Get the numeric value of a range feature
+ */
+function getRangeFeature(name: string, env: MediaEnvironment): number | undefined {
+    switch (name) {
+        case 'width':
+        case 'device-width':
+            return env.width;
+        case 'height':
+        case 'device-height':
+            return env.height;
+        case 'aspect-ratio':
+        case 'device-aspect-ratio':
+            return env.height === 0 ? undefined : env.width / env.height;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Compare two numbers with a range operator
+ */
+function compare(left: number, operator: string, right: number): boolean {
+    switch (operator) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        default: return left === right;
+    }
+}
+
+/**
+ * Evaluate a single media feature (the contents of one parenthesis)
+ */
+function evaluateFeature(feature: string, env: MediaEnvironment): boolean {
+    const text = feature.trim().toLowerCase();
+
+    // Range syntax: (width >= 600px), (400px <= width < 800px)
+    const range = text.split(/\s*(<=|>=|<|>|=)\s*/);
+    if (range.length === 3 || range.length === 5) {
+        const terms = range.filter((_, index) => index % 2 === 0);
+        const operators = range.filter((_, index) => index % 2 === 1);
+        const nameIndex = terms.findIndex(term => getRangeFeature(term, env) !== undefined);
+        if (nameIndex === -1 || (range.length === 5 && nameIndex !== 1)) return false;
+
+        const values = terms.map((term, index) =>
+            index === nameIndex ? getRangeFeature(term, env) : parseFeatureNumber(term)
+        );
+        if (values.some(value => value === undefined)) return false;
+
+        return operators.every((operator, index) =>
+            compare(values[index]!, operator, values[index + 1]!)
+        );
+    }
+
+    const colon = text.indexOf(':');
+    const name = (colon === -1 ? text : text.slice(0, colon)).trim();
+    const value = colon === -1 ? undefined : text.slice(colon + 1).trim();
+
+    switch (name) {
+        case 'orientation':
+            return value === (env.height >= env.width ? 'portrait' : 'landscape');
+        case 'prefers-color-scheme':
+            return value === undefined || value === env.colorScheme;
+        case 'prefers-reduced-motion':
+            return value === undefined ? env.reducedMotion : value === (env.reducedMotion ? 'reduce' : 'no-preference');
+        case 'color':
+            return true;
+    }
+
+    const prefix = name.match(/^(min|max)-(.+)$/);
+    const actual = getRangeFeature(prefix ? prefix[2] : name, env);
+    if (actual === undefined) return false;
+    if (value === undefined) return !prefix && actual !== 0;
+
+    const expected = parseFeatureNumber(value);
+    if (expected === undefined) return false;
+    if (!prefix) return actual === expected;
+    return prefix[1] === 'min' ? actual >= expected : actual <= expected;
+}
+
+/**
+ * Recursive-descent evaluator for media conditions
+ * (`(a) and (b)`, `(a) or (b)`, `not (a)`, nested parentheses)
+ */
+class MediaConditionEvaluator {
+    private pos = 0;
+
+    constructor(private readonly text: string, private readonly env: MediaEnvironment) {}
+
+    evaluate(): boolean | undefined {
+        const result = this.parseCondition();
+        this.skipWhitespace();
+        return this.pos === this.text.length ? result : undefined;
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private readKeyword(): string | undefined {
+        this.skipWhitespace();
+        const match = this.text.slice(this.pos).match(/^(and|or|not)\b/i);
+        if (!match) return undefined;
+        this.pos += match[0].length;
+        return match[1].toLowerCase();
+    }
+
+    private parseCondition(): boolean | undefined {
+        const start = this.pos;
+        if (this.readKeyword() === 'not') {
+            const inner = this.parseInParens();
+            return inner === undefined ? undefined : !inner;
+        }
+        this.pos = start;
+
+        let result = this.parseInParens();
+        let combinator: string | undefined;
+
+        for (;;) {
+            const before = this.pos;
+            const keyword = this.readKeyword();
+            if (keyword !== 'and' && keyword !== 'or') {
+                this.pos = before;
+                break;
+            }
+            // Mixing `and` and `or` without parentheses is invalid
+            if (combinator && combinator !== keyword) return undefined;
+            combinator = keyword;
+
+            const next = this.parseInParens();
+            if (result === undefined || next === undefined) return undefined;
+            result = keyword === 'and' ? result && next : result || next;
+        }
+
+        return result;
+    }
+
+    private parseInParens(): boolean | undefined {
+        this.skipWhitespace();
+        if (this.text[this.pos] !== '(') return undefined;
+
+        let depth = 0;
+        const start = this.pos;
+        for (; this.pos < this.text.length; this.pos++) {
+            if (this.text[this.pos] === '(') depth++;
+            else if (this.text[this.pos] === ')' && --depth === 0) break;
+        }
+        if (depth !== 0) return undefined;
+
+        const inner = this.text.slice(start + 1, this.pos);
+        this.pos++;
+
+        // Nested condition or a single feature
+        if (/^\s*(?:\(|not\b)/i.test(inner)) {
+            return new MediaConditionEvaluator(inner, this.env).evaluate();
+        }
+        return evaluateFeature(inner, this.env);
+    }
+}
+
+/**
+ * Evaluate one media query (no commas)
+ */
+function evaluateQuery(query: string, env: MediaEnvironment): boolean {
+    const text = query.trim();
+    if (!text) return false;
+
+    // Media type with optional modifier and condition: `not screen and (...)`
+    const typed = text.match(/^(?:(not|only)\s+)?([a-z-]+)(?:\s+and\s+([\s\S]+))?$/i);
+    if (typed && !/^(not|and|or)$/i.test(typed[2])) {
+        const typeMatches = SCREEN_MEDIA_TYPES.has(typed[2].toLowerCase());
+        const conditionMatches = typed[3] === undefined
+            ? true
+            : new MediaConditionEvaluator(typed[3], env).evaluate();
+        if (conditionMatches === undefined) return false;
+
+        const matches = typeMatches && conditionMatches;
+        return typed[1]?.toLowerCase() === 'not' ? !matches : matches;
+    }
+
+    return new MediaConditionEvaluator(text, env).evaluate() ?? false;
+}
+
+/**
+ * Check if a media query list matches the environment
+ *
+ * @param query - Media query list (e.g., `"screen and (min-width: 600px), print"`)
+ * @param env - Environment to evaluate against
+ * @returns Whether any query in the list matches
+ *
+ * @example
+ * ```typescript
+ * matchesMediaQuery('(prefers-color-scheme: dark)', env);
+ * matchesMediaQuery('(400px <= width < 800px) and (orientation: portrait)', env);
+ * ```
+ */
+export function matchesMediaQuery(query: string, env: MediaEnvironment): boolean {
+    let depth = 0;
+    let start = 0;
+    const queries: string[] = [];
+
+    for (let i = 0; i < query.length; i++) {
+        if (query[i] === '(') depth++;
+        else if (query[i] === ')') depth--;
+        else if (query[i] === ',' && depth === 0) {
+            queries.push(query.slice(start, i));
+            start = i + 1;
+        }
+    }
+    queries.push(query.slice(start));
+
+    return queries.some(item => evaluateQuery(item, env));
+}
+
+/**
+ * Apply the matching `@media` blocks of a style
+ *
+ * @param style - Style that may contain `@media` blocks
+ * @param env - Environment to evaluate against
+ * @returns Style without `@media` keys, with matching blocks merged in order
+ */
+export function resolveMediaStyle(style: MediaStyle, env: MediaEnvironment): RNStyle {
+    const entries = Object.entries(style);
+    if (!entries.some(([key]) => key.startsWith('@media'))) return style;
+
+    const base: Record<string, unknown> = {};
+    const matching: RNStyle[] = [];
+
+    for (const [key, value] of entries) {
+        if (!key.startsWith('@media')) {
+            base[key] = value;
+        } else if (value && matchesMediaQuery(key.slice('@media'.length), env)) {
+            matching.push(resolveMediaStyle(value as MediaStyle, env));
+        }
+    }
+
+    return Object.assign(base, ...matching) as RNStyle;
+}
@@ -0,0 +1,179 @@
+/**
+ * CSS Shadow Parsing
+ * Converts box-shadow and text-shadow lists into React Native shadow styles
+ * @module styles/shadows
+ */
+
+import { Platform } from 'react-native';
+import { splitTopLevel } from '../parser/selectors';
+import { splitValueTokens, isLengthToken, isColorToken, type ValueParser } from './valueTokens';
+import { CURRENT_COLOR } from './colors';
+
+/**
+ * One layer of a CSS shadow list
+ */
+interface ShadowLayer {
+    offsetX: number;
+    offsetY: number;
+    blur: number;
+    spread: number;
+    color?: string;
+    inset: boolean;
+}
+
+/**
+ * Default shadow color, resolved against the element's color
+ */
+const DEFAULT_SHADOW_COLOR = CURRENT_COLOR;
+
+/**
+ * Check if the running React Native version supports the `boxShadow` style
+ * (0.76 and later, new architecture)
+ */
+export function supportsBoxShadow(): boolean {
+    const version = (Platform.constants as { reactNativeVersion?: { major: number; minor: number } } | undefined)
+        ?.reactNativeVersion;
+    return !!version && (version.major > 0 || version.minor >= 76);
+}
+
+/**
+ * Parse one shadow layer (`[inset] <x> <y> [blur] [spread] [color]`)
+ *
+ * @returns Layer, or undefined if it is invalid or uses unresolvable lengths
+ */
+function parseShadowLayer(layer: string, parse: ValueParser, allowInset: boolean): ShadowLayer | undefined {
+    const lengths: number[] = [];
+    let color: string | undefined;
+    let inset = false;
+
+    for (const token of splitValueTokens(layer)) {
+        if (allowInset && token.toLowerCase() === 'inset' && !inset) {
+            inset = true;
+        } else if (isLengthToken(token)) {
+            const pixels = parse(token, 'shadowRadius');
+            if (typeof pixels !== 'number') return undefined;
+            lengths.push(pixels);
+        } else if (isColorToken(token) && color === undefined) {
+            color = parse(token, 'shadowColor') as string | undefined;
+            if (color === undefined) return undefined;
+        } else {
+            return undefined;
+        }
+    }
+
+    if (lengths.length < 2 || lengths.length > (allowInset ? 4 : 3)) return undefined;
+
+    const [offsetX, offsetY, blur = 0, spread = 0] = lengths;
+    if (blur < 0) return undefined;
+
+    return { offsetX, offsetY, blur, spread, color, inset };
+}
+
+/**
+ * Parse a comma-separated shadow list
+ *
+ * @returns Layers, or undefined if any layer is invalid
+ */
+function parseShadowList(value: string, parse: ValueParser, allowInset: boolean): ShadowLayer[] | undefined {
+    const layers: ShadowLayer[] = [];
+    for (const part of splitTopLevel(value, ',')) {
+        const layer = parseShadowLayer(part, parse, allowInset);
+        if (!layer) return undefined;
+        layers.push(layer);
+    }
+    return layers;
+}
+
+/**
+ * Parse CSS `box-shadow` into React Native shadow styles
+ *
+ * The first outer shadow is mapped onto the legacy `shadow*` props (iOS) and
+ * `elevation` (Android). On React Native versions that support it, the full
+ * list is also emitted as `boxShadow`, including inset shadows and spread.
+ *
+ * @param value - CSS box-shadow value
+ * @param parse - Parser for individual values
+ * @returns React Native styles (empty if the value is invalid)
+ *
+ * @example
+ * ```typescript
+ * parseBoxShadow('0 2px 8px rgba(0, 0, 0, 0.2)', parseValue);
+ * // { shadowColor: 'rgba(0, 0, 0, 0.2)', shadowOffset: { width: 0, height: 2 },
+ * //   shadowOpacity: 1, shadowRadius: 4, elevation: 4, ... }
+ * ```
+ */
+export function parseBoxShadow(value: string, parse: ValueParser): Record<string, unknown> {
+    const boxShadow = supportsBoxShadow();
+
+    if (value.trim().toLowerCase() === 'none') {
+        return {
+            shadowOpacity: 0,
+            elevation: 0,
+            ...(boxShadow ? { boxShadow: [] } : {}),
+        };
+    }
+
+    const layers = parseShadowList(value, parse, true);
+    if (!layers) return {};
+
+    const result: Record<string, unknown> = {};
+    const outer = layers.find(layer => !layer.inset);
+
+    if (outer) {
+        result.shadowColor = outer.color ?? DEFAULT_SHADOW_COLOR;
+        result.shadowOffset = { width: outer.offsetX, height: outer.offsetY };
+        // The color's own alpha carries the opacity
+        result.shadowOpacity = 1;
+        // CSS blur is roughly twice the native shadow radius
+        result.shadowRadius = outer.blur / 2;
+        result.elevation = Math.round(Math.max(Math.abs(outer.offsetY), outer.blur / 2));
+    }
+
+    if (boxShadow) {
+        result.boxShadow = layers.map(layer => ({
+            offsetX: layer.offsetX,
+            offsetY: layer.offsetY,
+            blurRadius: layer.blur,
+            spreadDistance: layer.spread,
+            color: layer.color ?? DEFAULT_SHADOW_COLOR,
+            ...(layer.inset ? { inset: true } : {}),
+        }));
+    }
+
+    return result;
+}
+
+/**
+ * Parse CSS `text-shadow` into React Native text shadow styles
+ *
+ * React Native supports a single text shadow, so only the first layer is used.
+ *
+ * @param value - CSS text-shadow value
+ * @param parse - Parser for individual values
+ * @returns React Native styles (empty if the value is invalid)
+ *
+ * @example
+ * ```typescript
+ * parseTextShadow('1px 1px 2px #000', parseValue);
+ * // { textShadowOffset: { width: 1, height: 1 }, textShadowRadius: 2, textShadowColor: '#000' }
+ * ```
+ */
+export function parseTextShadow(value: string, parse: ValueParser): Record<string, unknown> {
+    if (value.trim().toLowerCase() === 'none') {
+        return {
+            textShadowOffset: { width: 0, height: 0 },
+            textShadowRadius: 0,
+            textShadowColor: 'transparent',
+        };
+    }
+
+    const layers = parseShadowList(value, parse, false);
+    if (!layers) return {};
+
+    const [first] = layers;
+    return {
+        textShadowOffset: { width: first.offsetX, height: first.offsetY },
+        textShadowRadius: first.blur,
+        textShadowColor: first.color ?? DEFAULT_SHADOW_COLOR,
+    };
+}
@@ -0,0 +1,405 @@
+/**
+ * CSS Shorthand Expansion
+ * Expands CSS shorthand properties (margin, border, font, flex, ...) into
+ * the longhand properties React Native understands
+ * @module styles/shorthands
+ */
+
+import { splitTopLevel } from '../parser/selectors';
+import {
+    splitValueTokens,
+    isLengthToken,
+    isColorToken,
+    NUMBER_PATTERN,
+    type ValueParser,
+} from './valueTokens';
+import { parseBoxShadow, parseTextShadow } from './shadows';
+import { parseTransform } from './transforms';
+
+/**
+ * Expanded longhand properties
+ */
+type Longhands = Record<string, unknown>;
+
+/**
+ * Expands one shorthand declaration
+ */
+type ShorthandExpander = (tokens: string[], value: string, parse: ValueParser) => Longhands;
+
+/**
+ * Box sides in CSS order
+ */
+const SIDES = ['Top', 'Right', 'Bottom', 'Left'] as const;
+
+/**
+ * Border width keywords
+ */
+const BORDER_WIDTH_KEYWORDS: Record<string, number> = {
+    thin: 1,
+    medium: 3,
+    thick: 5,
+};
+
+/**
+ * CSS border styles mapped to the closest React Native border style
+ * (`null` removes the border)
+ */
+const BORDER_STYLES: Record<string, 'solid' | 'dotted' | 'dashed' | null> = {
+    none: null,
+    hidden: null,
+    solid: 'solid',
+    dotted: 'dotted',
+    dashed: 'dashed',
+    double: 'solid',
+    groove: 'solid',
+    ridge: 'solid',
+    inset: 'solid',
+    outset: 'solid',
+};
+
+/**
+ * Keywords allowed before the size in the `font` shorthand
+ */
+const FONT_STYLES = new Set(['italic', 'oblique']);
+const FONT_WEIGHTS = new Set(['bold', 'bolder', 'lighter', '100', '200', '300', '400', '500', '600', '700', '800', '900']);
+const FONT_STRETCHES = new Set([
+    'ultra-condensed', 'extra-condensed', 'condensed', 'semi-condensed',
+    'semi-expanded', 'expanded', 'extra-expanded', 'ultra-expanded',
+]);
+const FONT_SIZE_KEYWORDS = new Set([
+    'xx-small', 'x-small', 'small', 'medium', 'large', 'x-large', 'xx-large', 'xxx-large', 'smaller', 'larger',
+]);
+
+/**
+ * System font keywords, which have no React Native equivalent
+ */
+const SYSTEM_FONTS = new Set(['caption', 'icon', 'menu', 'message-box', 'small-caption', 'status-bar']);
+
+/**
+ * Non-color keywords of the `background` shorthand
+ */
+const BACKGROUND_KEYWORDS = new Set([
+    'none', 'repeat', 'repeat-x', 'repeat-y', 'no-repeat', 'space', 'round',
+    'top', 'right', 'bottom', 'left', 'center', 'auto', 'cover', 'contain',
+    'scroll', 'fixed', 'local', 'border-box', 'padding-box', 'content-box', 'text',
+]);
+
+/**
+ * Text decoration keywords
+ */
+const TEXT_DECORATION_LINES = new Set(['underline', 'line-through', 'overline', 'none']);
+const TEXT_DECORATION_STYLES = new Set(['solid', 'double', 'dotted', 'dashed', 'wavy']);
+
+/**
+ * Flex direction and wrap keywords for `flex-flow`
+ */
+const FLEX_DIRECTIONS = new Set(['row', 'row-reverse', 'column', 'column-reverse']);
+const FLEX_WRAPS = new Set(['nowrap', 'wrap', 'wrap-reverse']);
+
+/**
+ * Expand 1-4 box values into top, right, bottom and left
+ *
+ * @example
+ * ```typescript
+ * expandBoxValues(['1px', '2px']); // ['1px', '2px', '1px', '2px']
+ * ```
+ */
+export function expandBoxValues<T>(values: T[]): [T, T, T, T] {
+    const [top, right = top, bottom = top, left = right] = values;
+    return [top, right, bottom, left];
+}
+
+/**
+ * Create an expander for box properties (margin, padding, border-width, ...)
+ *
+ * A single value is kept on the React Native shorthand property (when
+ * given); multiple values are expanded per side.
+ */
+function boxExpander(
+    shorthand: string | null,
+    side: (name: typeof SIDES[number]) => string,
+    parseToken: (token: string, property: string, parse: ValueParser) => unknown = (token, property, parse) =>
+        parse(token, property)
+): ShorthandExpander {
+    return (tokens, _value, parse) => {
+        if (tokens.length === 0 || tokens.length > 4) return {};
+        if (tokens.length === 1 && shorthand) {
+            return { [shorthand]: parseToken(tokens[0], shorthand, parse) };
+        }
+
+        const result: Longhands = {};
+        expandBoxValues(tokens).forEach((token, index) => {
+            const property = side(SIDES[index]);
+            result[property] = parseToken(token, property, parse);
+        });
+        return result;
+    };
+}
+
+/**
+ * Parse a border width token
+ */
+function parseBorderWidth(token: string, property: string, parse: ValueParser): unknown {
+    const keyword = BORDER_WIDTH_KEYWORDS[token.toLowerCase()];
+    return keyword ?? parse(token, property);
+}
+
+/**
+ * Expand `border` and `border-{side}` into width, style and color
+ */
+function borderExpander(side: typeof SIDES[number] | ''): ShorthandExpander {
+    return (tokens, _value, parse) => {
+        const result: Longhands = {};
+
+        for (const token of tokens) {
+            const lower = token.toLowerCase();
+            if (lower in BORDER_STYLES) {
+                // React Native has a single border style for all sides
+                result.borderStyle = BORDER_STYLES[lower] ?? undefined;
+                if (BORDER_STYLES[lower] === null) result[`border${side}Width`] = 0;
+            } else if (lower in BORDER_WIDTH_KEYWORDS || isLengthToken(token)) {
+                result[`border${side}Width`] ??= parseBorderWidth(token, `border${side}Width`, parse);
+            } else if (isColorToken(token)) {
+                result[`border${side}Color`] = parse(token, `border${side}Color`);
+            }
+        }
+
+        return result;
+    };
+}
+
+/**
+ * Expand `border-style` (React Native has a single style for all sides)
+ */
+const expandBorderStyle: ShorthandExpander = tokens => {
+    const borderStyle = BORDER_STYLES[(tokens[0] ?? '').toLowerCase()];
+    if (borderStyle === undefined) return {};
+    return borderStyle === null ? { borderWidth: 0 } : { borderStyle };
+};
+
+/**
+ * Expand `border-radius`, using the horizontal radii of elliptical corners
+ */
+const expandBorderRadius: ShorthandExpander = (_tokens, value, parse) => {
+    const horizontal = splitValueTokens(splitTopLevel(value, '/')[0]);
+    if (horizontal.length === 0 || horizontal.length > 4) return {};
+    if (horizontal.length === 1) {
+        return { borderRadius: parse(horizontal[0], 'borderRadius') };
+    }
+
+    const [topLeft, topRight, bottomRight, bottomLeft] = expandBoxValues(horizontal);
+    return {
+        borderTopLeftRadius: parse(topLeft, 'borderTopLeftRadius'),
+        borderTopRightRadius: parse(topRight, 'borderTopRightRadius'),
+        borderBottomRightRadius: parse(bottomRight, 'borderBottomRightRadius'),
+        borderBottomLeftRadius: parse(bottomLeft, 'borderBottomLeftRadius'),
+    };
+};
+
+/**
+ * Pick the first family of a `font-family` list, without quotes
+ *
+ * @example
+ * ```typescript
+ * parseFontFamily('"Helvetica Neue", Arial, sans-serif'); // 'Helvetica Neue'
+ * ```
+ */
+export function parseFontFamily(value: string): string | undefined {
+    const first = splitTopLevel(value, ',')[0]?.trim();
+    if (!first) return undefined;
+    return first.replace(/^(["'])(.*)\1$/, '$2').trim() || undefined;
+}
+
+/**
+ * Expand `font: [style] [variant] [weight] [stretch] size[/line-height] family`
+ */
+const expandFont: ShorthandExpander = (tokens, _value, parse) => {
+    if (tokens.length === 1 && SYSTEM_FONTS.has(tokens[0].toLowerCase())) return {};
+
+    const result: Longhands = {};
+    let index = 0;
+
+    for (; index < tokens.length; index++) {
+        const lower = tokens[index].toLowerCase();
+        const [size] = lower.split('/');
+        if (FONT_SIZE_KEYWORDS.has(size) || (isLengthToken(size) && !NUMBER_PATTERN.test(size))) break;
+
+        if (FONT_STYLES.has(lower)) {
+            result.fontStyle = 'italic';
+        } else if (lower === 'small-caps') {
+            result.fontVariant = ['small-caps'];
+        } else if (FONT_WEIGHTS.has(lower)) {
+            result.fontWeight = parse(lower, 'fontWeight');
+        } else if (lower !== 'normal' && !FONT_STRETCHES.has(lower)) {
+            // Unknown token before the size makes the declaration invalid
+            return {};
+        }
+    }
+
+    // Size and family are required
+    if (index >= tokens.length - 1) return {};
+
+    const [size, lineHeight] = tokens[index].split('/');
+    result.fontSize = parse(size, 'fontSize');
+    if (lineHeight && lineHeight.toLowerCase() !== 'normal') {
+        result.lineHeight = parse(lineHeight, 'lineHeight');
+    }
+    result.fontFamily = parseFontFamily(tokens.slice(index + 1).join(' '));
+
+    return result;
+};
+
+/**
+ * Expand `background`, keeping only the color layer
+ */
+const expandBackground: ShorthandExpander = (tokens, _value, parse) => {
+    let color: string | undefined;
+
+    for (const token of tokens) {
+        const lower = token.toLowerCase();
+        if (BACKGROUND_KEYWORDS.has(lower) || isLengthToken(token) || token === '/') continue;
+        if (/^(?:url|image|image-set|(?:repeating-)?(?:linear|radial|conic)-gradient)\(/i.test(token)) continue;
+        if (isColorToken(token)) color = token;
+    }
+
+    // The shorthand resets the color to its initial value
+    return { backgroundColor: color ? parse(color, 'backgroundColor') : 'transparent' };
+};
+
+/**
+ * Expand `flex: none | auto | <grow> [<shrink>] [<basis>]`
+ */
+const expandFlex: ShorthandExpander = (tokens, _value, parse) => {
+    const keyword = tokens.length === 1 ? tokens[0].toLowerCase() : '';
+
+    if (keyword === 'none') return { flexGrow: 0, flexShrink: 0, flexBasis: 'auto' };
+    if (keyword === 'auto') return { flexGrow: 1, flexShrink: 1, flexBasis: 'auto' };
+    if (keyword === 'initial') return { flexGrow: 0, flexShrink: 1, flexBasis: 'auto' };
+
+    // A single number maps directly onto React Native's `flex`
+    if (tokens.length === 1 && NUMBER_PATTERN.test(tokens[0])) {
+        return { flex: parseFloat(tokens[0]) };
+    }
+
+    const numbers = tokens.filter(token => NUMBER_PATTERN.test(token));
+    const basis = tokens.find(token => !NUMBER_PATTERN.test(token));
+    if (numbers.length > 2 || tokens.length > 3) return {};
+
+    return {
+        flexGrow: numbers.length > 0 ? parseFloat(numbers[0]) : 1,
+        flexShrink: numbers.length > 1 ? parseFloat(numbers[1]) : 1,
+        flexBasis: basis ? parse(basis, 'flexBasis') : 0,
+    };
+};
+
+/**
+ * Expand `flex-flow: <direction> <wrap>`
+ */
+const expandFlexFlow: ShorthandExpander = tokens => {
+    const result: Longhands = {};
+    for (const token of tokens) {
+        const lower = token.toLowerCase();
+        if (FLEX_DIRECTIONS.has(lower)) result.flexDirection = lower;
+        else if (FLEX_WRAPS.has(lower)) result.flexWrap = lower;
+    }
+    return result;
+};
+
+/**
+ * Expand `gap: <row> [<column>]`
+ */
+const expandGap: ShorthandExpander = (tokens, _value, parse) => {
+    if (tokens.length === 1) return { gap: parse(tokens[0], 'gap') };
+    if (tokens.length === 2) {
+        return { rowGap: parse(tokens[0], 'rowGap'), columnGap: parse(tokens[1], 'columnGap') };
+    }
+    return {};
+};
+
+/**
+ * Expand `text-decoration: <line> [<style>] [<color>]`
+ */
+const expandTextDecoration: ShorthandExpander = (tokens, _value, parse) => {
+    const lines: string[] = [];
+    const result: Longhands = {};
+
+    for (const token of tokens) {
+        const lower = token.toLowerCase();
+        if (TEXT_DECORATION_LINES.has(lower)) {
+            lines.push(lower);
+        } else if (TEXT_DECORATION_STYLES.has(lower)) {
+            // React Native has no wavy decoration
+            if (lower !== 'wavy') result.textDecorationStyle = lower;
+        } else if (isLengthToken(token) || lower === 'auto' || lower === 'from-font') {
+            // text-decoration-thickness is not supported
+        } else if (isColorToken(token)) {
+            result.textDecorationColor = parse(token, 'textDecorationColor');
+        }
+    }
+
+    result.textDecorationLine = parse(lines.join(' ') || 'none', 'textDecorationLine');
+    return result;
+};
+
+/**
+ * Shorthand properties and their expanders
+ */
+const SHORTHAND_EXPANDERS: Record<string, ShorthandExpander> = {
+    'margin': boxExpander('margin', side => `margin${side}`),
+    'padding': boxExpander('padding', side => `padding${side}`),
+    'inset': boxExpander(null, side => side.toLowerCase()),
+    'border': borderExpander(''),
+    'border-top': borderExpander('Top'),
+    'border-right': borderExpander('Right'),
+    'border-bottom': borderExpander('Bottom'),
+    'border-left': borderExpander('Left'),
+    'border-width': boxExpander('borderWidth', side => `border${side}Width`, parseBorderWidth),
+    'border-color': boxExpander('borderColor', side => `border${side}Color`),
+    'border-style': expandBorderStyle,
+    'border-radius': expandBorderRadius,
+    'font': expandFont,
+    'background': expandBackground,
+    'flex': expandFlex,
+    'flex-flow': expandFlexFlow,
+    'gap': expandGap,
+    'text-decoration': expandTextDecoration,
+    'box-shadow': (_tokens, value, parse) => parseBoxShadow(value, parse),
+    'text-shadow': (_tokens, value, parse) => parseTextShadow(value, parse),
+    'transform': (_tokens, value, parse) => {
+        const transform = parseTransform(value, parse);
+        return transform ? { transform } : {};
+    },
+};
+
+/**
+ * Expand a CSS shorthand declaration into React Native longhands
+ *
+ * @param property - Lowercase CSS property name
+ * @param value - CSS value
+ * @param parse - Parser for individual longhand values
+ * @returns Longhand styles, or undefined if the property is not a shorthand
+ *
+ * @example
+ * ```typescript
+ * expandShorthand('border', '1px dashed #ccc', parseValue);
+ * // { borderWidth: 1, borderStyle: 'dashed', borderColor: '#ccc' }
+ * ```
+ */
+export function expandShorthand(
+    property: string,
+    value: string,
+    parse: ValueParser
+): Longhands | undefined {
+    const expander = SHORTHAND_EXPANDERS[property];
+    if (!expander) return undefined;
+
+    // CSS-wide keywords fall back to React Native defaults
+    if (['inherit', 'initial', 'unset'].includes(value.trim().toLowerCase())) return {};
+
+    const expanded = expander(splitValueTokens(value), value, parse);
+    const result: Longhands = {};
+    for (const [key, longhand] of Object.entries(expanded)) {
+        if (longhand !== undefined) result[key] = longhand;
+    }
+    return result;
+}
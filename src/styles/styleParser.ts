@@ -5,6 +5,17 @@
  */
 
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
+import {
+    isRelativeLength,
+    absoluteToPixels,
+    resolveStyleUnits,
+    createUnitContext,
+    type UnitContext,
+} from './units';
+import { expandShorthand, expandBoxValues, parseFontFamily } from './shorthands';
+import { parseColor, resolveCurrentColor } from './colors';
+import { collectCustomProperties, resolveVariables, type CustomProperties } from './variables';
+import type { ValueParser } from './valueTokens';
 
 /**
  * Combined style type for React Native
@@ -27,6 +38,8 @@ const CSS_TO_RN_MAP: Record<string, string> = {
     'align-items': 'alignItems',
     'align-self': 'alignSelf',
     'align-content': 'alignContent',
+    'row-gap': 'rowGap',
+    'column-gap': 'columnGap',
 
     // Dimensions
     'width': 'width',
@@ -63,7 +76,6 @@ const CSS_TO_RN_MAP: Record<string, string> = {
     'padding-vertical': 'paddingVertical',
 
     // Border
-    'border': 'border',
     'border-width': 'borderWidth',
     'border-top-width': 'borderTopWidth',
     'border-right-width': 'borderRightWidth',
@@ -83,7 +95,6 @@ const CSS_TO_RN_MAP: Record<string, string> = {
 
     // Background
     'background-color': 'backgroundColor',
-    'background': 'backgroundColor',
     'opacity': 'opacity',
 
     // Text
@@ -100,18 +111,20 @@ const CSS_TO_RN_MAP: Record<string, string> = {
     'text-decoration-color': 'textDecorationColor',
     'text-transform': 'textTransform',
     'letter-spacing': 'letterSpacing',
-    'text-shadow': 'textShadowColor',
     'word-spacing': 'letterSpacing',
     'white-space': 'whiteSpace',
+    'direction': 'writingDirection',
     'text-overflow': 'textOverflow',
 
-    // Shadow (limited support)
-    'box-shadow': 'shadowColor',
+    // Shadow (box-shadow and text-shadow are expanded as shorthands)
     'shadow-color': 'shadowColor',
     'shadow-offset': 'shadowOffset',
     'shadow-opacity': 'shadowOpacity',
     'shadow-radius': 'shadowRadius',
 
+    // Transform (the transform list itself is expanded as a shorthand)
+    'transform-origin': 'transformOrigin',
+
     // Other
     'overflow': 'overflow',
     'aspect-ratio': 'aspectRatio',
@@ -136,10 +149,15 @@ const FONT_WEIGHT_MAP: Record<string, TextStyle['fontWeight']> = {
     'bolder': '700',
 };
 
+/**
+ * Receives messages about values that could not be parsed
+ */
+export type StyleWarningHandler = (message: string) => void;
+
 /**
  * Parse a single CSS value, handling units
  */
-function parseValue(value: string, property: string): unknown {
+function parseValue(value: string, property: string, onWarning?: StyleWarningHandler): unknown {
     const trimmed = value.trim();
 
     // Handle inherit, initial, unset
@@ -152,37 +170,44 @@ function parseValue(value: string, property: string): unknown {
         return FONT_WEIGHT_MAP[trimmed] || trimmed;
     }
 
-    // Handle numeric values
-    const numericMatch = trimmed.match(/^(-?[\d.]+)(px|em|rem|%|pt|vh|vw)?$/);
+    // Handle color values
+    if (isColorProperty(property)) {
+        const color = parseColor(trimmed);
+        if (color === undefined) {
+            onWarning?.(`Invalid color "${trimmed}" for ${property}`);
+        }
+        return color;
+    }
+
+    // Handle absolute numeric values
+    const numericMatch = trimmed.match(/^(-?[\d.]+)(px|pt|pc|in|cm|mm|q|%)?$/i);
     if (numericMatch) {
         const num = parseFloat(numericMatch[1]);
-        const unit = numericMatch[2];
+        const unit = numericMatch[2]?.toLowerCase();
 
         // React Native doesn't support units, convert to numbers
         switch (unit) {
-            case 'px':
-                return num;
-            case 'em':
-            case 'rem':
-                // Approximate conversion (base 16px)
-                return num * 16;
-            case 'pt':
-                return num * 1.333; // 1pt ≈ 1.333px
             case '%':
                 // Return as string for percentage
                 return `${num}%`;
-            case 'vh':
-            case 'vw':
-                // These need runtime dimensions, return as percentage
-                return `${num}%`;
-            default:
+            case undefined:
+                // Unitless line-height is a multiplier of the font size
+                return property === 'lineHeight' ? `${num}em` : num;
+            case 'px':
                 return num;
+            default:
+                return absoluteToPixels(num, unit);
         }
     }
 
-    // Handle color values
-    if (isColorProperty(property)) {
-        return parseColor(trimmed);
+    // Relative lengths (em, rem, vh, vw, calc(), ...) need the element's
+    // font size and the viewport, so they are resolved later by resolveStyleUnits
+    if (isRelativeLength(trimmed)) {
+        return trimmed;
+    }
+
+    if (property === 'fontFamily') {
+        return parseFontFamily(trimmed);
     }
 
     // Handle text-decoration mapping
@@ -202,19 +227,6 @@ function isColorProperty(property: string): boolean {
     return colorProps.some(p => property.toLowerCase().includes(p.toLowerCase()));
 }
 
-/**
- * Parse color value
- */
-function parseColor(value: string): string {
-    // Already valid color format
-    if (value.startsWith('#') || value.startsWith('rgb') || value.startsWith('hsl')) {
-        return value;
-    }
-
-    // Named colors are supported by React Native
-    return value;
-}
-
 /**
  * Map CSS text-decoration to React Native textDecorationLine
  */
@@ -244,7 +256,16 @@ function mapTextDecoration(value: string): string {
 /**
  * Parse a CSS style string into a React Native style object
  * 
+ * Shorthands (margin, padding, border, font, background, flex, inset, gap,
+ * text-decoration, ...) are expanded into React Native longhands. `var()`
+ * references are substituted from `variables` and custom properties declared
+ * in the same string. Relative lengths are resolved against `unitContext`
+ * (defaults to a 16px font size and the current window dimensions), and
+ * `currentColor` against the declared `color`.
+ * 
  * @param cssString - Inline CSS string (e.g., "color: red; font-size: 16px")
+ * @param unitContext - Font size and viewport used for relative units
+ * @param variables - Custom properties available to `var()` (names include `--`)
  * @returns React Native compatible style object
  * 
  * @example
@@ -253,12 +274,39 @@ function mapTextDecoration(value: string): string {
  * // { color: 'red', margin: 10 }
  * ```
  */
-export function parseInlineStyle(cssString: string | undefined): RNStyle {
+export function parseInlineStyle(
+    cssString: string | undefined,
+    unitContext: Partial<UnitContext> = {},
+    variables?: CustomProperties
+): RNStyle {
+    const declared = parseDeclarations(cssString);
+    const style = resolveVariables(declared, collectCustomProperties([declared], variables), css => parseDeclarations(css));
+    if (isEmptyStyle(style)) return style;
+    return resolveCurrentColor(resolveStyleUnits(style, createUnitContext(unitContext)));
+}
+
+/**
+ * Parse a CSS style string, leaving relative lengths unresolved
+ * 
+ * Used by the style resolver, which resolves units once the element's
+ * font size is known (see `resolveStyleUnits`).
+ * 
+ * @param cssString - CSS declarations
+ * @param onWarning - Receives messages about invalid values (e.g., colors)
+ * @returns Style object that may contain relative length strings, `currentColor`,
+ * custom properties (`--name`) and unresolved `var()` declarations (keyed by
+ * CSS property name, see `resolveVariables`)
+ */
+export function parseDeclarations(
+    cssString: string | undefined,
+    onWarning?: StyleWarningHandler
+): RNStyle {
     if (!cssString || cssString.trim() === '') {
         return {};
     }
 
     const style: Record<string, unknown> = {};
+    const parse: ValueParser = (value, property) => parseValue(value, property, onWarning);
 
     // Split by semicolon, handling potential edge cases
     const declarations = cssString.split(';').filter(Boolean);
@@ -267,11 +315,29 @@ export function parseInlineStyle(cssString: string | undefined): RNStyle {
         const colonIndex = declaration.indexOf(':');
         if (colonIndex === -1) continue;
 
-        const property = declaration.substring(0, colonIndex).trim().toLowerCase();
+        const name = declaration.substring(0, colonIndex).trim();
+        const property = name.toLowerCase();
         const value = declaration.substring(colonIndex + 1).trim();
 
         if (!property || !value) continue;
 
+        // Custom properties (case-sensitive) are kept verbatim, and declarations
+        // referencing them wait until the element's custom properties are known
+        if (name.startsWith('--')) {
+            style[name] = value;
+            continue;
+        }
+        if (/var\(/i.test(value)) {
+            style[property] = value;
+            continue;
+        }
+
+        const longhands = expandShorthand(property, value, parse);
+        if (longhands) {
+            Object.assign(style, longhands);
+            continue;
+        }
+
         // Map CSS property to RN property
         const rnProperty = CSS_TO_RN_MAP[property];
         if (!rnProperty) {
@@ -279,7 +345,7 @@ export function parseInlineStyle(cssString: string | undefined): RNStyle {
             continue;
         }
 
-        const parsedValue = parseValue(value, rnProperty);
+        const parsedValue = parse(value, rnProperty);
         if (parsedValue !== undefined) {
             style[rnProperty] = parsedValue;
         }
@@ -299,32 +365,12 @@ export function parseBoxShorthand(
     value: string,
     prefix: 'margin' | 'padding'
 ): Record<string, number> {
-    const parts = value.split(/\s+/).map(v => {
+    const parts = value.trim().split(/\s+/).slice(0, 4).map(v => {
         const num = parseFloat(v);
         return isNaN(num) ? 0 : num;
     });
 
-    let top: number, right: number, bottom: number, left: number;
-
-    switch (parts.length) {
-        case 1:
-            [top] = parts;
-            right = bottom = left = top;
-            break;
-        case 2:
-            [top, right] = parts;
-            bottom = top;
-            left = right;
-            break;
-        case 3:
-            [top, right, bottom] = parts;
-            left = right;
-            break;
-        case 4:
-        default:
-            [top, right, bottom, left] = parts;
-            break;
-    }
+    const [top, right, bottom, left] = expandBoxValues(parts);
 
     return {
         [`${prefix}Top`]: top,
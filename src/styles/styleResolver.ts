@@ -7,18 +7,29 @@
 import type { TextStyle, ViewStyle, ImageStyle } from 'react-native';
 import type { ElementNode, HtmlNode } from '../parser/types';
 import { NodeType, isElementNode } from '../parser/types';
-import { parseInlineStyle, mergeStyles, type RNStyle } from './styleParser';
-import { getDefaultTagStyle, isTextOnlyTag } from './defaultStyles';
+import { parseDeclarations, mergeStyles, type RNStyle, type StyleWarningHandler } from './styleParser';
+import { getDefaultElementStyle, isTextOnlyTag } from './defaultStyles';
+import type { HtmlTheme } from './theme';
+import { createStylesheet, getMatchingRules } from './stylesheet';
+import { resolveStyleUnits, createUnitContext, DEFAULT_ROOT_FONT_SIZE } from './units';
+import { resolveCurrentColor } from './colors';
+import { createMediaEnvironment, resolveMediaStyle, type MediaStyle } from './mediaQueries';
+import {
+    collectCustomProperties,
+    normalizeCustomProperties,
+    resolveVariables,
+    type CustomProperties,
+} from './variables';
 
 /**
- * User-provided tag styles mapping
+ * User-provided tag styles mapping (styles may contain `@media` blocks)
  */
-export type TagsStyles = Record<string, ViewStyle | TextStyle>;
+export type TagsStyles = Record<string, MediaStyle<ViewStyle | TextStyle>>;
 
 /**
- * User-provided class styles mapping
+ * User-provided class styles mapping (styles may contain `@media` blocks)
  */
-export type ClassesStyles = Record<string, ViewStyle | TextStyle>;
+export type ClassesStyles = Record<string, MediaStyle<ViewStyle | TextStyle>>;
 
 /**
  * Style resolver configuration
@@ -28,12 +39,34 @@ export interface StyleResolverConfig {
     tagsStyles?: TagsStyles;
     /** Custom styles for CSS classes */
     classesStyles?: ClassesStyles;
+    /** CSS stylesheet sources (e.g., `<style>` contents), in cascade order */
+    stylesheets?: (string | undefined)[];
     /** Base text style applied to all text */
     baseTextStyle?: TextStyle;
     /** Whether to use default tag styles */
     useDefaultStyles?: boolean;
-    /** Custom style transformer */
-    styleTransformer?: (style: RNStyle, node: ElementNode) => RNStyle;
+    /** Viewport size for `vh`/`vw`/`vmin`/`vmax` and media queries (defaults to the window size) */
+    viewport?: { width: number; height: number };
+    /** Color scheme for `prefers-color-scheme` (defaults to `Appearance`) */
+    colorScheme?: 'light' | 'dark';
+    /** Whether `prefers-reduced-motion: reduce` matches */
+    reducedMotion?: boolean;
+    /** Root custom properties for `var()`, e.g. from a JS theme (`--` prefix optional) */
+    variables?: Record<string, string | number>;
+    /** Theme for default tag colors; when set, root text also takes the theme text color */
+    theme?: HtmlTheme;
+    /**
+     * Top-level nodes, so sibling combinators and structural pseudo-classes
+     * match top-level elements (the resolver also takes them per call)
+     */
+    roots?: HtmlNode[];
+    /**
+     * Custom style transformer, given the parent's computed style; children
+     * inherit the transformed style
+     */
+    styleTransformer?: (style: RNStyle, node: ElementNode, parentStyle?: RNStyle) => RNStyle;
+    /** Warn about invalid CSS values (e.g., unparseable colors) */
+    debug?: boolean;
 }
 
 /**
@@ -46,6 +79,65 @@ export interface ResolvedStyle {
     isTextElement: boolean;
     /** Whether element has any custom styles */
     hasCustomStyles: boolean;
+    /** Computed custom properties, inherited by children */
+    variables?: CustomProperties;
+}
+
+/**
+ * Style properties inherited from parent to child, following CSS inheritance
+ * (color, font-*, line-height, text-align, letter-spacing, text-transform,
+ * text-shadow, direction and white-space)
+ */
+export const INHERITED_STYLE_PROPERTIES = new Set<string>([
+    'color',
+    'fontFamily',
+    'fontSize',
+    'fontStyle',
+    'fontWeight',
+    'fontVariant',
+    'lineHeight',
+    'textAlign',
+    'letterSpacing',
+    'textTransform',
+    'textShadowColor',
+    'textShadowOffset',
+    'textShadowRadius',
+    'writingDirection',
+    'whiteSpace',
+]);
+
+/**
+ * Pick the inheritable properties from a style
+ * 
+ * @param style - Computed style of the parent
+ * @returns Style containing only inherited properties
+ */
+export function getInheritableStyle(style: RNStyle | undefined): TextStyle {
+    const inherited: Record<string, unknown> = {};
+    if (!style) return inherited;
+
+    for (const [key, value] of Object.entries(style)) {
+        if (value !== undefined && INHERITED_STYLE_PROPERTIES.has(key)) {
+            inherited[key] = value;
+        }
+    }
+
+    return inherited as TextStyle;
+}
+
+/**
+ * Get the style root elements and root text inherit: the theme text color
+ * and the inheritable part of the base text style
+ * 
+ * @param theme - Active theme
+ * @param baseTextStyle - Base text style
+ * @returns Inherited root style
+ */
+export function getRootTextStyle(theme?: HtmlTheme, baseTextStyle: TextStyle = {}): TextStyle {
+    return getInheritableStyle({
+        ...(theme && { color: theme.colors.text }),
+        ...baseTextStyle,
+    });
 }
 
 /**
@@ -59,6 +151,7 @@ export interface ResolvedStyle {
  * const resolver = createStyleResolver({
  *   tagsStyles: { p: { color: 'blue' } },
  *   classesStyles: { highlight: { backgroundColor: 'yellow' } },
+ *   stylesheets: ['.note p > strong { color: red }'],
  * });
  * 
  * const { style } = resolver(elementNode);
@@ -68,15 +161,63 @@ export function createStyleResolver(config: StyleResolverConfig = {}) {
     const {
         tagsStyles = {},
         classesStyles = {},
+        stylesheets = [],
         baseTextStyle = {},
         useDefaultStyles = true,
+        viewport,
+        colorScheme,
+        reducedMotion,
+        variables,
+        theme,
         styleTransformer,
+        roots,
+        debug = false,
     } = config;
 
+    const onWarning: StyleWarningHandler | undefined = debug
+        ? message => console.warn(`[react-native-html-viewer] ${message}`)
+        : undefined;
+
+    // Root font size (`rem` base) comes from the base text style
+    const rootFontSize = typeof baseTextStyle.fontSize === 'number'
+        ? baseTextStyle.fontSize
+        : DEFAULT_ROOT_FONT_SIZE;
+    const unitContext = createUnitContext({
+        rootFontSize,
+        ...(viewport && { viewportWidth: viewport.width, viewportHeight: viewport.height }),
+    });
+
+    // Media queries are evaluated once per resolver; a new resolver is
+    // created when the window size or appearance changes
+    const mediaEnvironment = createMediaEnvironment({
+        ...(viewport && { width: viewport.width, height: viewport.height }),
+        ...(colorScheme && { colorScheme }),
+        ...(reducedMotion !== undefined && { reducedMotion }),
+    });
+
+    // Parse stylesheets once per resolver
+    const stylesheet = createStylesheet(stylesheets, onWarning, mediaEnvironment);
+
+    // Root elements inherit the theme text color, the base text style and the
+    // configured variables
+    const rootInheritedStyle = getRootTextStyle(theme, baseTextStyle);
+    const rootVariables = normalizeCustomProperties(variables);
+    const parseDeclaration = (css: string) => parseDeclarations(css, onWarning);
+
+    // Computed styles per node, so ancestors are resolved once per set of
+    // roots; a new parse can reuse node objects whose siblings changed
+    const cache = new WeakMap<ElementNode, { roots: HtmlNode[] | undefined; resolved: ResolvedStyle }>();
+
     /**
-     * Resolve styles for an element node
+     * Resolve the computed style for an element node, matching selectors
+     * against the given top-level nodes
      */
-    return function resolveStyle(node: ElementNode): ResolvedStyle {
+    function resolveStyle(node: ElementNode, currentRoots: HtmlNode[] | undefined = roots): ResolvedStyle {
+        const cached = cache.get(node);
+        if (cached && cached.roots === currentRoots) {
+            return cached.resolved;
+        }
+
         const styles: RNStyle[] = [];
         const isText = isTextOnlyTag(node.tagName);
         let hasCustomStyles = false;
@@ -86,55 +227,94 @@ export function createStyleResolver(config: StyleResolverConfig = {}) {
             styles.push(baseTextStyle);
         }
 
-        // 2. Apply default tag styles
+        // 2. Inherit from the parent's computed style
+        const parentStyle = node.parent ? resolveStyle(node.parent, currentRoots).style : undefined;
+        const inheritedStyle = parentStyle
+            ? getInheritableStyle(parentStyle)
+            : rootInheritedStyle;
+        styles.push(inheritedStyle);
+
+        // 3. Apply default tag styles
         if (useDefaultStyles) {
-            const defaultStyle = getDefaultTagStyle(node.tagName);
+            const defaultStyle = getDefaultElementStyle(node.tagName, node.parent?.tagName, theme);
             if (Object.keys(defaultStyle).length > 0) {
                 styles.push(defaultStyle);
             }
         }
 
-        // 3. Apply user-defined tag styles
+        // 4. Apply user-defined tag styles
         const tagStyle = tagsStyles[node.tagName];
         if (tagStyle) {
-            styles.push(tagStyle);
+            styles.push(resolveMediaStyle(tagStyle, mediaEnvironment));
             hasCustomStyles = true;
         }
 
-        // 4. Apply class-based styles
+        // 5. Apply class-based styles
         if (node.classNames && node.classNames.length > 0) {
             for (const className of node.classNames) {
                 const classStyle = classesStyles[className];
                 if (classStyle) {
-                    styles.push(classStyle);
+                    styles.push(resolveMediaStyle(classStyle, mediaEnvironment));
                     hasCustomStyles = true;
                 }
             }
         }
 
-        // 5. Apply inline styles (highest priority)
+        // 6. Apply stylesheet rules (ordered by specificity, then source order)
+        const matchingRules = getMatchingRules(stylesheet, node, { roots: currentRoots });
+        for (const rule of matchingRules) {
+            styles.push(rule.style);
+            hasCustomStyles = true;
+        }
+
+        // 7. Apply inline styles
         if (node.attributes.style) {
-            const inlineStyle = parseInlineStyle(node.attributes.style);
+            const inlineStyle = parseDeclarations(node.attributes.style, onWarning);
             if (Object.keys(inlineStyle).length > 0) {
                 styles.push(inlineStyle);
                 hasCustomStyles = true;
             }
         }
 
-        // 6. Merge all styles
-        let finalStyle = mergeStyles(...styles);
+        // 8. Apply !important stylesheet declarations (highest priority)
+        for (const rule of matchingRules) {
+            styles.push(rule.importantStyle);
+        }
 
-        // 7. Apply custom transformer if provided
+        // 9. Compute custom properties (inherited, then declared in cascade
+        // order) and substitute var() references in every layer
+        const inheritedVariables = node.parent ? resolveStyle(node.parent, currentRoots).variables : rootVariables;
+        const elementVariables = collectCustomProperties(styles, inheritedVariables);
+        const layers = styles.map(layer => resolveVariables(layer, elementVariables, parseDeclaration, onWarning));
+
+        // 10. Merge all styles, resolve relative units (em against the parent
+        // font size, rem against the root, vh/vw against the viewport) and
+        // currentColor against the element's color
+        const parentFontSize = (parentStyle as TextStyle | undefined)?.fontSize ?? rootFontSize;
+        let finalStyle = resolveStyleUnits(mergeStyles(...layers), {
+            ...unitContext,
+            parentFontSize,
+        });
+        finalStyle = resolveCurrentColor(finalStyle, inheritedStyle.color);
+
+        // 11. Apply custom transformer if provided
         if (styleTransformer) {
-            finalStyle = styleTransformer(finalStyle, node);
+            finalStyle = styleTransformer(finalStyle, node, parentStyle);
         }
 
-        return {
+        const resolved: ResolvedStyle = {
             style: finalStyle,
             isTextElement: isText,
             hasCustomStyles,
+            variables: elementVariables,
         };
-    };
+        cache.set(node, { roots: currentRoots, resolved });
+        return resolved;
+    }
+
+    // Renderers re-render nodes whose siblings changed only when styles can
+    // depend on them
+    return Object.assign(resolveStyle, { siblingDependent: stylesheet.siblingDependent });
 }
 
 /**
@@ -154,7 +334,7 @@ export function resolveTreeStyles(
     nodes: HtmlNode[],
     config: StyleResolverConfig = {}
 ): HtmlNode[] {
-    const resolver = createStyleResolver(config);
+    const resolver = createStyleResolver({ roots: nodes, ...config });
 
     function processNode(node: HtmlNode): HtmlNode {
         if (!isElementNode(node)) {
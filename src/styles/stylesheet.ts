@@ -0,0 +1,344 @@
+/**
+ * Stylesheet Engine
+ * Parses CSS rule sets and matches them against AST nodes with cascade ordering
+ * @module styles/stylesheet
+ */
+
+import type { ElementNode } from '../parser/types';
+import {
+    parseSelector,
+    splitTopLevel,
+    compareSpecificity,
+    matchesComplexSelector,
+    isSiblingDependent,
+    type ComplexSelector,
+    type SelectorMatchOptions,
+} from '../parser/selectors';
+import { parseDeclarations, type RNStyle, type StyleWarningHandler } from './styleParser';
+import { createMediaEnvironment, matchesMediaQuery, type MediaEnvironment } from './mediaQueries';
+
+/**
+ * A single CSS rule (one selector from a rule set)
+ */
+export interface CssRule {
+    /** Parsed selector */
+    selector: ComplexSelector;
+    /** Normal declarations converted to React Native styles (relative units unresolved) */
+    style: RNStyle;
+    /** `!important` declarations converted to React Native styles */
+    importantStyle: RNStyle;
+    /** Source order across all stylesheets */
+    order: number;
+    /** Media query lists of enclosing `@media` blocks (all must match) */
+    media?: string[];
+}
+
+/**
+ * Parsed stylesheet with rules indexed by their rightmost compound selector
+ */
+export interface Stylesheet {
+    /** All rules in source order */
+    rules: CssRule[];
+    /** Rules keyed by rightmost ID */
+    byId: Map<string, CssRule[]>;
+    /** Rules keyed by rightmost class */
+    byClass: Map<string, CssRule[]>;
+    /** Rules keyed by rightmost tag name */
+    byTag: Map<string, CssRule[]>;
+    /** Rules whose rightmost compound has no id, class or tag */
+    universal: CssRule[];
+    /** Whether any rule's selector depends on sibling structure */
+    siblingDependent: boolean;
+}
+
+/**
+ * Raw rule block before selector and declaration parsing
+ */
+interface RawBlock {
+    prelude: string;
+    body: string | null;
+}
+
+/**
+ * Remove CSS comments
+ */
+function stripComments(css: string): string {
+    return css.replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+/**
+ * Split CSS text into top-level blocks (`prelude { body }` or `prelude;`)
+ */
+function splitBlocks(css: string): RawBlock[] {
+    const blocks: RawBlock[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let preludeStart = 0;
+    let bodyStart = -1;
+    let prelude = '';
+
+    for (let i = 0; i < css.length; i++) {
+        const char = css[i];
+
+        if (char === '\\') {
+            i++;
+            continue;
+        }
+        if (quote) {
+            if (char === quote) quote = null;
+            continue;
+        }
+        if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '{') {
+            if (depth === 0) {
+                prelude = css.slice(preludeStart, i).trim();
+                bodyStart = i + 1;
+            }
+            depth++;
+        } else if (char === '}') {
+            if (depth === 0) {
+                // Stray closing brace, skip it
+                preludeStart = i + 1;
+                continue;
+            }
+            depth--;
+            if (depth === 0) {
+                blocks.push({ prelude, body: css.slice(bodyStart, i) });
+                preludeStart = i + 1;
+            }
+        } else if (char === ';' && depth === 0) {
+            // Statement at-rule such as @import or @charset
+            blocks.push({ prelude: css.slice(preludeStart, i).trim(), body: null });
+            preludeStart = i + 1;
+        }
+    }
+
+    // Unterminated trailing block: treat the remainder as its body
+    if (depth > 0 && bodyStart >= 0) {
+        blocks.push({ prelude, body: css.slice(bodyStart) });
+    }
+
+    return blocks;
+}
+
+/**
+ * Split CSS text into top-level blocks, without comments
+ *
+ * @param css - CSS text
+ * @returns Blocks; `body` is null for statements such as `@import`
+ */
+export function splitCssBlocks(css: string): Array<{ prelude: string; body: string | null }> {
+    return splitBlocks(stripComments(css));
+}
+
+/**
+ * Split a declaration block into normal and `!important` styles
+ */
+export function parseDeclarationBlock(
+    body: string,
+    onWarning?: StyleWarningHandler
+): { style: RNStyle; importantStyle: RNStyle } {
+    const normal: string[] = [];
+    const important: string[] = [];
+
+    for (const declaration of splitTopLevel(body, ';')) {
+        const trimmed = declaration.trim();
+        if (!trimmed) continue;
+
+        const importantMatch = trimmed.match(/^(.*?)\s*!\s*important$/i);
+        if (importantMatch) {
+            important.push(importantMatch[1]);
+        } else {
+            normal.push(trimmed);
+        }
+    }
+
+    return {
+        style: parseDeclarations(normal.join(';'), onWarning),
+        importantStyle: parseDeclarations(important.join(';'), onWarning),
+    };
+}
+
+/**
+ * Parse CSS text into rules
+ *
+ * @param css - CSS source (e.g., contents of a `<style>` block)
+ * @param startOrder - Source order of the first rule (for combining stylesheets)
+ * @param onWarning - Receives messages about invalid declaration values
+ * @returns Rules in source order, with `@media` conditions attached; invalid
+ * selectors and unsupported at-rules are skipped
+ */
+export function parseCssRules(
+    css: string,
+    startOrder: number = 0,
+    onWarning?: StyleWarningHandler
+): CssRule[] {
+    return parseRuleBlocks(stripComments(css), startOrder, undefined, onWarning);
+}
+
+/**
+ * Parse rule blocks, descending into `@media` blocks
+ */
+function parseRuleBlocks(
+    css: string,
+    startOrder: number,
+    media: string[] | undefined,
+    onWarning?: StyleWarningHandler
+): CssRule[] {
+    const rules: CssRule[] = [];
+    let order = startOrder;
+
+    for (const block of splitBlocks(css)) {
+        if (block.body === null || !block.prelude) {
+            continue;
+        }
+
+        if (block.prelude.startsWith('@')) {
+            const mediaRule = block.prelude.match(/^@media\s+([\s\S]+)$/i);
+            if (mediaRule) {
+                const nested = parseRuleBlocks(block.body, order, [...(media ?? []), mediaRule[1].trim()], onWarning);
+                rules.push(...nested);
+                order += nested.length;
+            }
+            continue;
+        }
+
+        let selectors: ComplexSelector[];
+        try {
+            selectors = parseSelector(block.prelude);
+        } catch {
+            // Per CSS, a rule with an invalid selector is dropped entirely
+            continue;
+        }
+
+        const { style, importantStyle } = parseDeclarationBlock(block.body, onWarning);
+        if (Object.keys(style).length === 0 && Object.keys(importantStyle).length === 0) {
+            continue;
+        }
+
+        for (const selector of selectors) {
+            rules.push({ selector, style, importantStyle, order: order++, ...(media && { media }) });
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Add a rule to an index bucket
+ */
+function addToIndex(index: Map<string, CssRule[]>, key: string, rule: CssRule): void {
+    const bucket = index.get(key);
+    if (bucket) {
+        bucket.push(rule);
+    } else {
+        index.set(key, [rule]);
+    }
+}
+
+/**
+ * Create a stylesheet from one or more CSS sources
+ *
+ * Later sources win over earlier ones at equal specificity. Rules inside
+ * `@media` blocks are only indexed when their queries match `environment`.
+ *
+ * @param sources - CSS source strings in cascade order
+ * @param onWarning - Receives messages about invalid declaration values
+ * @param environment - Media environment (defaults to the current window and appearance)
+ * @returns Indexed stylesheet
+ *
+ * @example
+ * ```typescript
+ * const sheet = createStylesheet(['.note p > strong { color: red }']);
+ * const rules = getMatchingRules(sheet, strongNode);
+ * ```
+ */
+export function createStylesheet(
+    sources: (string | undefined)[],
+    onWarning?: StyleWarningHandler,
+    environment?: MediaEnvironment
+): Stylesheet {
+    const stylesheet: Stylesheet = {
+        rules: [],
+        byId: new Map(),
+        byClass: new Map(),
+        byTag: new Map(),
+        universal: [],
+        siblingDependent: false,
+    };
+
+    let order = 0;
+    let env = environment;
+    for (const source of sources) {
+        if (!source) continue;
+        const rules = parseCssRules(source, order, onWarning);
+        order += rules.length;
+
+        for (const rule of rules) {
+            if (rule.media) {
+                env ??= createMediaEnvironment();
+                if (!rule.media.every(query => matchesMediaQuery(query, env!))) continue;
+            }
+            stylesheet.rules.push(rule);
+        }
+    }
+
+    for (const rule of stylesheet.rules) {
+        stylesheet.siblingDependent ||= isSiblingDependent(rule.selector);
+        const { compounds } = rule.selector;
+        const subject = compounds[compounds.length - 1];
+
+        if (subject.ids.length > 0) {
+            addToIndex(stylesheet.byId, subject.ids[0], rule);
+        } else if (subject.classes.length > 0) {
+            addToIndex(stylesheet.byClass, subject.classes[0], rule);
+        } else if (subject.tagName) {
+            addToIndex(stylesheet.byTag, subject.tagName, rule);
+        } else {
+            stylesheet.universal.push(rule);
+        }
+    }
+
+    return stylesheet;
+}
+
+/**
+ * Get stylesheet rules matching a node, sorted by cascade order
+ * (ascending specificity, then source order)
+ *
+ * @param stylesheet - Stylesheet to match against
+ * @param node - Element node
+ * @param options - Selector match options
+ * @returns Matching rules, least significant first
+ */
+export function getMatchingRules(
+    stylesheet: Stylesheet,
+    node: ElementNode,
+    options: SelectorMatchOptions = {}
+): CssRule[] {
+    if (stylesheet.rules.length === 0) {
+        return [];
+    }
+
+    const candidates: CssRule[] = [...stylesheet.universal];
+
+    const tagRules = stylesheet.byTag.get(node.tagName);
+    if (tagRules) candidates.push(...tagRules);
+
+    if (node.attributes.id) {
+        const idRules = stylesheet.byId.get(node.attributes.id);
+        if (idRules) candidates.push(...idRules);
+    }
+
+    if (node.classNames) {
+        for (const className of new Set(node.classNames)) {
+            const classRules = stylesheet.byClass.get(className);
+            if (classRules) candidates.push(...classRules);
+        }
+    }
+
+    return candidates
+        .filter(rule => matchesComplexSelector(node, rule.selector, options))
+        .sort((a, b) => compareSpecificity(a.selector.specificity, b.selector.specificity) || a.order - b.order);
+}
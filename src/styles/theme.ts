@@ -0,0 +1,176 @@
+/**
+ * Themes
+ * Color palettes used by the default tag styles and built-in components
+ * @module styles/theme
+ */
+
+import { StyleSheet } from 'react-native';
+
+/**
+ * Colors read by the default styles and built-in components
+ */
+export interface HtmlThemeColors {
+    /** Body text */
+    text: string;
+    /** Muted text (blockquotes, captions, list markers) */
+    textSecondary: string;
+    /** Links */
+    link: string;
+    /** Borders and rules */
+    border: string;
+    /** Raised surfaces (table headers, image placeholders) */
+    surface: string;
+    /** Inline code text */
+    code: string;
+    /** Inline code background */
+    codeBackground: string;
+    /** Code block text */
+    codeBlock: string;
+    /** Code block background */
+    codeBlockBackground: string;
+    /** Highlight background (`<mark>`) */
+    mark: string;
+    /** Highlighted text (`<mark>`) */
+    markText: string;
+    /** Inserted text (`<ins>`) */
+    inserted: string;
+    /** Deleted text (`<del>`) */
+    deleted: string;
+    /** Outline of unsupported tags in the fallback renderer */
+    warning: string;
+    /** Error text */
+    error: string;
+    /** Error background */
+    errorBackground: string;
+}
+
+/**
+ * Theme for the renderer
+ */
+export interface HtmlTheme {
+    /** Whether this is a dark theme */
+    dark: boolean;
+    /** Color palette */
+    colors: HtmlThemeColors;
+}
+
+/**
+ * Theme selection: a built-in theme, `'auto'` to follow the system color
+ * scheme, or a custom theme
+ */
+export type ThemeSetting = 'light' | 'dark' | 'auto' | HtmlTheme;
+
+/**
+ * Light theme (the default)
+ */
+export const lightTheme: HtmlTheme = {
+    dark: false,
+    colors: {
+        text: '#1a1a1a',
+        textSecondary: '#666666',
+        link: '#1976d2',
+        border: '#e0e0e0',
+        surface: '#f5f5f5',
+        code: '#e91e63',
+        codeBackground: '#f5f5f5',
+        codeBlock: '#1a1a1a',
+        codeBlockBackground: '#f5f5f5',
+        mark: '#ffeb3b',
+        markText: '#1a1a1a',
+        inserted: '#2e7d32',
+        deleted: '#888888',
+        warning: '#ff9800',
+        error: '#c62828',
+        errorBackground: '#ffebee',
+    },
+};
+
+/**
+ * Dark theme
+ */
+export const darkTheme: HtmlTheme = {
+    dark: true,
+    colors: {
+        text: '#e6e6e6',
+        textSecondary: '#a0a0a0',
+        link: '#64b5f6',
+        border: '#3a3a3a',
+        surface: '#242424',
+        code: '#f48fb1',
+        codeBackground: '#2a2a2a',
+        codeBlock: '#d4d4d4',
+        codeBlockBackground: '#1e1e1e',
+        mark: '#9e8600',
+        markText: '#ffffff',
+        inserted: '#81c784',
+        deleted: '#9e9e9e',
+        warning: '#ffb74d',
+        error: '#ef9a9a',
+        errorBackground: '#3b1f1f',
+    },
+};
+
+/**
+ * Create a custom theme from a base theme
+ *
+ * @param colors - Colors to override
+ * @param base - Theme to extend (defaults to the light theme)
+ * @returns New theme
+ *
+ * @example
+ * ```typescript
+ * const brandTheme = createTheme({ link: '#6200ee' }, darkTheme);
+ * ```
+ */
+export function createTheme(colors: Partial<HtmlThemeColors>, base: HtmlTheme = lightTheme): HtmlTheme {
+    return {
+        dark: base.dark,
+        colors: { ...base.colors, ...colors },
+    };
+}
+
+/**
+ * Resolve a theme setting against the active color scheme
+ *
+ * @param setting - Theme setting (defaults to `'auto'`)
+ * @param colorScheme - Active color scheme
+ * @returns Theme to render with
+ */
+export function resolveTheme(
+    setting: ThemeSetting = 'auto',
+    colorScheme: 'light' | 'dark' = 'light'
+): HtmlTheme {
+    if (typeof setting === 'object') return setting;
+    if (setting === 'auto') return colorScheme === 'dark' ? darkTheme : lightTheme;
+    return setting === 'dark' ? darkTheme : lightTheme;
+}
+
+/**
+ * Create a theme-dependent stylesheet for a component
+ *
+ * @param factory - Builds the styles from the theme colors
+ * @returns Getter returning the styles for a theme (created once per theme)
+ *
+ * @example
+ * ```typescript
+ * const themedStyles = createThemedStyles(colors => ({
+ *   rule: { backgroundColor: colors.border },
+ * }));
+ *
+ * const { rule } = themedStyles(useTheme());
+ * ```
+ */
+export function createThemedStyles<T extends StyleSheet.NamedStyles<T>>(
+    factory: (colors: HtmlThemeColors) => T
+): (theme: HtmlTheme) => T {
+    const cache = new WeakMap<HtmlTheme, T>();
+
+    return theme => {
+        let styles = cache.get(theme);
+        if (!styles) {
+            styles = StyleSheet.create(factory(theme.colors));
+            cache.set(theme, styles);
+        }
+        return styles;
+    };
+}
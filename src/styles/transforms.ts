@@ -0,0 +1,180 @@
+/**
+ * CSS Transform Parsing
+ * Converts CSS transform functions into React Native transform arrays
+ * @module styles/transforms
+ */
+
+import { splitTopLevel } from '../parser/selectors';
+import { splitValueTokens, NUMBER_PATTERN, type ValueParser } from './valueTokens';
+
+/**
+ * One entry of a React Native transform array
+ */
+type TransformEntry = Record<string, unknown>;
+
+/**
+ * Degrees per angle unit
+ */
+const ANGLE_UNITS: Record<string, number> = {
+    deg: 1,
+    grad: 0.9,
+    turn: 360,
+};
+
+/**
+ * Convert a CSS angle into a React Native angle string
+ *
+ * @returns Angle such as `"45deg"` or `"1.5rad"`, or undefined if invalid
+ */
+function parseAngle(token: string): string | undefined {
+    const match = token.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+))(deg|rad|grad|turn)?$/i);
+    if (!match) return undefined;
+
+    const num = parseFloat(match[1]);
+    const unit = match[2]?.toLowerCase();
+
+    // Only zero may be unitless
+    if (!unit) return num === 0 ? '0deg' : undefined;
+    if (unit === 'rad') return `${num}rad`;
+    return `${num * ANGLE_UNITS[unit]}deg`;
+}
+
+/**
+ * Parse a scale factor (number or percentage)
+ */
+function parseScale(token: string): number | undefined {
+    const trimmed = token.trim();
+    if (NUMBER_PATTERN.test(trimmed)) return parseFloat(trimmed);
+    if (/^[+-]?(?:\d+\.?\d*|\.\d+)%$/.test(trimmed)) return parseFloat(trimmed) / 100;
+    return undefined;
+}
+
+/**
+ * Parse a plain number
+ */
+function parseNumber(token: string): number | undefined {
+    const trimmed = token.trim();
+    return NUMBER_PATTERN.test(trimmed) ? parseFloat(trimmed) : undefined;
+}
+
+/**
+ * Split transform function arguments (comma or space separated)
+ */
+function splitArguments(args: string): string[] {
+    const parts = splitTopLevel(args, ',');
+    return (parts.length > 1 ? parts : splitValueTokens(args)).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Convert one transform function into React Native transform entries
+ *
+ * @returns Entries, or undefined if the function is unsupported or invalid
+ */
+function convertFunction(name: string, args: string[], parse: ValueParser): TransformEntry[] | undefined {
+    const length = (token: string | undefined, property: string): unknown =>
+        token === undefined ? 0 : parse(token, property);
+    const all = <T>(values: (T | undefined)[]): T[] | undefined =>
+        values.every(value => value !== undefined) ? (values as T[]) : undefined;
+
+    switch (name) {
+        case 'translate':
+        case 'translate3d': {
+            if (args.length < 1 || args.length > (name === 'translate' ? 2 : 3)) return undefined;
+            const x = length(args[0], 'translateX');
+            const y = length(args[1], 'translateY');
+            return x === undefined || y === undefined ? undefined : [{ translateX: x }, { translateY: y }];
+        }
+        case 'translatex':
+        case 'translatey': {
+            const property = name === 'translatex' ? 'translateX' : 'translateY';
+            const value = args.length === 1 ? length(args[0], property) : undefined;
+            return value === undefined ? undefined : [{ [property]: value }];
+        }
+        case 'scale':
+        case 'scale3d': {
+            if (args.length < 1 || args.length > (name === 'scale' ? 2 : 3)) return undefined;
+            const factors = all(args.slice(0, 2).map(parseScale));
+            if (!factors) return undefined;
+            const [x, y = x] = factors;
+            return x === y ? [{ scale: x }] : [{ scaleX: x }, { scaleY: y }];
+        }
+        case 'scalex':
+        case 'scaley': {
+            const factor = args.length === 1 ? parseScale(args[0]) : undefined;
+            if (factor === undefined) return undefined;
+            return [{ [name === 'scalex' ? 'scaleX' : 'scaleY']: factor }];
+        }
+        case 'rotate':
+        case 'rotatex':
+        case 'rotatey':
+        case 'rotatez': {
+            const angle = args.length === 1 ? parseAngle(args[0]) : undefined;
+            if (angle === undefined) return undefined;
+            const property = name === 'rotate' ? 'rotate' : `rotate${name.slice(-1).toUpperCase()}`;
+            return [{ [property]: angle }];
+        }
+        case 'skew': {
+            if (args.length < 1 || args.length > 2) return undefined;
+            const angles = all(args.map(parseAngle));
+            if (!angles) return undefined;
+            return angles.length === 1
+                ? [{ skewX: angles[0] }]
+                : [{ skewX: angles[0] }, { skewY: angles[1] }];
+        }
+        case 'skewx':
+        case 'skewy': {
+            const angle = args.length === 1 ? parseAngle(args[0]) : undefined;
+            if (angle === undefined) return undefined;
+            return [{ [name === 'skewx' ? 'skewX' : 'skewY']: angle }];
+        }
+        case 'matrix': {
+            const values = args.length === 6 ? all(args.map(parseNumber)) : undefined;
+            if (!values) return undefined;
+            const [a, b, c, d, e, f] = values;
+            // 2D matrix expanded to React Native's column-major 4x4 matrix
+            return [{ matrix: [a, b, 0, 0, c, d, 0, 0, 0, 0, 1, 0, e, f, 0, 1] }];
+        }
+        case 'matrix3d': {
+            const values = args.length === 16 ? all(args.map(parseNumber)) : undefined;
+            return values ? [{ matrix: values }] : undefined;
+        }
+        case 'perspective': {
+            const value = args.length === 1 ? parse(args[0], 'perspective') : undefined;
+            return typeof value === 'number' ? [{ perspective: value }] : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Parse a CSS `transform` value into a React Native transform array
+ *
+ * Translations may use relative lengths, which are resolved together with
+ * the rest of the style (see `resolveStyleUnits`).
+ *
+ * @param value - CSS transform value
+ * @param parse - Parser for individual values
+ * @returns Transform array, or undefined if any function is invalid
+ *
+ * @example
+ * ```typescript
+ * parseTransform('translate(10px, 50%) rotate(0.25turn)', parseValue);
+ * // [{ translateX: 10 }, { translateY: '50%' }, { rotate: '90deg' }]
+ * ```
+ */
+export function parseTransform(value: string, parse: ValueParser): TransformEntry[] | undefined {
+    if (value.trim().toLowerCase() === 'none') return [];
+
+    const transform: TransformEntry[] = [];
+    for (const token of splitValueTokens(value)) {
+        const match = token.match(/^([a-z0-9]+)\(([\s\S]*)\)$/i);
+        if (!match) return undefined;
+
+        const entries = convertFunction(match[1].toLowerCase(), splitArguments(match[2]), parse);
+        if (!entries) return undefined;
+        transform.push(...entries);
+    }
+
+    return transform.length > 0 ? transform : undefined;
+}
@@ -0,0 +1,405 @@
+/**
+ * CSS Unit Resolution
+ * Resolves relative lengths (em, rem, vh, vw, ch, ex, calc()) into
+ * absolute React Native values using font size and viewport context
+ * @module styles/units
+ */
+
+import { Dimensions } from 'react-native';
+import type { RNStyle } from './styleParser';
+
+/**
+ * Context needed to resolve relative lengths for one element
+ */
+export interface UnitContext {
+    /** Computed font size of the parent (base for `em` and `%` in font-size) */
+    parentFontSize: number;
+    /** Root font size (base for `rem`) */
+    rootFontSize: number;
+    /** Viewport width (base for `vw`, `vmin`, `vmax`) */
+    viewportWidth: number;
+    /** Viewport height (base for `vh`, `vmin`, `vmax`) */
+    viewportHeight: number;
+}
+
+/**
+ * Default root font size, matching browsers
+ */
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+/**
+ * Relative length units that need runtime context
+ */
+const RELATIVE_LENGTH_PATTERN = /^(-?(?:\d+\.?\d*|\.\d+))(em|rem|vh|vw|vmin|vmax|ch|ex)$/i;
+
+/**
+ * Math functions that need runtime evaluation
+ */
+const MATH_FUNCTION_PATTERN = /^(calc|min|max|clamp)\(/i;
+
+/**
+ * Absolute font-size keywords (relative to the root font size)
+ */
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+    'xx-small': 0.5625,
+    'x-small': 0.625,
+    'small': 0.8125,
+    'medium': 1,
+    'large': 1.125,
+    'x-large': 1.5,
+    'xx-large': 2,
+    'xxx-large': 3,
+};
+
+/**
+ * Properties whose percentages are relative to the element's font size
+ */
+const FONT_RELATIVE_PERCENT_PROPERTIES = new Set(['lineHeight', 'letterSpacing']);
+
+/**
+ * Create a unit context from the current window dimensions
+ *
+ * @param overrides - Values to override
+ * @returns Unit context
+ */
+export function createUnitContext(overrides: Partial<UnitContext> = {}): UnitContext {
+    const window = Dimensions.get('window');
+    return {
+        parentFontSize: overrides.rootFontSize ?? DEFAULT_ROOT_FONT_SIZE,
+        rootFontSize: DEFAULT_ROOT_FONT_SIZE,
+        viewportWidth: window.width,
+        viewportHeight: window.height,
+        ...overrides,
+    };
+}
+
+/**
+ * Check if a value is a relative length or math function that must be
+ * resolved at render time
+ */
+export function isRelativeLength(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    const trimmed = value.trim();
+    return RELATIVE_LENGTH_PATTERN.test(trimmed) || MATH_FUNCTION_PATTERN.test(trimmed);
+}
+
+/**
+ * Pixels per absolute CSS unit
+ */
+const ABSOLUTE_UNITS: Record<string, number> = {
+    px: 1,
+    pt: 1.333,
+    pc: 16,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    q: 96 / 101.6,
+};
+
+/**
+ * Convert an absolute length (px, pt, pc, in, cm, mm, q) into pixels
+ *
+ * @returns Pixels, or undefined for relative or unknown units
+ */
+export function absoluteToPixels(num: number, unit: string): number | undefined {
+    const factor = ABSOLUTE_UNITS[unit.toLowerCase()];
+    return factor === undefined ? undefined : num * factor;
+}
+
+/**
+ * Convert a single number + unit into pixels
+ *
+ * @returns Pixels, or undefined if the unit cannot be resolved
+ */
+function unitToPixels(
+    num: number,
+    unit: string,
+    fontSize: number,
+    context: UnitContext,
+    percentBase?: number
+): number | undefined {
+    switch (unit.toLowerCase()) {
+        case '':
+            return num;
+        case 'em':
+            return num * fontSize;
+        case 'rem':
+            return num * context.rootFontSize;
+        case 'ch':
+        case 'ex':
+            // Approximation: both are roughly half an em for typical fonts
+            return num * fontSize * 0.5;
+        case 'vw':
+            return (num * context.viewportWidth) / 100;
+        case 'vh':
+            return (num * context.viewportHeight) / 100;
+        case 'vmin':
+            return (num * Math.min(context.viewportWidth, context.viewportHeight)) / 100;
+        case 'vmax':
+            return (num * Math.max(context.viewportWidth, context.viewportHeight)) / 100;
+        case '%':
+            return percentBase !== undefined ? (num * percentBase) / 100 : undefined;
+        default:
+            return absoluteToPixels(num, unit);
+    }
+}
+
+/**
+ * Value produced while evaluating a math expression
+ */
+interface MathValue {
+    value: number;
+    /** Whether the value is a length (vs. a plain number) */
+    isLength: boolean;
+}
+
+/**
+ * Recursive-descent evaluator for calc(), min(), max() and clamp()
+ */
+class MathEvaluator {
+    private pos = 0;
+
+    constructor(
+        private readonly text: string,
+        private readonly fontSize: number,
+        private readonly context: UnitContext,
+        private readonly percentBase?: number
+    ) {}
+
+    evaluate(): MathValue | undefined {
+        const result = this.parseExpression();
+        this.skipWhitespace();
+        return result && this.pos === this.text.length ? result : undefined;
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private parseExpression(): MathValue | undefined {
+        let left = this.parseTerm();
+        while (left) {
+            this.skipWhitespace();
+            const operator = this.text[this.pos];
+            if (operator !== '+' && operator !== '-') break;
+            this.pos++;
+            const right = this.parseTerm();
+            if (!right || right.isLength !== left.isLength) return undefined;
+            left = {
+                value: operator === '+' ? left.value + right.value : left.value - right.value,
+                isLength: left.isLength,
+            };
+        }
+        return left;
+    }
+
+    private parseTerm(): MathValue | undefined {
+        let left = this.parseFactor();
+        while (left) {
+            this.skipWhitespace();
+            const operator = this.text[this.pos];
+            if (operator !== '*' && operator !== '/') break;
+            this.pos++;
+            const right = this.parseFactor();
+            if (!right) return undefined;
+            if (operator === '*') {
+                if (left.isLength && right.isLength) return undefined;
+                left = { value: left.value * right.value, isLength: left.isLength || right.isLength };
+            } else {
+                if (right.isLength || right.value === 0) return undefined;
+                left = { value: left.value / right.value, isLength: left.isLength };
+            }
+        }
+        return left;
+    }
+
+    private parseFactor(): MathValue | undefined {
+        this.skipWhitespace();
+        const rest = this.text.slice(this.pos);
+
+        if (rest.startsWith('(')) {
+            this.pos++;
+            return this.parseGroup();
+        }
+
+        const fn = rest.match(/^(calc|min|max|clamp)\(/i);
+        if (fn) {
+            this.pos += fn[0].length;
+            const name = fn[1].toLowerCase();
+            if (name === 'calc') return this.parseGroup();
+            return this.parseFunction(name);
+        }
+
+        const number = rest.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)?/i);
+        if (number) {
+            this.pos += number[0].length;
+            const unit = number[2] ?? '';
+            const num = parseFloat(number[1]);
+            if (!unit) return { value: num, isLength: false };
+            const pixels = unitToPixels(num, unit, this.fontSize, this.context, this.percentBase);
+            return pixels === undefined ? undefined : { value: pixels, isLength: true };
+        }
+
+        if (rest.startsWith('-')) {
+            this.pos++;
+            const inner = this.parseFactor();
+            return inner && { value: -inner.value, isLength: inner.isLength };
+        }
+
+        return undefined;
+    }
+
+    private parseGroup(): MathValue | undefined {
+        const result = this.parseExpression();
+        this.skipWhitespace();
+        if (this.text[this.pos] !== ')') return undefined;
+        this.pos++;
+        return result;
+    }
+
+    private parseFunction(name: string): MathValue | undefined {
+        const args: MathValue[] = [];
+        for (;;) {
+            const arg = this.parseExpression();
+            if (!arg) return undefined;
+            args.push(arg);
+            this.skipWhitespace();
+            const char = this.text[this.pos++];
+            if (char === ')') break;
+            if (char !== ',') return undefined;
+        }
+
+        const values = args.map(a => a.value);
+        const isLength = args.some(a => a.isLength);
+
+        if (name === 'min') return { value: Math.min(...values), isLength };
+        if (name === 'max') return { value: Math.max(...values), isLength };
+        if (name === 'clamp' && values.length === 3) {
+            return { value: Math.max(values[0], Math.min(values[1], values[2])), isLength };
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Resolve a length value to pixels
+ *
+ * @param value - CSS length (e.g., `"1.5em"`, `"50vh"`, `"calc(100vw - 2rem)"`)
+ * @param fontSize - Font size used as the `em` base
+ * @param context - Unit context
+ * @param percentBase - Base for percentages (omit to leave `%` unresolvable)
+ * @returns Pixels, or undefined if the value cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * resolveLength('2em', 14, context); // 28
+ * resolveLength('calc(50vw - 10px)', 16, context);
+ * ```
+ */
+export function resolveLength(
+    value: string,
+    fontSize: number,
+    context: UnitContext,
+    percentBase?: number
+): number | undefined {
+    const trimmed = value.trim();
+
+    const simple = trimmed.match(/^(-?(?:\d+\.?\d*|\.\d+))([a-z]*|%)$/i);
+    if (simple) {
+        return unitToPixels(parseFloat(simple[1]), simple[2], fontSize, context, percentBase);
+    }
+
+    if (MATH_FUNCTION_PATTERN.test(trimmed)) {
+        const result = new MathEvaluator(trimmed, fontSize, context, percentBase).evaluate();
+        return result ? result.value : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Resolve a font-size value against the parent font size
+ */
+function resolveFontSize(value: unknown, context: UnitContext): number | undefined {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return undefined;
+
+    const keyword = value.trim().toLowerCase();
+    if (keyword in FONT_SIZE_KEYWORDS) {
+        return FONT_SIZE_KEYWORDS[keyword] * context.rootFontSize;
+    }
+    if (keyword === 'smaller') return context.parentFontSize / 1.2;
+    if (keyword === 'larger') return context.parentFontSize * 1.2;
+
+    return resolveLength(value, context.parentFontSize, context, context.parentFontSize);
+}
+
+/**
+ * Resolve relative lengths in transform entries (e.g. `translateX: '2em'`)
+ */
+function resolveTransformUnits(transform: unknown[], fontSize: number, context: UnitContext): unknown[] {
+    return transform.map(entry => {
+        if (!entry || typeof entry !== 'object') return entry;
+        const resolved: Record<string, unknown> = { ...entry };
+        for (const [key, value] of Object.entries(resolved)) {
+            if (isRelativeLength(value)) {
+                resolved[key] = resolveLength(value, fontSize, context) ?? 0;
+            }
+        }
+        return resolved;
+    });
+}
+
+/**
+ * Resolve all relative lengths in a style object
+ *
+ * `font-size` is resolved first against the parent font size; every other
+ * property then resolves `em` against the element's own font size.
+ * Values that cannot be expressed in React Native are dropped.
+ *
+ * @param style - Style possibly containing relative length strings
+ * @param context - Unit context for the element
+ * @returns Style with absolute values
+ */
+export function resolveStyleUnits(style: RNStyle, context: UnitContext): RNStyle {
+    const source = style as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+
+    let fontSize = context.parentFontSize;
+    if (source.fontSize !== undefined) {
+        const resolved = resolveFontSize(source.fontSize, context);
+        if (resolved === undefined) {
+            delete result.fontSize;
+        } else {
+            result.fontSize = resolved;
+            fontSize = resolved;
+        }
+    }
+
+    for (const [key, value] of Object.entries(source)) {
+        if (key === 'transform' && Array.isArray(value)) {
+            result.transform = resolveTransformUnits(value, fontSize, context);
+            continue;
+        }
+        if (key === 'fontSize' || typeof value !== 'string') continue;
+
+        const fontRelativePercent = FONT_RELATIVE_PERCENT_PROPERTIES.has(key) && value.trim().endsWith('%');
+        if (!isRelativeLength(value) && !fontRelativePercent) continue;
+
+        const resolved = resolveLength(
+            value,
+            fontSize,
+            context,
+            FONT_RELATIVE_PERCENT_PROPERTIES.has(key) ? fontSize : undefined
+        );
+        if (resolved === undefined) {
+            delete result[key];
+        } else {
+            result[key] = resolved;
+        }
+    }
+
+    return result as RNStyle;
+}
@@ -0,0 +1,72 @@
+/**
+ * CSS Value Tokens
+ * Helpers for splitting and classifying the components of CSS values
+ * @module styles/valueTokens
+ */
+
+import { isRelativeLength } from './units';
+
+/**
+ * Parses a single CSS value for a React Native property
+ */
+export type ValueParser = (value: string, property: string) => unknown;
+
+/**
+ * Plain number, length (with unit or percentage) and color function patterns
+ */
+export const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)$/;
+const LENGTH_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[a-z]+|%)?$/i;
+const COLOR_FUNCTION_PATTERN = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(/i;
+
+/**
+ * Split a CSS value into whitespace-separated tokens, keeping functions
+ * and quoted strings intact
+ *
+ * @example
+ * ```typescript
+ * splitValueTokens('1px solid rgb(0, 0, 0)'); // ['1px', 'solid', 'rgb(0, 0, 0)']
+ * ```
+ */
+export function splitValueTokens(value: string): string[] {
+    const tokens: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of value.trim()) {
+        if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+            continue;
+        }
+        if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (/\s/.test(char) && depth === 0) {
+            if (current) tokens.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    if (current) tokens.push(current);
+    return tokens;
+}
+
+/**
+ * Check if a token is a length, percentage or math function
+ */
+export function isLengthToken(token: string): boolean {
+    return LENGTH_PATTERN.test(token) || isRelativeLength(token);
+}
+
+/**
+ * Check if a token can be a color
+ */
+export function isColorToken(token: string): boolean {
+    return token.startsWith('#') || COLOR_FUNCTION_PATTERN.test(token) || /^[a-z]+$/i.test(token);
+}
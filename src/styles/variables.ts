@@ -0,0 +1,239 @@
+/**
+ * CSS Custom Properties
+ * Collects `--*` declarations through the cascade and substitutes `var()`
+ * references once an element's custom properties are known
+ * @module styles/variables
+ */
+
+import type { RNStyle, StyleWarningHandler } from './styleParser';
+
+/**
+ * Custom property values keyed by name (including the leading `--`)
+ */
+export type CustomProperties = Readonly<Record<string, string>>;
+
+/**
+ * Maximum depth of nested `var()` references (guards against cycles)
+ */
+const MAX_SUBSTITUTION_DEPTH = 32;
+
+/**
+ * Maximum length of a substituted value; longer values are invalid, like
+ * browsers' limit on `var()` expansion (guards against values that double
+ * at each level of nesting)
+ */
+const MAX_SUBSTITUTED_LENGTH = 8192;
+
+/**
+ * Substituted custom property values per property set
+ */
+const resolvedProperties = new WeakMap<CustomProperties, Map<string, string>>();
+
+/**
+ * Empty custom property set
+ */
+const NO_CUSTOM_PROPERTIES: CustomProperties = Object.freeze({});
+
+/**
+ * Check if a style key is a custom property
+ */
+function isCustomProperty(key: string): boolean {
+    return key.startsWith('--');
+}
+
+/**
+ * Check if a style value references a custom property
+ */
+function hasVarReference(value: unknown): value is string {
+    return typeof value === 'string' && /var\(/i.test(value);
+}
+
+/**
+ * Convert a camelCase style key back to its CSS property name
+ */
+function toCssProperty(key: string): string {
+    return key.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+}
+
+/**
+ * Normalize custom property names so `brand` and `--brand` are equivalent
+ *
+ * @param variables - Variables, e.g. from a JS theme
+ * @returns Custom properties with `--` prefixed names and string values
+ *
+ * @example
+ * ```typescript
+ * normalizeCustomProperties({ brand: '#6200ee', 'spacing-md': 12 });
+ * // { '--brand': '#6200ee', '--spacing-md': '12px' }
+ * ```
+ */
+export function normalizeCustomProperties(
+    variables: Record<string, string | number> | undefined
+): CustomProperties {
+    if (!variables) return NO_CUSTOM_PROPERTIES;
+
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(variables)) {
+        const key = isCustomProperty(name) ? name : `--${name}`;
+        // Numbers are treated as pixel lengths, like React Native styles
+        result[key] = typeof value === 'number' ? `${value}px` : String(value).trim();
+    }
+    return result;
+}
+
+/**
+ * Collect the custom properties of an element from its cascade layers
+ *
+ * @param layers - Style layers in cascade order
+ * @param inherited - Custom properties inherited from the parent
+ * @returns Computed custom properties (the inherited object if none are declared)
+ */
+export function collectCustomProperties(
+    layers: RNStyle[],
+    inherited: CustomProperties = NO_CUSTOM_PROPERTIES
+): CustomProperties {
+    let result: Record<string, string> | undefined;
+
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer)) {
+            if (isCustomProperty(key) && typeof value === 'string') {
+                result ??= { ...inherited };
+                result[key] = value;
+            }
+        }
+    }
+
+    return result ?? inherited;
+}
+
+/**
+ * Find the closing parenthesis matching the one before `start`
+ */
+function findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        else if (text[i] === ')' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Substitute `var(--name, fallback)` references in a value
+ *
+ * @param value - CSS value containing `var()` references
+ * @param variables - Custom properties of the element
+ * @returns Substituted value, or undefined if a reference cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * substituteVariables('var(--gap, 8px) 0', { '--gap': '4px' }); // '4px 0'
+ * ```
+ */
+export function substituteVariables(
+    value: string,
+    variables: CustomProperties,
+    depth: number = 0
+): string | undefined {
+    if (depth > MAX_SUBSTITUTION_DEPTH) return undefined;
+
+    let result = '';
+    let index = 0;
+
+    for (;;) {
+        const match = /var\(/gi;
+        match.lastIndex = index;
+        const found = match.exec(value);
+        if (!found) break;
+
+        const argsStart = found.index + found[0].length;
+        const end = findClosingParen(value, argsStart);
+        if (end === -1) return undefined;
+
+        const args = value.slice(argsStart, end);
+        const comma = args.indexOf(',');
+        const name = (comma === -1 ? args : args.slice(0, comma)).trim();
+        const fallback = comma === -1 ? undefined : args.slice(comma + 1).trim();
+        if (!isCustomProperty(name)) return undefined;
+
+        const replacement = variables[name] !== undefined
+            ? resolveCustomProperty(name, variables, depth + 1)
+            : fallback
+                ? substituteVariables(fallback, variables, depth + 1)
+                : undefined;
+        if (replacement === undefined) return undefined;
+
+        result += value.slice(index, found.index) + replacement;
+        if (result.length > MAX_SUBSTITUTED_LENGTH) return undefined;
+        index = end + 1;
+    }
+
+    result += value.slice(index);
+    return result.length > MAX_SUBSTITUTED_LENGTH ? undefined : result;
+}
+
+/**
+ * Substitute a custom property's value, reusing earlier results for the
+ * same property set
+ */
+function resolveCustomProperty(name: string, variables: CustomProperties, depth: number): string | undefined {
+    let resolved = resolvedProperties.get(variables);
+    const cached = resolved?.get(name);
+    if (cached !== undefined) return cached;
+
+    const raw = variables[name];
+    const value = raw ? substituteVariables(raw, variables, depth) : undefined;
+    // Failures aren't cached: they can depend on the depth reached
+    if (value !== undefined) {
+        if (!resolved) {
+            resolved = new Map();
+            resolvedProperties.set(variables, resolved);
+        }
+        resolved.set(name, value);
+    }
+    return value;
+}
+
+/**
+ * Resolve `var()` references in a style layer and drop custom properties
+ *
+ * Declarations whose references cannot be resolved are dropped (they become
+ * invalid at computed-value time, as in CSS).
+ *
+ * @param style - Style layer from `parseDeclarations` or user styles
+ * @param variables - Custom properties of the element
+ * @param parse - Parses the substituted declaration (e.g., `parseDeclarations`)
+ * @param onWarning - Receives messages about unresolved references
+ * @returns Style containing only React Native properties
+ */
+export function resolveVariables(
+    style: RNStyle,
+    variables: CustomProperties,
+    parse: (declaration: string) => RNStyle,
+    onWarning?: StyleWarningHandler
+): RNStyle {
+    const entries = Object.entries(style);
+    if (!entries.some(([key, value]) => isCustomProperty(key) || hasVarReference(value))) {
+        return style;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of entries) {
+        if (isCustomProperty(key)) continue;
+
+        if (!hasVarReference(value)) {
+            result[key] = value;
+            continue;
+        }
+
+        const property = toCssProperty(key);
+        const substituted = substituteVariables(value, variables);
+        if (substituted === undefined) {
+            onWarning?.(`Unresolved custom property in "${property}: ${value}"`);
+            continue;
+        }
+        Object.assign(result, parse(`${property}: ${substituted}`));
+    }
+
+    return result as RNStyle;
+}